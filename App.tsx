@@ -1,49 +1,173 @@
-import React, { useState, useRef } from 'react';
-import { Upload, Search, FileText, Briefcase, CheckCircle, AlertCircle, Loader2, Download, ExternalLink, RefreshCw, Settings } from 'lucide-react';
-import { AnalyzedResponse, Job } from './types';
+import React, { useState, useRef, useEffect } from 'react';
+import { Upload, Search, FileText, Briefcase, CheckCircle, AlertCircle, Loader2, Download, RefreshCw, Settings, Filter, Package, KanbanSquare, Clock, LogOut, History } from 'lucide-react';
+import { AnalysisRecord, AnalyzedResponse, ApifyCredential, CandidateProfile, Job, JobSourceId, JobSourceInfo, PrefilterRules, RunEvent, RunProgress as RunProgressState, SavedProfile, TrackedApplication, User } from './types';
+import RunProgress from './components/RunProgress';
+import JobCard from './components/JobCard';
+import PrefilterSettings from './components/PrefilterSettings';
+import CandidateProfileCard from './components/CandidateProfileCard';
+import CoverLetterEditor from './components/CoverLetterEditor';
+import TailoredCvView from './components/TailoredCvView';
+import BatchCoverLetters from './components/BatchCoverLetters';
+import ApplicationTracker from './components/ApplicationTracker';
+import SavedSearches from './components/SavedSearches';
+import AnalysisHistory from './components/AnalysisHistory';
+import AuthScreen from './components/AuthScreen';
+import ApifyCredentials from './components/ApifyCredentials';
+import { API_BASE_URL, apiFetch, requestJson, setUnauthorizedHandler } from './services/api';
 
-// API Base URL - assumes the Node server is running on port 3000
-const API_BASE_URL = 'http://localhost:3000/api';
+// Matches the server's default MAX_UPLOAD_MB
+const MAX_CV_BYTES = 5 * 1024 * 1024;
+
+// Strips run-specific fields, leaving the profile the server needs for generation
+const toCandidateProfile = ({ contact, skills, profileSummary, experienceHighlights, workHistory, education, certifications, languages, totalYearsExperience, seniority }: AnalyzedResponse): CandidateProfile => ({
+  contact, skills, profileSummary, experienceHighlights, workHistory, education, certifications, languages, totalYearsExperience, seniority
+});
+
+// Stands in for the profile of a run reopened from history, which doesn't keep one
+const NO_PROFILE: CandidateProfile = {
+  contact: { name: '' }, skills: [], profileSummary: '', experienceHighlights: [], workHistory: [],
+  education: [], certifications: [], languages: [], totalYearsExperience: 0, seniority: 'mid'
+};
 
 const App: React.FC = () => {
+  // Signed-in user; undefined while the session is being checked
+  const [user, setUser] = useState<User | null | undefined>(undefined);
+
   // Form State
   const [cvFile, setCvFile] = useState<File | null>(null);
+  const [source, setSource] = useState<JobSourceId>('apify-linkedin');
+  const [sources, setSources] = useState<JobSourceInfo[]>([]);
   const [searchUrl, setSearchUrl] = useState<string>('');
   const [maxJobs, setMaxJobs] = useState<number>(50);
   const [scoreThreshold, setScoreThreshold] = useState<number>(60);
   
-  // Scraper Settings (Apify)
-  // Changed default to true so users see where to paste keys immediately
+  // Scraper Settings (Apify): runs reference a credential saved on the server
   const [showScraperSettings, setShowScraperSettings] = useState<boolean>(true);
-  const [apifyToken, setApifyToken] = useState<string>('');
-  const [apifyActor, setApifyActor] = useState<string>('curious_coder~linkedin-jobs-scraper');
+  const [credentials, setCredentials] = useState<ApifyCredential[]>([]);
+  const [credentialId, setCredentialId] = useState<string>('');
+  // Whether the server lets runs without a credential use its own Apify token
+  const [serverTokenAvailable, setServerTokenAvailable] = useState<boolean>(false);
+
+  // Pre-filter rules applied before any job is scored
+  const [showFilters, setShowFilters] = useState<boolean>(false);
+  const [filters, setFilters] = useState<PrefilterRules>({
+    includeKeywords: [],
+    excludeKeywords: [],
+    blockedCompanies: [],
+    excludeTitlePatterns: [],
+    languages: []
+  });
 
   // App Status State
   const [status, setStatus] = useState<'idle' | 'analyzing' | 'success' | 'error'>('idle');
   const [loadingMessage, setLoadingMessage] = useState<string>('');
   const [errorMessage, setErrorMessage] = useState<string>('');
   
+  // Live run progress (streamed from the server while an analysis is running)
+  const [progress, setProgress] = useState<RunProgressState | null>(null);
+  const [partialJobs, setPartialJobs] = useState<Job[]>([]);
+  const eventSourceRef = useRef<EventSource | null>(null);
+
   // Data State
   const [data, setData] = useState<AnalyzedResponse | null>(null);
+  // False for a run reopened from history without its saved profile: there is nothing to write letters from
+  const [hasProfile, setHasProfile] = useState(true);
+  const [runId, setRunId] = useState<string | null>(null);
   
-  // Cover Letter Generation State
-  const [generatingCoverId, setGeneratingCoverId] = useState<string | null>(null);
+  // Saved candidate profiles; an empty selection means "upload a CV"
+  const [savedProfiles, setSavedProfiles] = useState<SavedProfile[]>([]);
+  const [selectedProfileId, setSelectedProfileId] = useState<string>('');
+
+  // Job whose cover letter editor is open
+  const [coverLetterJob, setCoverLetterJob] = useState<Job | null>(null);
+  const [tailoredCvJob, setTailoredCvJob] = useState<Job | null>(null);
+  const [showBatch, setShowBatch] = useState(false);
+
+  // Application tracker, saved searches and history are shown instead of the search form
+  const [view, setView] = useState<'search' | 'tracker' | 'searches' | 'history'>('search');
+  const [applications, setApplications] = useState<TrackedApplication[]>([]);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Close any open progress stream when the component unmounts
+  useEffect(() => () => eventSourceRef.current?.close(), []);
+
+  // Any 401 means the session is gone, so go back to the sign-in screen
+  useEffect(() => {
+    setUnauthorizedHandler(() => setUser(null));
+    requestJson<User>('/auth/me').then(setUser).catch(() => setUser(null));
+    return () => setUnauthorizedHandler(undefined);
+  }, []);
+
+  // Load the available job sources
+  useEffect(() => {
+    if (!user) return;
+    requestJson<JobSourceInfo[]>('/sources')
+      .then(setSources)
+      .catch(err => console.error("Failed to load job sources", err));
+  }, [user]);
+
+  // Jobs are scored once; the threshold only filters what is shown
+  const visibleJobs = data ? data.jobs.filter(job => (job.score || 0) >= scoreThreshold) : [];
+
+  const loadProfiles = () =>
+    requestJson<SavedProfile[]>('/profiles')
+      .then(setSavedProfiles)
+      .catch(err => console.error("Failed to load saved profiles", err));
+
+  useEffect(() => { if (user) loadProfiles(); }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+    requestJson<ApifyCredential[]>('/credentials')
+      .then(setCredentials)
+      .catch(err => console.error("Failed to load Apify credentials", err));
+    requestJson<{ available: boolean }>('/credentials/server-default')
+      .then(({ available }) => setServerTokenAvailable(available))
+      .catch(err => console.error("Failed to check the server's Apify token", err));
+  }, [user]);
+
+  const loadApplications = () =>
+    requestJson<TrackedApplication[]>('/applications')
+      .then(setApplications)
+      .catch(err => console.error("Failed to load applications", err));
+
+  useEffect(() => { if (user) loadApplications(); }, [user]);
+
+  const applicationFor = (job: Job) => applications.find(a => a.job.jobId === job.jobId);
+
+  const handleTrack = async (job: Job) => {
+    try {
+      const application = await requestJson<TrackedApplication>('/applications', { method: 'POST', json: { job } });
+      setApplications(prev => [application, ...prev]);
+    } catch (err: any) {
+      alert(err.message || "Failed to track the job.");
+    }
+  };
+
+  const selectedSource = sources.find(s => s.id === source);
+  const isApifySource = source === 'apify-linkedin';
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
+      // The server enforces this too; checking here saves uploading a file it will refuse
+      if (e.target.files[0].size > MAX_CV_BYTES) {
+        setErrorMessage("The CV is larger than 5MB.");
+        e.target.value = '';
+        return;
+      }
+      setErrorMessage('');
       setCvFile(e.target.files[0]);
     }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!cvFile) {
-      setErrorMessage("Please upload a CV.");
+    if (!cvFile && !selectedProfileId) {
+      setErrorMessage("Please upload a CV or choose a saved profile.");
       return;
     }
-    if (!searchUrl.includes('linkedin.com/jobs/search')) {
+    if (isApifySource && !searchUrl.includes('linkedin.com/jobs/search')) {
       setErrorMessage("Please enter a valid LinkedIn search URL.");
       return;
     }
@@ -53,18 +177,20 @@ const App: React.FC = () => {
     setErrorMessage('');
 
     const formData = new FormData();
-    formData.append('cvFile', cvFile);
+    if (selectedProfileId) formData.append('profileId', selectedProfileId);
+    else if (cvFile) formData.append('cvFile', cvFile);
+    formData.append('source', source);
     formData.append('searchUrl', searchUrl);
     formData.append('maxJobs', maxJobs.toString());
-    formData.append('scoreThreshold', scoreThreshold.toString());
+    formData.append('threshold', scoreThreshold.toString());
     
     // Pass optional scraper settings
-    formData.append('apifyToken', apifyToken);
-    formData.append('apifyActor', apifyActor);
+    if (credentialId) formData.append('credentialId', credentialId);
+    formData.append('filters', JSON.stringify(filters));
 
     try {
-      // Step 1: Analyze
-      const response = await fetch(`${API_BASE_URL}/analyze`, {
+      // Step 1: Submit the analysis run
+      const response = await apiFetch('/analyze', {
         method: 'POST',
         body: formData,
       });
@@ -74,9 +200,10 @@ const App: React.FC = () => {
         throw new Error(errorData.error || 'Failed to analyze jobs');
       }
 
-      const result: AnalyzedResponse = await response.json();
-      setData(result);
-      setStatus('success');
+      const { runId } = await response.json();
+
+      // Step 2: Follow its progress until it finishes
+      followRun(runId);
     } catch (err: any) {
       console.error(err);
       setErrorMessage(err.message || "An unexpected error occurred. Ensure the server is running on port 3000.");
@@ -84,49 +211,147 @@ const App: React.FC = () => {
     }
   };
 
-  const handleGenerateCoverLetter = async (job: Job) => {
-    if (generatingCoverId) return; // Prevent multiple clicks
-    setGeneratingCoverId(job.jobId);
+  const followRun = (runId: string) => {
+    eventSourceRef.current?.close();
+    setRunId(runId);
+    const source = new EventSource(`${API_BASE_URL}/runs/${runId}/events`, { withCredentials: true });
+    eventSourceRef.current = source;
 
-    try {
-      const response = await fetch(`${API_BASE_URL}/generate-cover`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          job,
-          cvContext: {
-            skills: data?.skills,
-            experienceHighlights: data?.experienceHighlights
-          }
-        }),
-      });
+    const handleEvent = (message: MessageEvent) => {
+      const event: RunEvent = JSON.parse(message.data);
+      switch (event.type) {
+        case 'snapshot':
+          setProgress(event.run.progress);
+          setPartialJobs(event.run.jobs);
+          setLoadingMessage(event.run.progress.message);
+          if (event.run.result) finishRun(event.run.result);
+          if (event.run.error) failRun(event.run.error);
+          break;
+        case 'progress':
+          setProgress(event.progress);
+          setLoadingMessage(event.progress.message);
+          break;
+        case 'job':
+          setPartialJobs(prev => [...prev, event.job]);
+          break;
+        case 'done':
+          finishRun(event.result);
+          break;
+        case 'failed':
+          failRun(event.error);
+          break;
+      }
+    };
 
-      if (!response.ok) {
-        throw new Error("Failed to generate cover letter");
+    ['snapshot', 'progress', 'job', 'done', 'failed'].forEach(type =>
+      source.addEventListener(type, handleEvent as EventListener)
+    );
+
+    source.onerror = () => {
+      // EventSource reconnects on its own while the stream is open; only give up once it is closed.
+      if (source.readyState === EventSource.CLOSED) {
+        failRun("Lost connection to the server while the analysis was running.");
       }
+    };
+  };
+
+  // The server aborts the run (including any Apify run); the stream then reports it as failed.
+  const handleCancel = () => {
+    if (!runId) return;
+    requestJson(`/runs/${runId}/cancel`, { method: 'POST' })
+      .catch(err => console.error("Failed to cancel the run", err));
+  };
+
+  const finishRun = (result: AnalyzedResponse) => {
+    eventSourceRef.current?.close();
+    setData(result);
+    setHasProfile(true);
+    setStatus('success');
+  };
 
-      const result = await response.json();
-      
-      // Trigger download
-      if (result.coverLetterUrl) {
-        window.open(result.coverLetterUrl, '_blank');
+  const failRun = (message: string) => {
+    eventSourceRef.current?.close();
+    setErrorMessage(message);
+    setStatus('error');
+  };
+
+  const handleProfileChange = (profile: CandidateProfile) => {
+    if (data) setData({ ...data, ...profile });
+  };
+
+  const handleSaveProfile = async (name: string) => {
+    if (!data) return;
+    const existing = savedProfiles.find(p => p.profileId === data.profileId);
+    const isUpdate = existing && existing.name === name;
+    try {
+      const response = await apiFetch(`/profiles${isUpdate ? `/${existing!.profileId}` : ''}`, {
+        method: isUpdate ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, profile: toCandidateProfile(data) }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to save profile');
       }
-    } catch (err) {
-      alert("Failed to generate cover letter. Please try again.");
-    } finally {
-      setGeneratingCoverId(null);
+      const saved: SavedProfile = await response.json();
+      setData({ ...data, profileId: saved.profileId });
+      // Later runs default to the profile just saved, so no re-upload is needed
+      setSelectedProfileId(saved.profileId);
+      await loadProfiles();
+    } catch (err: any) {
+      alert(err.message || "Failed to save profile.");
     }
   };
 
   const reset = () => {
+    eventSourceRef.current?.close();
     setStatus('idle');
     setData(null);
+    setRunId(null);
     setErrorMessage('');
     setLoadingMessage('');
+    setProgress(null);
+    setPartialJobs([]);
+  };
+
+  // Shows a past analysis as if it had just finished, with the form set up to run it again
+  const openAnalysis = (analysis: AnalysisRecord) => {
+    eventSourceRef.current?.close();
+    const { inputs } = analysis;
+    setSource(inputs.source);
+    setSearchUrl(inputs.searchUrl);
+    setMaxJobs(inputs.maxJobs);
+    if (inputs.threshold !== undefined) setScoreThreshold(inputs.threshold);
+    if (inputs.filters) setFilters(inputs.filters);
+    // History keeps no CV profile; a run made with a saved profile gets that one back
+    const savedProfile = savedProfiles.find(p => p.profileId === inputs.profileId);
+    setSelectedProfileId(savedProfile ? savedProfile.profileId : '');
+    setData({ ...(savedProfile?.profile || NO_PROFILE), ...analysis.result! });
+    setHasProfile(!!savedProfile);
+    setRunId(analysis.analysisId);
+    setProgress(null);
+    setPartialJobs([]);
+    setErrorMessage('');
+    setStatus('success');
+    setView('search');
   };
 
+  const signOut = async () => {
+    await requestJson('/auth/logout', { method: 'POST' }).catch(() => undefined);
+    reset();
+    setView('search');
+    setUser(null);
+  };
+
+  if (user === undefined) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Loader2 className="w-8 h-8 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+  if (!user) return <AuthScreen onSignedIn={setUser} />;
+
   return (
     <div className="min-h-screen bg-gray-50 p-4 md:p-8">
       <div className="max-w-6xl mx-auto space-y-8">
@@ -142,15 +367,55 @@ const App: React.FC = () => {
               <p className="text-sm text-gray-500">Smart scraping, scoring, and application assistant</p>
             </div>
           </div>
-          {status === 'success' && (
-             <button onClick={reset} className="flex items-center gap-2 text-sm font-medium text-gray-600 hover:text-blue-600 transition-colors">
-               <RefreshCw className="w-4 h-4" /> Run Again
-             </button>
-          )}
+          <div className="flex items-center gap-6">
+            {view !== 'search' && (
+              <button onClick={() => setView('search')} className="flex items-center gap-2 text-sm font-medium text-gray-600 hover:text-blue-600 transition-colors">
+                <Search className="w-4 h-4" /> Job Search
+              </button>
+            )}
+            {view !== 'searches' && (
+              <button onClick={() => setView('searches')} className="flex items-center gap-2 text-sm font-medium text-gray-600 hover:text-blue-600 transition-colors">
+                <Clock className="w-4 h-4" /> Saved Searches
+              </button>
+            )}
+            {view !== 'history' && (
+              <button onClick={() => setView('history')} className="flex items-center gap-2 text-sm font-medium text-gray-600 hover:text-blue-600 transition-colors">
+                <History className="w-4 h-4" /> History
+              </button>
+            )}
+            {view !== 'tracker' && (
+              <button onClick={() => setView('tracker')} className="flex items-center gap-2 text-sm font-medium text-gray-600 hover:text-blue-600 transition-colors">
+                <KanbanSquare className="w-4 h-4" /> Applications ({applications.length})
+              </button>
+            )}
+            {view === 'search' && status === 'success' && (
+               <button onClick={reset} className="flex items-center gap-2 text-sm font-medium text-gray-600 hover:text-blue-600 transition-colors">
+                 <RefreshCw className="w-4 h-4" /> Run Again
+               </button>
+            )}
+            <div className="flex items-center gap-2 pl-6 border-l border-gray-200 text-sm text-gray-500">
+              <span title={user.email}>{user.name}</span>
+              <button onClick={signOut} className="text-gray-500 hover:text-blue-600 transition-colors" aria-label="Sign out">
+                <LogOut className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
         </header>
 
+        {view === 'tracker' && <ApplicationTracker applications={applications} onChange={setApplications} />}
+        {view === 'history' && <AnalysisHistory sources={sources} onOpen={openAnalysis} />}
+        {view === 'searches' && (
+          <SavedSearches
+            sources={sources}
+            profiles={savedProfiles}
+            credentials={credentials}
+            serverTokenAvailable={serverTokenAvailable}
+            defaults={{ source, searchUrl, maxJobs, credentialId: credentialId || undefined, filters, profileId: selectedProfileId, threshold: scoreThreshold }}
+          />
+        )}
+
         {/* Input Form */}
-        {status === 'idle' || status === 'analyzing' || status === 'error' ? (
+        {view === 'search' && (status === 'idle' || status === 'analyzing' || status === 'error') ? (
           <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 md:p-8">
             <h2 className="text-lg font-semibold mb-6 flex items-center gap-2">
               <Search className="w-5 h-5 text-blue-500" />
@@ -162,7 +427,24 @@ const App: React.FC = () => {
                 
                 {/* File Upload */}
                 <div className="space-y-2">
-                  <label className="block text-sm font-medium text-gray-700">Upload CV (PDF, DOCX)</label>
+                  {savedProfiles.length > 0 && (
+                    <div className="mb-4">
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Candidate Profile</label>
+                      <select
+                        value={selectedProfileId}
+                        onChange={(e) => setSelectedProfileId(e.target.value)}
+                        className="w-full rounded-lg border-gray-300 border p-2.5 text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white text-gray-900"
+                      >
+                        <option value="">Upload a CV</option>
+                        {savedProfiles.map(p => (
+                          <option key={p.profileId} value={p.profileId}>{p.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                  {!selectedProfileId && (
+                  <>
+                  <label className="block text-sm font-medium text-gray-700">Upload CV</label>
                   <div 
                     onClick={() => fileInputRef.current?.click()}
                     className="border-2 border-dashed border-gray-300 rounded-lg p-6 flex flex-col items-center justify-center cursor-pointer hover:border-blue-500 hover:bg-blue-50 transition-colors"
@@ -171,30 +453,52 @@ const App: React.FC = () => {
                     <p className="text-sm text-gray-600 font-medium">
                       {cvFile ? cvFile.name : "Click to upload your CV"}
                     </p>
-                    <p className="text-xs text-gray-400 mt-1">Max 5MB</p>
+                    <p className="text-xs text-gray-400 mt-1">PDF, DOCX, ODT, RTF, HTML, Markdown, TXT or a LinkedIn data export (.zip) &middot; Max 5MB</p>
                     <input 
                       type="file" 
                       ref={fileInputRef} 
                       onChange={handleFileChange} 
-                      accept=".pdf,.doc,.docx" 
+                      accept=".pdf,.docx,.odt,.rtf,.html,.htm,.md,.markdown,.txt,.zip" 
                       className="hidden" 
                     />
                   </div>
+                  </>
+                  )}
                 </div>
 
                 {/* Settings */}
                 <div className="space-y-4">
                    <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">LinkedIn Search URL</label>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Job Source</label>
+                    <select
+                      value={source}
+                      onChange={(e) => setSource(e.target.value as JobSourceId)}
+                      className="w-full rounded-lg border-gray-300 border p-2.5 text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white text-gray-900"
+                    >
+                      {sources.length === 0 && <option value="apify-linkedin">LinkedIn (Apify)</option>}
+                      {sources.map(s => (
+                        <option key={s.id} value={s.id}>{s.label}</option>
+                      ))}
+                    </select>
+                   </div>
+
+                   <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {isApifySource ? 'LinkedIn Search URL' : 'Source URL'}
+                    </label>
                     <input 
-                      type="url" 
+                      type={isApifySource ? 'url' : 'text'}
                       value={searchUrl}
                       onChange={(e) => setSearchUrl(e.target.value)}
-                      placeholder="https://www.linkedin.com/jobs/search?keywords=..."
+                      placeholder={selectedSource?.queryHint || "https://www.linkedin.com/jobs/search?keywords=..."}
                       className="w-full rounded-lg border-gray-300 border p-2.5 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none bg-white text-gray-900"
                       required
                     />
-                    <p className="text-xs text-gray-400 mt-1">Paste the full URL from your browser address bar after searching.</p>
+                    <p className="text-xs text-gray-400 mt-1">
+                      {isApifySource
+                        ? 'Paste the full URL from your browser address bar after searching.'
+                        : `e.g. ${selectedSource?.queryHint || ''}`}
+                    </p>
                    </div>
 
                    <div className="grid grid-cols-2 gap-4">
@@ -225,6 +529,7 @@ const App: React.FC = () => {
               </div>
 
               {/* Scraper Settings Section */}
+              {isApifySource && (
               <div className="border-t border-gray-100 pt-4">
                  <button 
                    type="button"
@@ -236,31 +541,29 @@ const App: React.FC = () => {
                  </button>
                  
                  {showScraperSettings && (
-                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 bg-gray-50 rounded-lg border border-gray-200 animate-fade-in">
-                     <div>
-                       <label className="block text-sm font-medium text-gray-700 mb-1">Apify API Token</label>
-                       <input 
-                         type="password"
-                         value={apifyToken}
-                         onChange={(e) => setApifyToken(e.target.value)}
-                         placeholder="Paste your Apify API Token here"
-                         className="w-full rounded-lg border-gray-300 border p-2.5 text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white text-gray-900"
-                       />
-                       <p className="text-xs text-gray-400 mt-1">Leave blank if using .env file</p>
-                     </div>
-                     <div>
-                       <label className="block text-sm font-medium text-gray-700 mb-1">Actor Slug</label>
-                       <input 
-                         type="text"
-                         value={apifyActor}
-                         onChange={(e) => setApifyActor(e.target.value)}
-                         placeholder="curious_coder~linkedin-jobs-scraper"
-                         className="w-full rounded-lg border-gray-300 border p-2.5 text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white text-gray-900"
-                       />
-                     </div>
-                   </div>
+                   <ApifyCredentials
+                     credentials={credentials}
+                     serverTokenAvailable={serverTokenAvailable}
+                     selectedId={credentialId}
+                     onSelect={setCredentialId}
+                     onChange={setCredentials}
+                   />
                  )}
               </div>
+              )}
+
+              {/* Pre-filter Section */}
+              <div className="border-t border-gray-100 pt-4">
+                 <button 
+                   type="button"
+                   onClick={() => setShowFilters(!showFilters)}
+                   className="flex items-center gap-2 text-sm font-medium text-gray-600 hover:text-blue-600 transition-colors mb-4"
+                 >
+                   <Filter className="w-4 h-4" />
+                   {showFilters ? 'Hide Filters' : 'Filters (before AI scoring)'}
+                 </button>
+                 {showFilters && <PrefilterSettings rules={filters} onChange={setFilters} />}
+              </div>
 
               {/* Action */}
               <div className="pt-4 border-t border-gray-100 flex flex-col items-center">
@@ -286,8 +589,16 @@ const App: React.FC = () => {
                      </span>
                    ) : "Scrape & Analyze Jobs"}
                  </button>
+                 {status === 'analyzing' && progress && (
+                   <RunProgress progress={progress} partialJobs={partialJobs.filter(job => (job.score || 0) >= scoreThreshold)} />
+                 )}
+                 {status === 'analyzing' && runId && (
+                   <button type="button" onClick={handleCancel} className="mt-3 text-sm text-gray-500 hover:text-red-600">
+                     Cancel analysis
+                   </button>
+                 )}
                  <p className="mt-4 text-xs text-gray-400">
-                   Privacy Notice: Files are processed temporarily for analysis and are not permanently stored.
+                   Privacy Notice: Uploaded files are deleted once their text is extracted. The profile read from a CV is cached for up to a day; history keeps job results but never your profile.
                  </p>
               </div>
             </form>
@@ -295,150 +606,163 @@ const App: React.FC = () => {
         ) : null}
 
         {/* Results Dashboard */}
-        {status === 'success' && data && (
+        {view === 'search' && status === 'success' && data && (
           <div className="space-y-8 animate-fade-in">
             
             {/* CV Summary Card */}
-            <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
-              <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
-                <FileText className="w-5 h-5 text-indigo-500" />
-                CV Analysis
-              </h3>
-              <div className="grid md:grid-cols-3 gap-6">
-                <div className="md:col-span-2 space-y-4">
-                  <div>
-                    <h4 className="text-sm font-medium text-gray-500 uppercase tracking-wider mb-2">Profile Summary</h4>
-                    <p className="text-gray-700 leading-relaxed">{data.profileSummary}</p>
-                  </div>
-                  <div>
-                     <h4 className="text-sm font-medium text-gray-500 uppercase tracking-wider mb-2">Highlights</h4>
-                     <ul className="list-disc list-inside space-y-1 text-gray-700">
-                       {data.experienceHighlights.map((h, i) => (
-                         <li key={i}>{h}</li>
-                       ))}
-                     </ul>
-                  </div>
-                </div>
-                <div className="bg-indigo-50 rounded-lg p-5">
-                  <h4 className="text-sm font-medium text-indigo-800 uppercase tracking-wider mb-3">Detected Skills</h4>
-                  <div className="flex flex-wrap gap-2">
-                    {data.skills.map((skill, i) => (
-                      <span key={i} className="px-3 py-1 bg-white text-indigo-600 text-xs font-medium rounded-full border border-indigo-100 shadow-sm">
-                        {skill}
-                      </span>
-                    ))}
-                  </div>
-                </div>
+            {hasProfile ? (
+              <CandidateProfileCard
+                profile={data}
+                savedName={savedProfiles.find(p => p.profileId === data.profileId)?.name}
+                onProfileChange={handleProfileChange}
+                onSaveProfile={handleSaveProfile}
+              />
+            ) : (
+              <div className="bg-white rounded-xl border border-gray-100 p-4 text-sm text-gray-500">
+                History doesn't keep the CV profile of a run. Upload the CV again, or use a saved profile, to write cover letters or tailored CVs.
               </div>
-            </div>
+            )}
 
             {/* Jobs Grid */}
             <div>
               <div className="flex items-center justify-between mb-6">
-                <h3 className="text-xl font-bold text-gray-900">
-                  Matched Jobs <span className="text-gray-400 font-normal ml-2">({data.jobs.length})</span>
-                </h3>
-                <div className="text-sm text-gray-500">
-                  Showing jobs with score &ge; {scoreThreshold}
+                <div className="flex items-center gap-4">
+                  <h3 className="text-xl font-bold text-gray-900">
+                    Matched Jobs <span className="text-gray-400 font-normal ml-2">({visibleJobs.length})</span>
+                  </h3>
+                  {runId && hasProfile && visibleJobs.length > 0 && (
+                    <button
+                      onClick={() => setShowBatch(true)}
+                      className="flex items-center gap-2 px-3 py-1.5 bg-indigo-50 text-indigo-700 rounded-lg text-sm font-medium hover:bg-indigo-100 transition-colors"
+                    >
+                      <Package className="w-4 h-4" />
+                      Letters for Top Matches
+                    </button>
+                  )}
+                </div>
+                <div className="text-sm text-gray-500 text-right">
+                  <label className="flex items-center justify-end gap-3">
+                    Showing jobs with score &ge; {scoreThreshold}
+                    <input
+                      type="range"
+                      value={scoreThreshold}
+                      onChange={(e) => setScoreThreshold(Number(e.target.value))}
+                      min={0}
+                      max={100}
+                      className="w-32 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                    />
+                  </label>
+                  <div className="text-xs text-gray-400">
+                    {data.jobs.length + data.failedJobs.length} evaluated &middot; {data.jobs.length} scored
+                    {data.failedJobs.length > 0 && <> &middot; {data.failedJobs.length} failed</>}
+                  </div>
+                  {data.dedupe && (
+                    <div className="text-xs text-gray-400">
+                      {data.dedupe.new} new since last run &middot; {data.dedupe.unchanged + data.dedupe.changed} seen before
+                      {data.dedupe.duplicates > 0 && <> &middot; {data.dedupe.duplicates} duplicates removed</>}
+                    </div>
+                  )}
+                  {data.scoreCache && (
+                    <div className="text-xs text-gray-400">
+                      {data.scoreCache.hits} scores from cache &middot; {data.scoreCache.misses} scored by AI
+                    </div>
+                  )}
+                  {data.usage && (
+                    <div className="text-xs text-gray-400">
+                      {data.usage.totalTokens.toLocaleString()} tokens &middot; ~${data.usage.estimatedCostUsd.toFixed(4)}
+                      {data.usage.retries > 0 && <> &middot; {data.usage.retries} retries</>}
+                    </div>
+                  )}
                 </div>
               </div>
 
-              {data.jobs.length === 0 ? (
+              {visibleJobs.length === 0 ? (
                 <div className="text-center py-12 bg-white rounded-xl border border-dashed border-gray-300">
                   <p className="text-gray-500">No jobs met your threshold criteria.</p>
-                  <button onClick={reset} className="mt-4 text-blue-600 hover:underline">Try different settings</button>
+                  {data.jobs.length > 0 ? (
+                    <button onClick={() => setScoreThreshold(0)} className="mt-4 text-blue-600 hover:underline">Show all {data.jobs.length} scored jobs</button>
+                  ) : (
+                    <button onClick={reset} className="mt-4 text-blue-600 hover:underline">Try different settings</button>
+                  )}
                 </div>
               ) : (
                 <div className="grid grid-cols-1 gap-6">
-                  {data.jobs.map((job) => (
-                    <div key={job.jobId} className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden hover:shadow-md transition-shadow">
-                      <div className="p-6">
-                        <div className="flex flex-col md:flex-row gap-6">
-                          
-                          {/* Left: Score & Logo */}
-                          <div className="flex-shrink-0 flex flex-row md:flex-col items-center gap-4 md:w-24">
-                            {job.companyLogo ? (
-                              <img src={job.companyLogo} alt={job.companyName} className="w-16 h-16 object-contain rounded-md bg-white border border-gray-100" />
-                            ) : (
-                              <div className="w-16 h-16 bg-gray-100 rounded-md flex items-center justify-center text-gray-400 text-xl font-bold">
-                                {job.companyName.charAt(0)}
-                              </div>
-                            )}
-                            <div className={`
-                              flex items-center justify-center w-12 h-12 rounded-full font-bold text-sm border-4
-                              ${(job.score || 0) >= 80 ? 'border-green-100 text-green-700 bg-green-50' : 
-                                (job.score || 0) >= 60 ? 'border-yellow-100 text-yellow-700 bg-yellow-50' : 'border-red-100 text-red-700 bg-red-50'}
-                            `}>
-                              {job.score}
-                            </div>
-                          </div>
-
-                          {/* Middle: Content */}
-                          <div className="flex-grow space-y-3">
-                            <div>
-                              <h4 className="text-lg font-bold text-gray-900 hover:text-blue-600">
-                                <a href={job.jobUrl} target="_blank" rel="noreferrer">{job.jobTitle}</a>
-                              </h4>
-                              <p className="text-sm font-medium text-gray-600">{job.companyName}</p>
-                            </div>
-                            
-                            <div className="bg-blue-50/50 p-4 rounded-lg border border-blue-100">
-                              <p className="text-sm text-gray-800 leading-relaxed">
-                                <span className="font-semibold text-blue-800">AI Verdict: </span>
-                                {job.verdict}
-                              </p>
-                            </div>
-                            
-                            <div className="flex items-center gap-4 text-xs text-gray-400 pt-2">
-                              <span>Scraped: {job.scrapedAt}</span>
-                              {job.jobId && <span>ID: {job.jobId}</span>}
-                            </div>
-                          </div>
-
-                          {/* Right: Actions */}
-                          <div className="flex flex-col gap-3 justify-center min-w-[180px]">
-                             <a 
-                               href={job.jobUrl} 
-                               target="_blank" 
-                               rel="noreferrer"
-                               className="flex items-center justify-center gap-2 px-4 py-2 bg-white border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
-                             >
-                               View Job <ExternalLink className="w-4 h-4" />
-                             </a>
-                             {job.applyUrl && (
-                               <a 
-                                 href={job.applyUrl} 
-                                 target="_blank" 
-                                 rel="noreferrer"
-                                 className="flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 border border-transparent rounded-lg text-sm font-medium text-white hover:bg-blue-700 transition-colors"
-                               >
-                                 Apply Now <ExternalLink className="w-4 h-4" />
-                               </a>
-                             )}
-                             <div className="h-px bg-gray-100 my-1"></div>
-                             <button
-                               onClick={() => handleGenerateCoverLetter(job)}
-                               disabled={generatingCoverId === job.jobId}
-                               className="flex items-center justify-center gap-2 px-4 py-2 bg-indigo-50 text-indigo-700 rounded-lg text-sm font-medium hover:bg-indigo-100 transition-colors disabled:opacity-70"
-                             >
-                               {generatingCoverId === job.jobId ? (
-                                 <Loader2 className="w-4 h-4 animate-spin" />
-                               ) : (
-                                 <FileText className="w-4 h-4" />
-                               )}
-                               {generatingCoverId === job.jobId ? 'Generating...' : 'Cover Letter'}
-                             </button>
-                          </div>
-                        </div>
-                      </div>
-                    </div>
+                  {visibleJobs.map((job) => (
+                    <JobCard
+                      key={job.jobId}
+                      job={job}
+                      onOpenCoverLetter={hasProfile ? setCoverLetterJob : undefined}
+                      onOpenTailoredCv={hasProfile ? setTailoredCvJob : undefined}
+                      tracked={!!applicationFor(job)}
+                      onTrack={handleTrack}
+                    />
                   ))}
                 </div>
               )}
+
+              {data.prefilter && data.prefilter.filtered.length > 0 && (
+                <details className="mt-6 bg-white rounded-xl border border-gray-100 p-4">
+                  <summary className="cursor-pointer text-sm font-medium text-gray-600 flex items-center gap-2">
+                    <Filter className="w-4 h-4 text-gray-400" />
+                    {data.prefilter.filtered.length} of {data.prefilter.received} jobs filtered out before scoring
+                  </summary>
+                  <ul className="mt-3 divide-y divide-gray-100 text-sm">
+                    {data.prefilter.filtered.map(({ job, reason }) => (
+                      <li key={job.jobId} className="py-2 flex flex-col md:flex-row md:justify-between gap-1">
+                        <a href={job.jobUrl} target="_blank" rel="noreferrer" className="text-gray-800 hover:text-blue-600">
+                          {job.jobTitle} <span className="text-gray-400">at {job.companyName}</span>
+                        </a>
+                        <span className="text-xs text-gray-500">{reason}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+
+              {data.failedJobs.length > 0 && (
+                <details className="mt-6 bg-white rounded-xl border border-gray-100 p-4">
+                  <summary className="cursor-pointer text-sm font-medium text-gray-600 flex items-center gap-2">
+                    <AlertCircle className="w-4 h-4 text-red-500" />
+                    {data.failedJobs.length} jobs could not be scored
+                  </summary>
+                  <ul className="mt-3 divide-y divide-gray-100 text-sm">
+                    {data.failedJobs.map(({ job, reason }) => (
+                      <li key={job.jobId} className="py-2 flex flex-col md:flex-row md:justify-between gap-1">
+                        <a href={job.jobUrl} target="_blank" rel="noreferrer" className="text-gray-800 hover:text-blue-600">
+                          {job.jobTitle} <span className="text-gray-400">at {job.companyName}</span>
+                        </a>
+                        <span className="text-xs text-red-600">{reason}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
             </div>
           </div>
         )}
       </div>
+
+      {coverLetterJob && data && (
+        <CoverLetterEditor
+          job={coverLetterJob}
+          profile={toCandidateProfile(data)}
+          applicationId={applicationFor(coverLetterJob)?.applicationId}
+          onExported={loadApplications}
+          onClose={() => setCoverLetterJob(null)}
+        />
+      )}
+      {showBatch && runId && data && (
+        <BatchCoverLetters runId={runId} jobs={visibleJobs} profile={toCandidateProfile(data)} onClose={() => setShowBatch(false)} />
+      )}
+      {tailoredCvJob && data && (
+        <TailoredCvView
+          job={tailoredCvJob}
+          profile={toCandidateProfile(data)}
+          applicationId={applicationFor(tailoredCvJob)?.applicationId}
+          onExported={loadApplications}
+          onClose={() => setTailoredCvJob(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,88 @@
+import React from 'react';
+import { AlertCircle, ArrowDown, ArrowLeft, ArrowUp } from 'lucide-react';
+import { AnalysisComparison as Comparison, Job } from '../types';
+
+interface AnalysisComparisonProps {
+  comparison: Comparison;
+  onBack: () => void;
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+const JobLine: React.FC<{ job: Job; children?: React.ReactNode }> = ({ job, children }) => (
+  <li className="flex items-center justify-between gap-3 py-1.5 text-sm">
+    <a href={job.applyUrl || job.jobUrl} target="_blank" rel="noreferrer" className="truncate text-gray-800 hover:text-blue-600">
+      {job.jobTitle} <span className="text-gray-400">at {job.companyName}{job.location ? `, ${job.location}` : ''}</span>
+    </a>
+    <span className="shrink-0 flex items-center gap-2">{children}</span>
+  </li>
+);
+
+const Section: React.FC<{ title: string; count: number; empty: string; children: React.ReactNode }> = ({ title, count, empty, children }) => (
+  <div className="bg-white rounded-lg border border-gray-100 p-4 space-y-2">
+    <h4 className="text-sm font-semibold text-gray-900">{title} <span className="text-gray-400 font-normal">({count})</span></h4>
+    {count === 0 ? <p className="text-sm text-gray-500">{empty}</p> : <ul className="divide-y divide-gray-50">{children}</ul>}
+  </div>
+);
+
+// Jobs that appeared, disappeared, went unscored or changed score between two runs of the same search.
+const AnalysisComparison: React.FC<AnalysisComparisonProps> = ({ comparison, onBack }) => {
+  const { base, target, appeared, disappeared, unscored, changed, unchanged, profileChanged } = comparison;
+
+  return (
+    <div className="space-y-4 animate-fade-in">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-2">
+        <button onClick={onBack} className="flex items-center gap-1 text-sm text-gray-600 hover:text-blue-600">
+          <ArrowLeft className="w-4 h-4" /> Back to history
+        </button>
+        <h2 className="text-lg font-semibold text-gray-900">Comparing {formatDate(base.createdAt)} with {formatDate(target.createdAt)}</h2>
+        <p className="text-xs text-gray-500 truncate">{target.inputs.searchUrl}</p>
+        <p className="text-xs text-gray-400">
+          {base.jobCount} &rarr; {target.jobCount} scored jobs &middot; {unchanged} with the same score
+        </p>
+        {profileChanged && (
+          <p className="flex items-center gap-2 text-xs text-amber-700">
+            <AlertCircle className="w-4 h-4" /> The candidate profile changed between these runs, so some score moves come from the profile rather than the postings.
+          </p>
+        )}
+      </div>
+
+      <Section title="New in the later run" count={appeared.length} empty="No new jobs.">
+        {appeared.map(job => (
+          <JobLine key={job.jobId} job={job}><span className="font-semibold text-green-700">{job.score}%</span></JobLine>
+        ))}
+      </Section>
+
+      <Section title="Gone since the earlier run" count={disappeared.length} empty="No jobs disappeared.">
+        {disappeared.map(job => (
+          <JobLine key={job.jobId} job={job}><span className="text-gray-400">{job.score}%</span></JobLine>
+        ))}
+      </Section>
+
+      <Section title="Scored in only one run" count={unscored.length} empty="No job was filtered out or failed in only one of the runs.">
+        {unscored.map(({ job, run, status, reason }) => (
+          <JobLine key={job.jobId} job={job}>
+            <span className="text-xs text-gray-500" title={reason}>
+              {status === 'filtered' ? 'Filtered out' : 'Failed to score'} in the {run === 'base' ? 'earlier' : 'later'} run
+            </span>
+            <span className="text-gray-400">{job.score}%</span>
+          </JobLine>
+        ))}
+      </Section>
+
+      <Section title="Score changes" count={changed.length} empty="No scores moved.">
+        {changed.map(({ job, previousScore, score }) => (
+          <JobLine key={job.jobId} job={job}>
+            <span className="text-gray-400">{previousScore}%</span>
+            {score > previousScore
+              ? <ArrowUp className="w-4 h-4 text-green-600" />
+              : <ArrowDown className="w-4 h-4 text-red-600" />}
+            <span className={`font-semibold ${score > previousScore ? 'text-green-700' : 'text-red-700'}`}>{score}%</span>
+          </JobLine>
+        ))}
+      </Section>
+    </div>
+  );
+};
+
+export default AnalysisComparison;
@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react';
+import { GitCompare, History, Trash2 } from 'lucide-react';
+import { AnalysisComparison as Comparison, AnalysisRecord, AnalysisSummary, JobSourceInfo } from '../types';
+import { requestJson } from '../services/api';
+import AnalysisComparison from './AnalysisComparison';
+
+interface AnalysisHistoryProps {
+  sources: JobSourceInfo[];
+  onOpen: (analysis: AnalysisRecord) => void;
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+const sameSearch = (a: AnalysisSummary, b: AnalysisSummary) =>
+  a.inputs.source === b.inputs.source && a.inputs.searchUrl.trim() === b.inputs.searchUrl.trim();
+
+// Past analyses with the inputs they ran with. Any finished run can be reopened, and two runs of
+// the same search can be compared.
+const AnalysisHistory: React.FC<AnalysisHistoryProps> = ({ sources, onOpen }) => {
+  const [analyses, setAnalyses] = useState<AnalysisSummary[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [error, setError] = useState('');
+
+  const load = () => {
+    requestJson<AnalysisSummary[]>('/analyses').then(setAnalyses).catch(err => setError(err.message));
+  };
+
+  useEffect(load, []);
+
+  const open = async (analysis: AnalysisSummary) => {
+    setError('');
+    try {
+      onOpen(await requestJson<AnalysisRecord>(`/analyses/${analysis.analysisId}`));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const compare = async (baseId: string, targetId: string) => {
+    setError('');
+    try {
+      setComparison(await requestJson<Comparison>(`/analyses/compare?base=${baseId}&target=${targetId}`));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const remove = async (analysis: AnalysisSummary) => {
+    if (!confirm(`Delete the analysis from ${formatDate(analysis.createdAt)}?`)) return;
+    try {
+      await requestJson(`/analyses/${analysis.analysisId}`, { method: 'DELETE' });
+      setSelected(selected.filter(id => id !== analysis.analysisId));
+      load();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  // Keeps at most two runs selected; picking a third drops the oldest pick
+  const toggle = (analysisId: string) =>
+    setSelected(selected.includes(analysisId) ? selected.filter(id => id !== analysisId) : [...selected, analysisId].slice(-2));
+
+  // The list is newest first, so the previous run of a search is the next matching entry
+  const previousRun = (index: number) =>
+    analyses.slice(index + 1).find(a => a.status === 'done' && sameSearch(a, analyses[index]));
+
+  const sourceLabel = (id: string) => sources.find(s => s.id === id)?.label || id;
+
+  if (comparison) return <AnalysisComparison comparison={comparison} onBack={() => setComparison(null)} />;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-4 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold flex items-center gap-2"><History className="w-5 h-5 text-blue-500" /> Analysis History</h2>
+        <button
+          onClick={() => compare(selected[0], selected[1])}
+          disabled={selected.length !== 2}
+          className="flex items-center gap-2 px-3 py-1.5 bg-indigo-50 text-indigo-700 rounded-lg text-sm font-medium hover:bg-indigo-100 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <GitCompare className="w-4 h-4" /> Compare Selected
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {analyses.length === 0 ? (
+        <p className="text-sm text-gray-500">No analyses yet. Every run is kept here with its settings and results.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {analyses.map((analysis, index) => {
+            const { inputs } = analysis;
+            const previous = analysis.status === 'done' ? previousRun(index) : undefined;
+            return (
+              <li key={analysis.analysisId} className="flex flex-col md:flex-row md:items-center justify-between gap-3 py-3">
+                <div className="flex items-start gap-3 min-w-0">
+                  <input
+                    type="checkbox"
+                    className="mt-1"
+                    disabled={analysis.status !== 'done'}
+                    checked={selected.includes(analysis.analysisId)}
+                    onChange={() => toggle(analysis.analysisId)}
+                    aria-label="Select for comparison"
+                  />
+                  <div className="min-w-0">
+                    <p className="text-sm font-semibold text-gray-900">
+                      {formatDate(analysis.createdAt)}
+                      {analysis.status === 'done'
+                        ? <span className="ml-2 font-normal text-gray-500">{analysis.jobCount} jobs{analysis.topScore !== undefined && <> &middot; best {analysis.topScore}%</>}</span>
+                        : <span className="ml-2 font-normal text-red-600">failed</span>}
+                    </p>
+                    <p className="text-xs text-gray-500 truncate">{sourceLabel(inputs.source)} &middot; {inputs.searchUrl}</p>
+                    <p className="text-xs text-gray-400">
+                      {inputs.profileName ? `Profile "${inputs.profileName}"` : inputs.cvFileName ? `CV ${inputs.cvFileName}` : 'Uploaded CV'}
+                      {inputs.profileVersion && <> (v{inputs.profileVersion.slice(0, 7)})</>}
+                      {' '}&middot; max {inputs.maxJobs} jobs
+                      {inputs.threshold !== undefined && <> &middot; threshold {inputs.threshold}</>}
+                      {inputs.actor && <> &middot; {inputs.actor}</>}
+                      {inputs.searchId && <> &middot; saved search</>}
+                    </p>
+                    {analysis.error && <p className="text-xs text-red-600">{analysis.error}</p>}
+                  </div>
+                </div>
+                <div className="flex items-center gap-3 shrink-0">
+                  {analysis.status === 'done' && (
+                    <button onClick={() => open(analysis)} className="text-sm text-blue-600 hover:text-blue-700">Open</button>
+                  )}
+                  {previous && (
+                    <button onClick={() => compare(previous.analysisId, analysis.analysisId)} className="text-sm text-gray-600 hover:text-gray-900">
+                      Compare with previous
+                    </button>
+                  )}
+                  <button onClick={() => remove(analysis)} className="text-red-600 hover:text-red-700" aria-label="Delete"><Trash2 className="w-4 h-4" /></button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisHistory;
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { ApifyCredential } from '../types';
+import { requestJson } from '../services/api';
+
+interface ApifyCredentialsProps {
+  credentials: ApifyCredential[];
+  // Whether the server lets runs fall back to its own APIFY_API_TOKEN
+  serverTokenAvailable: boolean;
+  selectedId: string;
+  onSelect: (credentialId: string) => void;
+  onChange: (credentials: ApifyCredential[]) => void;
+}
+
+const inputClass = "w-full rounded-lg border-gray-300 border p-2.5 text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white text-gray-900";
+
+// Picks the saved Apify credential a run uses. Tokens are stored encrypted on the server and only
+// their last four characters ever come back.
+const ApifyCredentials: React.FC<ApifyCredentialsProps> = ({ credentials, serverTokenAvailable, selectedId, onSelect, onChange }) => {
+  const [adding, setAdding] = useState(false);
+  const [label, setLabel] = useState('');
+  const [token, setToken] = useState('');
+  const [actor, setActor] = useState('curious_coder~linkedin-jobs-scraper');
+  const [error, setError] = useState('');
+
+  const add = async () => {
+    setError('');
+    try {
+      const credential = await requestJson<ApifyCredential>('/credentials', { method: 'POST', json: { label, token, actor } });
+      onChange([...credentials, credential].sort((a, b) => a.label.localeCompare(b.label)));
+      onSelect(credential.credentialId);
+      setAdding(false);
+      setLabel('');
+      setToken('');
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const remove = async (credential: ApifyCredential) => {
+    if (!confirm(`Delete the credential "${credential.label}"? Saved searches that use it will need another one.`)) return;
+    try {
+      await requestJson(`/credentials/${credential.credentialId}`, { method: 'DELETE' });
+      onChange(credentials.filter(c => c.credentialId !== credential.credentialId));
+      if (selectedId === credential.credentialId) onSelect('');
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const selected = credentials.find(c => c.credentialId === selectedId);
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg border border-gray-200 space-y-4 animate-fade-in">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Apify Credential</label>
+        <div className="flex items-center gap-2">
+          <select value={selectedId} onChange={(e) => onSelect(e.target.value)} className={inputClass}>
+            <option value="">{serverTokenAvailable ? 'Server default (.env)' : 'None'}</option>
+            {credentials.map(c => (
+              <option key={c.credentialId} value={c.credentialId}>{c.label} (…{c.tokenHint})</option>
+            ))}
+          </select>
+          {selected && (
+            <button type="button" onClick={() => remove(selected)} className="text-red-600 hover:text-red-700" aria-label="Delete credential">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+        {selected && <p className="text-xs text-gray-400 mt-1">Actor: {selected.actor}</p>}
+        {!selected && !serverTokenAvailable && <p className="text-xs text-gray-400 mt-1">LinkedIn searches need a saved credential.</p>}
+      </div>
+
+      {adding ? (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <input type="text" value={label} onChange={(e) => setLabel(e.target.value)} placeholder="Label, e.g. Team account" className={inputClass} />
+          <input type="password" value={token} onChange={(e) => setToken(e.target.value)} placeholder="Apify API token" className={inputClass} autoComplete="off" />
+          <input type="text" value={actor} onChange={(e) => setActor(e.target.value)} placeholder="curious_coder~linkedin-jobs-scraper" className={inputClass} />
+          <div className="md:col-span-3 flex items-center gap-3">
+            <button type="button" onClick={add} className="px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700">Save credential</button>
+            <button type="button" onClick={() => setAdding(false)} className="text-sm text-gray-600 hover:text-gray-900">Cancel</button>
+          </div>
+        </div>
+      ) : (
+        <button type="button" onClick={() => setAdding(true)} className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700">
+          <Plus className="w-4 h-4" /> Add a credential
+        </button>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default ApifyCredentials;
@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { Bell, ExternalLink, FileText, Trash2 } from 'lucide-react';
+import { ApplicationStatus, ApplicationUpdate, TrackedApplication } from '../types';
+import { requestJson } from '../services/api';
+
+interface ApplicationTrackerProps {
+  applications: TrackedApplication[];
+  onChange: (applications: TrackedApplication[]) => void;
+}
+
+const COLUMNS: { status: ApplicationStatus; label: string; accent: string }[] = [
+  { status: 'saved', label: 'Saved', accent: 'border-gray-300' },
+  { status: 'applied', label: 'Applied', accent: 'border-blue-400' },
+  { status: 'interviewing', label: 'Interviewing', accent: 'border-indigo-400' },
+  { status: 'offer', label: 'Offer', accent: 'border-green-400' },
+  { status: 'rejected', label: 'Rejected', accent: 'border-red-300' },
+  { status: 'withdrawn', label: 'Withdrawn', accent: 'border-gray-200' }
+];
+
+const inputClass = "w-full rounded-lg border-gray-300 border p-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white text-gray-900";
+
+const isDue = (application: TrackedApplication) =>
+  !!application.reminderAt && Date.parse(application.reminderAt) <= Date.now();
+
+// "2026-10-19T09:00:00.000Z" -> value for <input type="date">
+const toDateInput = (iso?: string) => iso ? iso.slice(0, 10) : '';
+
+const ApplicationDetails: React.FC<{
+  application: TrackedApplication;
+  onUpdate: (changes: ApplicationUpdate) => void;
+  onDelete: () => void;
+}> = ({ application, onUpdate, onDelete }) => {
+  const [notes, setNotes] = useState(application.notes);
+  const [reminderNote, setReminderNote] = useState(application.reminderNote || '');
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-100 space-y-3" onClick={(e) => e.stopPropagation()}>
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-1">Notes</label>
+        <textarea
+          value={notes}
+          rows={3}
+          onChange={(e) => setNotes(e.target.value)}
+          onBlur={() => notes !== application.notes && onUpdate({ notes })}
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-1">Follow up on</label>
+        <input
+          type="date"
+          value={toDateInput(application.reminderAt)}
+          onChange={(e) => onUpdate({ reminderAt: e.target.value || null })}
+          className={inputClass}
+        />
+        {application.reminderAt && (
+          <input
+            type="text"
+            value={reminderNote}
+            placeholder="What to follow up about"
+            onChange={(e) => setReminderNote(e.target.value)}
+            onBlur={() => reminderNote !== (application.reminderNote || '') && onUpdate({ reminderNote })}
+            className={`${inputClass} mt-2`}
+          />
+        )}
+      </div>
+      {application.artifacts.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs font-medium text-gray-500">Documents</p>
+          {application.artifacts.map(a => (
+            <a key={a.artifactId} href={a.url} target="_blank" rel="noreferrer" className="flex items-center gap-1 text-xs text-blue-600 hover:underline">
+              <FileText className="w-3 h-3" /> {a.kind === 'cv' ? 'Tailored CV' : 'Cover letter'} &middot; {a.fileName}
+            </a>
+          ))}
+        </div>
+      )}
+      <div className="text-xs text-gray-400 space-y-0.5">
+        {application.history.map((h, i) => (
+          <div key={i}>{COLUMNS.find(c => c.status === h.status)?.label} &middot; {new Date(h.at).toLocaleDateString()}</div>
+        ))}
+      </div>
+      <div className="flex items-center justify-between">
+        <a href={application.job.applyUrl || application.job.jobUrl} target="_blank" rel="noreferrer" className="flex items-center gap-1 text-xs text-gray-600 hover:text-blue-600">
+          Posting <ExternalLink className="w-3 h-3" />
+        </a>
+        <button onClick={onDelete} className="flex items-center gap-1 text-xs text-red-600 hover:text-red-700">
+          <Trash2 className="w-3 h-3" /> Remove
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Kanban board of tracked applications. Cards can be dragged between columns or moved with the select.
+const ApplicationTracker: React.FC<ApplicationTrackerProps> = ({ applications, onChange }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const update = async (applicationId: string, changes: ApplicationUpdate) => {
+    setError('');
+    try {
+      const updated = await requestJson<TrackedApplication>(`/applications/${applicationId}`, { method: 'PATCH', json: changes });
+      onChange(applications.map(a => a.applicationId === applicationId ? updated : a));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const remove = async (applicationId: string) => {
+    setError('');
+    try {
+      await requestJson(`/applications/${applicationId}`, { method: 'DELETE' });
+      onChange(applications.filter(a => a.applicationId !== applicationId));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const due = applications.filter(isDue);
+
+  return (
+    <div className="space-y-4 animate-fade-in">
+      {due.length > 0 && (
+        <div className="flex items-start gap-3 p-4 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+          <Bell className="w-5 h-5 shrink-0" />
+          <div>
+            <p className="font-medium">Follow-ups due</p>
+            {due.map(a => (
+              <p key={a.applicationId}>
+                {a.job.jobTitle} at {a.job.companyName}{a.reminderNote && <> &middot; {a.reminderNote}</>}
+              </p>
+            ))}
+          </div>
+        </div>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {applications.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-xl border border-dashed border-gray-300">
+          <p className="text-gray-500">No tracked applications yet. Use "Track" on a matched job to add it here.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-6 gap-4">
+          {COLUMNS.map(column => {
+            const cards = applications.filter(a => a.status === column.status);
+            return (
+              <div
+                key={column.status}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={(e) => {
+                  const applicationId = e.dataTransfer.getData('text/plain');
+                  const application = applications.find(a => a.applicationId === applicationId);
+                  if (application && application.status !== column.status) update(applicationId, { status: column.status });
+                }}
+                className={`bg-gray-100/70 rounded-xl p-3 border-t-4 ${column.accent} min-h-[200px]`}
+              >
+                <h4 className="text-sm font-semibold text-gray-700 mb-3">
+                  {column.label} <span className="text-gray-400 font-normal">({cards.length})</span>
+                </h4>
+                <div className="space-y-3">
+                  {cards.map(application => (
+                    <div
+                      key={application.applicationId}
+                      draggable
+                      onDragStart={(e) => e.dataTransfer.setData('text/plain', application.applicationId)}
+                      onClick={() => setExpandedId(expandedId === application.applicationId ? null : application.applicationId)}
+                      className="bg-white rounded-lg shadow-sm border border-gray-100 p-3 cursor-pointer hover:shadow-md transition-shadow"
+                    >
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="min-w-0">
+                          <p className="text-sm font-semibold text-gray-900 truncate">{application.job.jobTitle}</p>
+                          <p className="text-xs text-gray-500 truncate">{application.job.companyName}</p>
+                        </div>
+                        {application.job.score !== undefined && (
+                          <span className="text-xs font-bold text-gray-600 bg-gray-100 rounded-full px-2 py-0.5">{application.job.score}</span>
+                        )}
+                      </div>
+                      {application.reminderAt && (
+                        <p className={`mt-2 flex items-center gap-1 text-xs ${isDue(application) ? 'text-amber-700' : 'text-gray-400'}`}>
+                          <Bell className="w-3 h-3" /> {new Date(application.reminderAt).toLocaleDateString()}
+                        </p>
+                      )}
+                      <select
+                        value={application.status}
+                        onClick={(e) => e.stopPropagation()}
+                        onChange={(e) => update(application.applicationId, { status: e.target.value as ApplicationStatus })}
+                        className="mt-2 w-full rounded border-gray-200 border p-1 text-xs bg-white text-gray-700"
+                      >
+                        {COLUMNS.map(c => <option key={c.status} value={c.status}>{c.label}</option>)}
+                      </select>
+                      {expandedId === application.applicationId && (
+                        <ApplicationDetails
+                          application={application}
+                          onUpdate={(changes) => update(application.applicationId, changes)}
+                          onDelete={() => remove(application.applicationId)}
+                        />
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ApplicationTracker;
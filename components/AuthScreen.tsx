@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { Briefcase, Loader2 } from 'lucide-react';
+import { User } from '../types';
+import { requestJson } from '../services/api';
+
+interface AuthScreenProps {
+  onSignedIn: (user: User) => void;
+}
+
+const inputClass = "w-full rounded-lg border-gray-300 border p-2.5 text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white text-gray-900";
+
+// Sign-in and account creation, shown until the server recognises the session cookie.
+const AuthScreen: React.FC<AuthScreenProps> = ({ onSignedIn }) => {
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError('');
+    try {
+      onSignedIn(await requestJson<User>(`/auth/${mode}`, { method: 'POST', json: { name, email, password } }));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <form onSubmit={submit} className="w-full max-w-sm bg-white rounded-xl shadow-sm border border-gray-100 p-8 space-y-4">
+        <div className="flex items-center gap-3 mb-2">
+          <div className="p-2 bg-blue-600 rounded-lg shadow-lg">
+            <Briefcase className="w-6 h-6 text-white" />
+          </div>
+          <h1 className="text-xl font-bold text-gray-900">{mode === 'login' ? 'Sign in to JobScout' : 'Create an account'}</h1>
+        </div>
+
+        {mode === 'register' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClass} autoComplete="name" />
+          </div>
+        )}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+          <input type="email" required value={email} onChange={(e) => setEmail(e.target.value)} className={inputClass} autoComplete="email" />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Password</label>
+          <input
+            type="password"
+            required
+            minLength={mode === 'register' ? 8 : undefined}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className={inputClass}
+            autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+          />
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={submitting}
+          className="w-full flex items-center justify-center gap-2 px-4 py-2.5 rounded-lg font-semibold text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400"
+        >
+          {submitting && <Loader2 className="w-4 h-4 animate-spin" />}
+          {mode === 'login' ? 'Sign in' : 'Create account'}
+        </button>
+        <p className="text-sm text-center text-gray-500">
+          {mode === 'login' ? "No account yet? " : "Already have an account? "}
+          <button type="button" onClick={() => { setMode(mode === 'login' ? 'register' : 'login'); setError(''); }} className="text-blue-600 hover:underline">
+            {mode === 'login' ? 'Create one' : 'Sign in'}
+          </button>
+        </p>
+      </form>
+    </div>
+  );
+};
+
+export default AuthScreen;
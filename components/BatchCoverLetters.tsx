@@ -0,0 +1,180 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertCircle, CheckCircle, Download, Loader2, Package, X } from 'lucide-react';
+import { BatchEvent, CandidateProfile, CoverLetterBatch, CoverLetterBatchItem, CoverLetterTemplates, CoverLetterTone, ExportFormat, ExportOptions, ExportThemeId, Job } from '../types';
+import { API_BASE_URL, requestJson } from '../services/api';
+
+interface BatchCoverLettersProps {
+  runId: string;
+  // Candidates for the batch, best match first
+  jobs: Job[];
+  profile: CandidateProfile;
+  onClose: () => void;
+}
+
+const selectClass = "w-full rounded-lg border-gray-300 border p-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white text-gray-900";
+
+const STATUS_LABELS: Record<CoverLetterBatchItem['status'], string> = {
+  pending: 'Waiting',
+  drafting: 'Drafting...',
+  rendering: 'Rendering...',
+  done: 'Done',
+  failed: 'Failed'
+};
+
+// Modal that generates cover letters for the top N matches and offers them as one zip.
+const BatchCoverLetters: React.FC<BatchCoverLettersProps> = ({ runId, jobs, profile, onClose }) => {
+  const [count, setCount] = useState(Math.min(10, jobs.length));
+  const [templates, setTemplates] = useState<CoverLetterTemplates | null>(null);
+  const [exportOptions, setExportOptions] = useState<ExportOptions | null>(null);
+  const [tone, setTone] = useState<CoverLetterTone>('professional');
+  const [format, setFormat] = useState<ExportFormat>('pdf');
+  const [theme, setTheme] = useState<ExportThemeId>('classic');
+  const [batch, setBatch] = useState<CoverLetterBatch | null>(null);
+  const [error, setError] = useState('');
+  const eventSourceRef = useRef<EventSource | null>(null);
+
+  useEffect(() => {
+    requestJson<CoverLetterTemplates>('/cover-letters/templates').then(setTemplates).catch(err => setError(err.message));
+    requestJson<ExportOptions>('/cover-letters/export-options').then(setExportOptions).catch(err => setError(err.message));
+    return () => eventSourceRef.current?.close();
+  }, []);
+
+  const follow = (batchId: string) => {
+    const source = new EventSource(`${API_BASE_URL}/cover-letters/batch/${batchId}/events`, { withCredentials: true });
+    eventSourceRef.current = source;
+
+    const handleEvent = (message: MessageEvent) => {
+      const event: BatchEvent = JSON.parse(message.data);
+      switch (event.type) {
+        case 'snapshot':
+        case 'done':
+          setBatch(event.batch);
+          break;
+        case 'item':
+          setBatch(prev => prev && {
+            ...prev,
+            items: prev.items.map(item => item.jobId === event.item.jobId ? event.item : item)
+          });
+          break;
+        case 'failed':
+          setError(event.error);
+          setBatch(prev => prev && { ...prev, status: 'failed' });
+          break;
+      }
+      if (event.type === 'done' || event.type === 'failed') source.close();
+    };
+
+    ['snapshot', 'item', 'done', 'failed'].forEach(type => source.addEventListener(type, handleEvent as EventListener));
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) setError("Lost connection to the server while generating letters.");
+    };
+  };
+
+  const start = async () => {
+    setError('');
+    try {
+      const { batchId } = await requestJson<{ batchId: string }>('/cover-letters/batch', {
+        method: 'POST',
+        json: { runId, jobIds: jobs.slice(0, count).map(j => j.jobId), profile, options: { tone }, format, theme }
+      });
+      follow(batchId);
+    } catch (err: any) {
+      setError(err.message || "Failed to start the batch.");
+    }
+  };
+
+  const running = batch?.status === 'running';
+  const finished = batch ? batch.items.filter(i => i.status === 'done' || i.status === 'failed').length : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 space-y-5" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Cover Letters for Top Matches</h3>
+            <p className="text-sm text-gray-500">Letters are bundled into a zip with an index of every job.</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close"><X className="w-5 h-5" /></button>
+        </div>
+
+        {!batch && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-500 mb-1">Top matches</label>
+              <input
+                type="number"
+                min={1}
+                max={jobs.length}
+                value={count}
+                onChange={(e) => setCount(Math.max(1, Math.min(jobs.length, Number(e.target.value) || 1)))}
+                className={selectClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-500 mb-1">Tone</label>
+              <select value={tone} onChange={(e) => setTone(e.target.value as CoverLetterTone)} className={selectClass}>
+                {templates?.tones.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-500 mb-1">Format</label>
+              <select value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)} className={selectClass}>
+                {exportOptions?.formats.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-500 mb-1">Theme</label>
+              <select value={theme} onChange={(e) => setTheme(e.target.value as ExportThemeId)} className={selectClass}>
+                {exportOptions?.themes.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+              </select>
+            </div>
+          </div>
+        )}
+
+        {batch && (
+          <div className="space-y-2">
+            <p className="text-sm text-gray-600">{finished} of {batch.items.length} letters finished</p>
+            <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+              {batch.items.map(item => (
+                <li key={item.jobId} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                  <span className="truncate text-gray-800">{item.jobTitle} <span className="text-gray-400">at {item.companyName}</span></span>
+                  <span className={`flex items-center gap-1 shrink-0 ${item.status === 'failed' ? 'text-red-600' : item.status === 'done' ? 'text-green-600' : 'text-gray-500'}`} title={item.error}>
+                    {item.status === 'done' && <CheckCircle className="w-4 h-4" />}
+                    {item.status === 'failed' && <AlertCircle className="w-4 h-4" />}
+                    {(item.status === 'drafting' || item.status === 'rendering') && <Loader2 className="w-4 h-4 animate-spin" />}
+                    {STATUS_LABELS[item.status]}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end">
+          {batch?.zipUrl ? (
+            <a
+              href={batch.zipUrl}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700"
+            >
+              <Download className="w-4 h-4" />
+              Download Zip
+            </a>
+          ) : (
+            <button
+              onClick={start}
+              disabled={!!batch || jobs.length === 0}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-60"
+            >
+              {running ? <Loader2 className="w-4 h-4 animate-spin" /> : <Package className="w-4 h-4" />}
+              Generate {count} Letter{count === 1 ? '' : 's'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchCoverLetters;
@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { FileText, Mail, MapPin, Phone, Linkedin, Globe, Pencil, Save, Loader2 } from 'lucide-react';
+import { CandidateProfile } from '../types';
+import ProfileEditor from './ProfileEditor';
+
+const SectionTitle: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <h4 className="text-sm font-medium text-gray-500 uppercase tracking-wider mb-2">{children}</h4>
+);
+
+interface CandidateProfileCardProps {
+  profile: CandidateProfile;
+  // Name of the saved profile this result was produced from, if any
+  savedName?: string;
+  onProfileChange: (profile: CandidateProfile) => void;
+  // Saves under `name`: updates the saved profile when the name is unchanged, otherwise creates one
+  onSaveProfile: (name: string) => Promise<void>;
+}
+
+const CandidateProfileCard: React.FC<CandidateProfileCardProps> = ({ profile, savedName, onProfileChange, onSaveProfile }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [profileName, setProfileName] = useState(savedName || '');
+  const [isSaving, setIsSaving] = useState(false);
+  const { contact } = profile;
+
+  const save = async () => {
+    if (!profileName.trim()) return;
+    setIsSaving(true);
+    try {
+      await onSaveProfile(profileName.trim());
+    } finally {
+      setIsSaving(false);
+    }
+  };
+  const contactItems = [
+    { icon: Mail, value: contact.email },
+    { icon: Phone, value: contact.phone },
+    { icon: MapPin, value: contact.location },
+    { icon: Linkedin, value: contact.linkedin },
+    { icon: Globe, value: contact.website }
+  ].filter(item => item.value);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <FileText className="w-5 h-5 text-indigo-500" />
+          CV Analysis
+          {savedName && <span className="text-sm font-normal text-gray-400">({savedName})</span>}
+        </h3>
+        {!isEditing && (
+          <button onClick={() => setIsEditing(true)} className="flex items-center gap-1 text-sm font-medium text-gray-600 hover:text-blue-600">
+            <Pencil className="w-4 h-4" /> Edit
+          </button>
+        )}
+      </div>
+
+      {isEditing ? (
+        <ProfileEditor
+          profile={profile}
+          onApply={(updated) => { onProfileChange(updated); setIsEditing(false); }}
+          onCancel={() => setIsEditing(false)}
+        />
+      ) : (
+      <>
+
+      {(contact.name || contactItems.length > 0) && (
+        <div className="mb-6 pb-4 border-b border-gray-100">
+          <p className="text-lg font-semibold text-gray-900">
+            {contact.name}
+            <span className="ml-3 px-2 py-0.5 text-xs font-medium text-indigo-700 bg-indigo-50 rounded-full capitalize">
+              {profile.seniority} &middot; {profile.totalYearsExperience} yrs
+            </span>
+          </p>
+          <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1 text-sm text-gray-500">
+            {contactItems.map(({ icon: Icon, value }) => (
+              <span key={value} className="flex items-center gap-1"><Icon className="w-3.5 h-3.5" /> {value}</span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="grid md:grid-cols-3 gap-6">
+        <div className="md:col-span-2 space-y-4">
+          <div>
+            <SectionTitle>Profile Summary</SectionTitle>
+            <p className="text-gray-700 leading-relaxed">{profile.profileSummary}</p>
+          </div>
+          <div>
+            <SectionTitle>Highlights</SectionTitle>
+            <ul className="list-disc list-inside space-y-1 text-gray-700">
+              {profile.experienceHighlights.map((h, i) => (
+                <li key={i}>{h}</li>
+              ))}
+            </ul>
+          </div>
+          {profile.workHistory.length > 0 && (
+            <details>
+              <summary className="cursor-pointer text-sm font-medium text-gray-500 uppercase tracking-wider">
+                Work History ({profile.workHistory.length})
+              </summary>
+              <ul className="mt-3 space-y-3">
+                {profile.workHistory.map((w, i) => (
+                  <li key={i}>
+                    <p className="text-sm font-semibold text-gray-800">{w.title} <span className="font-normal text-gray-500">at {w.employer}</span></p>
+                    <p className="text-xs text-gray-400">
+                      {[w.startDate, w.current ? 'Present' : w.endDate].filter(Boolean).join(' – ')}{w.location && ` · ${w.location}`}
+                    </p>
+                    <ul className="list-disc list-inside text-sm text-gray-600 mt-1">
+                      {w.bullets.map((b, j) => <li key={j}>{b}</li>)}
+                    </ul>
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+        </div>
+        <div className="space-y-4">
+          <div className="bg-indigo-50 rounded-lg p-5">
+            <h4 className="text-sm font-medium text-indigo-800 uppercase tracking-wider mb-3">Detected Skills</h4>
+            <div className="flex flex-wrap gap-2">
+              {profile.skills.map((skill, i) => (
+                <span key={i} className="px-3 py-1 bg-white text-indigo-600 text-xs font-medium rounded-full border border-indigo-100 shadow-sm">
+                  {skill}
+                </span>
+              ))}
+            </div>
+          </div>
+          {profile.education.length > 0 && (
+            <div>
+              <SectionTitle>Education</SectionTitle>
+              <ul className="text-sm text-gray-700 space-y-1">
+                {profile.education.map((e, i) => (
+                  <li key={i}>{[e.degree, e.field].filter(Boolean).join(', ')}{e.degree || e.field ? ' — ' : ''}{e.institution}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {profile.certifications.length > 0 && (
+            <div>
+              <SectionTitle>Certifications</SectionTitle>
+              <ul className="text-sm text-gray-700 space-y-1">
+                {profile.certifications.map((c, i) => <li key={i}>{c.name}{c.issuer && ` (${c.issuer})`}</li>)}
+              </ul>
+            </div>
+          )}
+          {profile.languages.length > 0 && (
+            <div>
+              <SectionTitle>Languages</SectionTitle>
+              <p className="text-sm text-gray-700">
+                {profile.languages.map(l => l.proficiency ? `${l.language} (${l.proficiency})` : l.language).join(', ')}
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+      </>
+      )}
+
+      <div className="mt-6 pt-4 border-t border-gray-100 flex flex-col md:flex-row md:items-center gap-3">
+        <input
+          type="text"
+          value={profileName}
+          onChange={(e) => setProfileName(e.target.value)}
+          placeholder='Profile name, e.g. "Backend profile"'
+          className="flex-grow rounded-lg border-gray-300 border p-2.5 text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white text-gray-900"
+        />
+        <button
+          onClick={save}
+          disabled={isSaving || !profileName.trim()}
+          className="flex items-center justify-center gap-2 px-4 py-2.5 rounded-lg text-sm font-medium text-indigo-700 bg-indigo-50 hover:bg-indigo-100 disabled:opacity-60"
+        >
+          {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          {savedName && profileName.trim() === savedName ? 'Update Saved Profile' : 'Save Profile'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CandidateProfileCard;
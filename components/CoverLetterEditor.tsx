@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { Download, Loader2, Sparkles, X } from 'lucide-react';
+import { CandidateProfile, CoverLetterOptions, CoverLetterTemplates, ExportFormat, ExportOptions, ExportThemeId, Job } from '../types';
+import { requestJson } from '../services/api';
+
+interface CoverLetterEditorProps {
+  job: Job;
+  profile: CandidateProfile;
+  // When the job is tracked, exported files are linked to its application
+  applicationId?: string;
+  onExported?: () => void;
+  onClose: () => void;
+}
+
+const selectClass = "w-full rounded-lg border-gray-300 border p-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white text-gray-900";
+
+// Modal for drafting a cover letter, editing it by hand and exporting the final text.
+const CoverLetterEditor: React.FC<CoverLetterEditorProps> = ({ job, profile, applicationId, onExported, onClose }) => {
+  const [templates, setTemplates] = useState<CoverLetterTemplates | null>(null);
+  const [options, setOptions] = useState<CoverLetterOptions>({ tone: 'professional', length: 'medium', structure: 'classic', language: 'English' });
+  const [exportOptions, setExportOptions] = useState<ExportOptions | null>(null);
+  const [format, setFormat] = useState<ExportFormat>('pdf');
+  const [theme, setTheme] = useState<ExportThemeId>('classic');
+  const [text, setText] = useState('');
+  const [status, setStatus] = useState<'idle' | 'drafting' | 'rendering'>('idle');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    requestJson<CoverLetterTemplates>('/cover-letters/templates')
+      .then(setTemplates)
+      .catch(err => setError(err.message));
+    requestJson<ExportOptions>('/cover-letters/export-options')
+      .then(setExportOptions)
+      .catch(err => setError(err.message));
+  }, []);
+
+  const generateDraft = async () => {
+    setStatus('drafting');
+    setError('');
+    try {
+      const result = await requestJson<{ text: string }>('/cover-letters/draft', {
+        method: 'POST',
+        json: { job, profile, options }
+      });
+      setText(result.text);
+    } catch (err: any) {
+      setError(err.message || "Failed to generate the draft.");
+    } finally {
+      setStatus('idle');
+    }
+  };
+
+  const exportLetter = async () => {
+    setStatus('rendering');
+    setError('');
+    try {
+      const result = await requestJson<{ coverLetterUrl: string }>('/cover-letters/render', {
+        method: 'POST',
+        json: { job, contact: profile.contact, text, format, theme, applicationId }
+      });
+      window.open(result.coverLetterUrl, '_blank');
+      onExported?.();
+    } catch (err: any) {
+      setError(err.message || "Failed to export the cover letter.");
+    } finally {
+      setStatus('idle');
+    }
+  };
+
+  const update = (field: keyof CoverLetterOptions) => (e: React.ChangeEvent<HTMLSelectElement>) =>
+    setOptions({ ...options, [field]: e.target.value });
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto p-6 space-y-5" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Cover Letter</h3>
+            <p className="text-sm text-gray-500">{job.jobTitle} at {job.companyName}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Tone</label>
+            <select value={options.tone} onChange={update('tone')} className={selectClass}>
+              {templates?.tones.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Length</label>
+            <select value={options.length} onChange={update('length')} className={selectClass}>
+              {templates?.lengths.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Structure</label>
+            <select value={options.structure} onChange={update('structure')} className={selectClass}>
+              {templates?.structures.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Language</label>
+            <select value={options.language} onChange={update('language')} className={selectClass}>
+              {templates?.languages.map(l => <option key={l} value={l}>{l}</option>)}
+            </select>
+          </div>
+        </div>
+
+        <button
+          onClick={generateDraft}
+          disabled={status !== 'idle' || !templates}
+          className="flex items-center gap-2 px-4 py-2 bg-indigo-50 text-indigo-700 rounded-lg text-sm font-medium hover:bg-indigo-100 disabled:opacity-60"
+        >
+          {status === 'drafting' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+          {text ? 'Regenerate Draft' : 'Generate Draft'}
+        </button>
+
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={16}
+          placeholder="Generate a draft, then edit it here before exporting."
+          className="w-full rounded-lg border-gray-300 border p-3 text-sm leading-relaxed focus:ring-2 focus:ring-blue-500 outline-none bg-white text-gray-900 font-serif"
+        />
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex flex-wrap items-end justify-end gap-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Format</label>
+            <select value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)} className={selectClass}>
+              {exportOptions?.formats.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Theme</label>
+            <select
+              value={theme}
+              onChange={(e) => setTheme(e.target.value as ExportThemeId)}
+              disabled={format === 'md' || format === 'txt'}
+              className={`${selectClass} disabled:opacity-60`}
+            >
+              {exportOptions?.themes.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+            </select>
+          </div>
+          <button
+            onClick={exportLetter}
+            disabled={status !== 'idle' || !text.trim()}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-60"
+          >
+            {status === 'rendering' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CoverLetterEditor;
@@ -0,0 +1,181 @@
+import React from 'react';
+import { AlertTriangle, BookmarkCheck, BookmarkPlus, ExternalLink, FileText, FileBadge } from 'lucide-react';
+import { Job, MatchBreakdown } from '../types';
+
+const DIMENSIONS: { key: keyof MatchBreakdown; label: string }[] = [
+  { key: 'skills', label: 'Skills' },
+  { key: 'seniority', label: 'Seniority' },
+  { key: 'domain', label: 'Domain' },
+  { key: 'location', label: 'Location / Remote' }
+];
+
+const scoreColor = (score: number) =>
+  score >= 80 ? 'bg-green-500' : score >= 60 ? 'bg-yellow-500' : 'bg-red-500';
+
+const MatchBreakdownView: React.FC<{ job: Job }> = ({ job }) => (
+  <div className="space-y-3">
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+      {DIMENSIONS.map(({ key, label }) => {
+        const value = job.breakdown?.[key] ?? 0;
+        return (
+          <div key={key}>
+            <div className="flex justify-between text-xs text-gray-500 mb-1">
+              <span>{label}</span>
+              <span className="font-medium text-gray-700">{value}</span>
+            </div>
+            <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+              <div className={`h-full ${scoreColor(value)}`} style={{ width: `${value}%` }} />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+
+    {(job.matchedSkills?.length || job.missingSkills?.length) ? (
+      <div className="flex flex-wrap gap-1.5">
+        {job.matchedSkills?.map(skill => (
+          <span key={`m-${skill}`} className="px-2 py-0.5 text-xs rounded-full bg-green-50 text-green-700 border border-green-100">{skill}</span>
+        ))}
+        {job.missingSkills?.map(skill => (
+          <span key={`x-${skill}`} title="Required by the job, not found in your CV" className="px-2 py-0.5 text-xs rounded-full bg-red-50 text-red-700 border border-red-200 font-medium">
+            Missing: {skill}
+          </span>
+        ))}
+      </div>
+    ) : null}
+
+    {job.dealbreakers && job.dealbreakers.length > 0 && (
+      <div className="p-3 rounded-lg bg-red-50 border border-red-100 text-sm text-red-700 space-y-1">
+        {job.dealbreakers.map((d, i) => (
+          <p key={i} className="flex items-start gap-2">
+            <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" /> {d}
+          </p>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+interface JobCardProps {
+  job: Job;
+  // Left out when there is no candidate profile to write from
+  onOpenCoverLetter?: (job: Job) => void;
+  onOpenTailoredCv?: (job: Job) => void;
+  // Whether the job is already in the application tracker
+  tracked: boolean;
+  onTrack: (job: Job) => void;
+}
+
+const JobCard: React.FC<JobCardProps> = ({ job, onOpenCoverLetter, onOpenTailoredCv, tracked, onTrack }) => (
+  <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden hover:shadow-md transition-shadow">
+    <div className="p-6">
+      <div className="flex flex-col md:flex-row gap-6">
+        
+        {/* Left: Score & Logo */}
+        <div className="flex-shrink-0 flex flex-row md:flex-col items-center gap-4 md:w-24">
+          {job.companyLogo ? (
+            <img src={job.companyLogo} alt={job.companyName} className="w-16 h-16 object-contain rounded-md bg-white border border-gray-100" />
+          ) : (
+            <div className="w-16 h-16 bg-gray-100 rounded-md flex items-center justify-center text-gray-400 text-xl font-bold">
+              {job.companyName.charAt(0)}
+            </div>
+          )}
+          <div className={`
+            flex items-center justify-center w-12 h-12 rounded-full font-bold text-sm border-4
+            ${(job.score || 0) >= 80 ? 'border-green-100 text-green-700 bg-green-50' : 
+              (job.score || 0) >= 60 ? 'border-yellow-100 text-yellow-700 bg-yellow-50' : 'border-red-100 text-red-700 bg-red-50'}
+          `}>
+            {job.score}
+          </div>
+        </div>
+
+        {/* Middle: Content */}
+        <div className="flex-grow space-y-3">
+          <div>
+            <h4 className="text-lg font-bold text-gray-900 hover:text-blue-600 flex items-center gap-2">
+              <a href={job.jobUrl} target="_blank" rel="noreferrer">{job.jobTitle}</a>
+              {job.isNew && (
+                <span className="px-2 py-0.5 text-xs font-semibold text-green-700 bg-green-50 border border-green-100 rounded-full">New</span>
+              )}
+            </h4>
+            <p className="text-sm font-medium text-gray-600">{job.companyName}</p>
+          </div>
+          
+          {job.suspiciousContent && job.suspiciousContent.length > 0 && (
+            <div className="p-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800">
+              <p className="flex items-start gap-2 font-medium">
+                <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                This posting seems to contain instructions aimed at AI screeners. Treat its score with caution.
+              </p>
+              <p className="text-xs mt-1 ml-6">{job.suspiciousContent.join(' · ')}</p>
+            </div>
+          )}
+
+          <div className="bg-blue-50/50 p-4 rounded-lg border border-blue-100">
+            <p className="text-sm text-gray-800 leading-relaxed">
+              <span className="font-semibold text-blue-800">AI Verdict: </span>
+              {job.verdict}
+            </p>
+          </div>
+
+          {job.breakdown && <MatchBreakdownView job={job} />}
+          
+          <div className="flex items-center gap-4 text-xs text-gray-400 pt-2">
+            <span>Scraped: {job.scrapedAt}</span>
+            {job.jobId && <span>ID: {job.jobId}</span>}
+          </div>
+        </div>
+
+        {/* Right: Actions */}
+        <div className="flex flex-col gap-3 justify-center min-w-[180px]">
+           <a 
+             href={job.jobUrl} 
+             target="_blank" 
+             rel="noreferrer"
+             className="flex items-center justify-center gap-2 px-4 py-2 bg-white border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+           >
+             View Job <ExternalLink className="w-4 h-4" />
+           </a>
+           {job.applyUrl && (
+             <a 
+               href={job.applyUrl} 
+               target="_blank" 
+               rel="noreferrer"
+               className="flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 border border-transparent rounded-lg text-sm font-medium text-white hover:bg-blue-700 transition-colors"
+             >
+               Apply Now <ExternalLink className="w-4 h-4" />
+             </a>
+           )}
+           <button
+             onClick={() => onTrack(job)}
+             disabled={tracked}
+             className="flex items-center justify-center gap-2 px-4 py-2 bg-white border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-60 disabled:hover:bg-white"
+           >
+             {tracked ? <><BookmarkCheck className="w-4 h-4" /> Tracked</> : <><BookmarkPlus className="w-4 h-4" /> Track</>}
+           </button>
+           {onOpenCoverLetter && onOpenTailoredCv && (
+             <>
+               <div className="h-px bg-gray-100 my-1"></div>
+               <button
+                 onClick={() => onOpenCoverLetter(job)}
+                 className="flex items-center justify-center gap-2 px-4 py-2 bg-indigo-50 text-indigo-700 rounded-lg text-sm font-medium hover:bg-indigo-100 transition-colors"
+               >
+                 <FileText className="w-4 h-4" />
+                 Cover Letter
+               </button>
+               <button
+                 onClick={() => onOpenTailoredCv(job)}
+                 className="flex items-center justify-center gap-2 px-4 py-2 bg-indigo-50 text-indigo-700 rounded-lg text-sm font-medium hover:bg-indigo-100 transition-colors"
+               >
+                 <FileBadge className="w-4 h-4" />
+                 Tailored CV
+               </button>
+             </>
+           )}
+        </div>
+      </div>
+    </div>
+  </div>
+);
+
+export default JobCard;
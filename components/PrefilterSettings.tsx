@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { PrefilterRules } from '../types';
+
+type ListField = 'includeKeywords' | 'excludeKeywords' | 'blockedCompanies' | 'excludeTitlePatterns' | 'languages';
+
+const FIELDS: { field: ListField; label: string; placeholder: string }[] = [
+  { field: 'includeKeywords', label: 'Must mention any of', placeholder: 'typescript, react' },
+  { field: 'excludeKeywords', label: 'Exclude if mentioning', placeholder: 'clearance, unpaid' },
+  { field: 'blockedCompanies', label: 'Blocked companies', placeholder: 'Acme Corp, Initech' },
+  { field: 'excludeTitlePatterns', label: 'Exclude titles matching', placeholder: 'intern, junior, /\\bVP\\b/' },
+  { field: 'languages', label: 'Posting languages', placeholder: 'en, de' }
+];
+
+// Comma-separated list input. Keeps its own text so typing "a, " isn't normalised away mid-edit.
+const ListInput: React.FC<{ value: string[]; placeholder: string; onChange: (value: string[]) => void }> = ({ value, placeholder, onChange }) => {
+  const [text, setText] = useState(value.join(', '));
+  return (
+    <input
+      type="text"
+      value={text}
+      placeholder={placeholder}
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(e.target.value.split(',').map(v => v.trim()).filter(Boolean));
+      }}
+      className="w-full rounded-lg border-gray-300 border p-2.5 text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white text-gray-900"
+    />
+  );
+};
+
+interface PrefilterSettingsProps {
+  rules: PrefilterRules;
+  onChange: (rules: PrefilterRules) => void;
+}
+
+const PrefilterSettings: React.FC<PrefilterSettingsProps> = ({ rules, onChange }) => (
+  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 bg-gray-50 rounded-lg border border-gray-200 animate-fade-in">
+    {FIELDS.map(({ field, label, placeholder }) => (
+      <div key={field}>
+        <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+        <ListInput value={rules[field]} placeholder={placeholder} onChange={(value) => onChange({ ...rules, [field]: value })} />
+      </div>
+    ))}
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">Score only the top K by skill overlap</label>
+      <input
+        type="number"
+        min={0}
+        value={rules.topK || ''}
+        placeholder="All"
+        onChange={(e) => onChange({ ...rules, topK: Number(e.target.value) || undefined })}
+        className="w-full rounded-lg border-gray-300 border p-2.5 text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white text-gray-900"
+      />
+    </div>
+    <p className="md:col-span-2 text-xs text-gray-400">
+      Filtered jobs are never sent to the AI. Separate values with commas; end a word with * to match any ending, e.g. intern*.
+    </p>
+  </div>
+);
+
+export default PrefilterSettings;
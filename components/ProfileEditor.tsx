@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { CandidateProfile } from '../types';
+
+interface ProfileEditorProps {
+  profile: CandidateProfile;
+  onApply: (profile: CandidateProfile) => void;
+  onCancel: () => void;
+}
+
+const inputClass = "w-full rounded-lg border-gray-300 border p-2.5 text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white text-gray-900";
+
+// Edits the parts of a parsed profile the model most often gets wrong: skills, summary and highlights.
+const ProfileEditor: React.FC<ProfileEditorProps> = ({ profile, onApply, onCancel }) => {
+  const [skills, setSkills] = useState<string[]>(profile.skills);
+  const [newSkill, setNewSkill] = useState('');
+  const [summary, setSummary] = useState(profile.profileSummary);
+  const [highlights, setHighlights] = useState<string[]>(profile.experienceHighlights);
+
+  const addSkill = () => {
+    const skill = newSkill.trim();
+    if (skill && !skills.some(s => s.toLowerCase() === skill.toLowerCase())) setSkills([...skills, skill]);
+    setNewSkill('');
+  };
+
+  const updateHighlight = (index: number, value: string) =>
+    setHighlights(highlights.map((h, i) => (i === index ? value : h)));
+
+  const apply = () => onApply({
+    ...profile,
+    skills,
+    profileSummary: summary.trim(),
+    experienceHighlights: highlights.map(h => h.trim()).filter(Boolean)
+  });
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Skills</label>
+        <div className="flex flex-wrap gap-2 mb-2">
+          {skills.map(skill => (
+            <span key={skill} className="flex items-center gap-1 px-3 py-1 bg-indigo-50 text-indigo-700 text-xs font-medium rounded-full border border-indigo-100">
+              {skill}
+              <button type="button" onClick={() => setSkills(skills.filter(s => s !== skill))} className="hover:text-red-600" aria-label={`Remove ${skill}`}>
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newSkill}
+            onChange={(e) => setNewSkill(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); addSkill(); } }}
+            placeholder="Add a skill"
+            className={inputClass}
+          />
+          <button type="button" onClick={addSkill} className="px-3 rounded-lg border border-gray-300 text-gray-600 hover:bg-gray-50">
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Profile Summary</label>
+        <textarea value={summary} onChange={(e) => setSummary(e.target.value)} rows={3} className={inputClass} />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Highlights</label>
+        <div className="space-y-2">
+          {highlights.map((h, i) => (
+            <div key={i} className="flex gap-2">
+              <input type="text" value={h} onChange={(e) => updateHighlight(i, e.target.value)} className={inputClass} />
+              <button type="button" onClick={() => setHighlights(highlights.filter((_, j) => j !== i))} className="px-3 rounded-lg border border-gray-300 text-gray-500 hover:text-red-600" aria-label="Remove highlight">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button type="button" onClick={() => setHighlights([...highlights, ''])} className="text-sm text-blue-600 hover:underline flex items-center gap-1">
+            <Plus className="w-4 h-4" /> Add highlight
+          </button>
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-3">
+        <button type="button" onClick={onCancel} className="px-4 py-2 rounded-lg text-sm font-medium text-gray-600 hover:bg-gray-100">Cancel</button>
+        <button type="button" onClick={apply} className="px-4 py-2 rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700">Apply changes</button>
+      </div>
+    </div>
+  );
+};
+
+export default ProfileEditor;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { CheckCircle, Loader2, Circle } from 'lucide-react';
+import { Job, RunProgress as RunProgressState, RunStage } from '../types';
+
+const STAGES: { stage: RunStage; label: string }[] = [
+  { stage: 'extracting', label: 'Extract CV' },
+  { stage: 'scraping', label: 'Scrape jobs' },
+  { stage: 'scoring', label: 'Score matches' },
+  { stage: 'done', label: 'Done' }
+];
+
+interface RunProgressProps {
+  progress: RunProgressState;
+  partialJobs: Job[];
+}
+
+const RunProgress: React.FC<RunProgressProps> = ({ progress, partialJobs }) => {
+  const currentIndex = STAGES.findIndex(s => s.stage === progress.stage);
+  const percent = progress.total ? Math.round(((progress.scored || 0) / progress.total) * 100) : 0;
+
+  return (
+    <div className="w-full mt-6 space-y-4">
+      <ol className="flex items-center justify-between gap-2">
+        {STAGES.map((s, i) => {
+          const isDone = currentIndex > i || progress.stage === 'done';
+          const isActive = currentIndex === i && progress.stage !== 'done';
+          return (
+            <li key={s.stage} className={`flex items-center gap-2 text-sm ${isDone ? 'text-green-700' : isActive ? 'text-blue-700 font-medium' : 'text-gray-400'}`}>
+              {isDone ? <CheckCircle className="w-4 h-4" /> : isActive ? <Loader2 className="w-4 h-4 animate-spin" /> : <Circle className="w-4 h-4" />}
+              {s.label}
+            </li>
+          );
+        })}
+      </ol>
+
+      <p className="text-sm text-gray-600 text-center">{progress.message}</p>
+
+      {progress.stage === 'scoring' && progress.total ? (
+        <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+          <div className="h-full bg-blue-600 transition-all" style={{ width: `${percent}%` }} />
+        </div>
+      ) : null}
+
+      {partialJobs.length > 0 && (
+        <div className="border border-gray-100 rounded-lg divide-y divide-gray-100">
+          <p className="px-4 py-2 text-xs font-medium text-gray-500 uppercase tracking-wider">Matches so far ({partialJobs.length})</p>
+          {[...partialJobs].sort((a, b) => (b.score || 0) - (a.score || 0)).map(job => (
+            <div key={job.jobId} className="px-4 py-2 flex items-center justify-between text-sm">
+              <span className="text-gray-800 truncate">
+                {job.jobTitle} <span className="text-gray-400">at {job.companyName}</span>
+              </span>
+              <span className="font-semibold text-gray-700 ml-4">{job.score}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RunProgress;
@@ -0,0 +1,280 @@
+import React, { useEffect, useState } from 'react';
+import { Bell, Clock, Loader2, Play, Plus, Trash2 } from 'lucide-react';
+import { ApifyCredential, JobSourceInfo, NotifierConfig, SavedProfile, SavedSearch, SavedSearchInput, SearchDigest } from '../types';
+import { requestJson } from '../services/api';
+
+interface SavedSearchesProps {
+  sources: JobSourceInfo[];
+  profiles: SavedProfile[];
+  credentials: ApifyCredential[];
+  serverTokenAvailable: boolean;
+  // Current settings of the search form, used to pre-fill a new saved search
+  defaults: Omit<SavedSearchInput, 'name' | 'schedule' | 'enabled' | 'notifier'>;
+}
+
+const inputClass = "w-full rounded-lg border-gray-300 border p-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white text-gray-900";
+
+const SCHEDULE_PRESETS = [
+  { label: 'On demand only', value: '' },
+  { label: 'Every morning (08:00)', value: '0 8 * * *' },
+  { label: 'Weekdays at 08:00', value: '0 8 * * 1-5' },
+  { label: 'Every 6 hours', value: '0 */6 * * *' },
+  { label: 'Mondays at 09:00', value: '0 9 * * 1' }
+];
+
+const formatDate = (iso?: string) => iso ? new Date(iso).toLocaleString() : '—';
+
+const SearchForm: React.FC<{
+  initial: SavedSearchInput;
+  sources: JobSourceInfo[];
+  profiles: SavedProfile[];
+  credentials: ApifyCredential[];
+  serverTokenAvailable: boolean;
+  onSave: (input: SavedSearchInput) => Promise<void>;
+  onCancel: () => void;
+}> = ({ initial, sources, profiles, credentials, serverTokenAvailable, onSave, onCancel }) => {
+  const [input, setInput] = useState<SavedSearchInput>(initial);
+  const [saving, setSaving] = useState(false);
+  const set = <K extends keyof SavedSearchInput>(field: K, value: SavedSearchInput[K]) => setInput({ ...input, [field]: value });
+
+  const setNotifierType = (type: NotifierConfig['type']) =>
+    set('notifier', type === 'webhook' ? { type, url: '' } : type === 'email' ? { type, to: '' } : { type: 'none' });
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await onSave(input);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 bg-gray-50 rounded-lg border border-gray-200">
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-1">Name</label>
+        <input type="text" required value={input.name} onChange={(e) => set('name', e.target.value)} className={inputClass} placeholder="Berlin frontend roles" />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-1">Profile</label>
+        <select required value={input.profileId} onChange={(e) => set('profileId', e.target.value)} className={inputClass}>
+          <option value="">Choose a saved profile</option>
+          {profiles.map(p => <option key={p.profileId} value={p.profileId}>{p.name}</option>)}
+        </select>
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-1">Source</label>
+        <select value={input.source} onChange={(e) => set('source', e.target.value as SavedSearchInput['source'])} className={inputClass}>
+          {sources.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+        </select>
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-1">Apify credential</label>
+        <select value={input.credentialId || ''} onChange={(e) => set('credentialId', e.target.value || undefined)} className={inputClass}>
+          <option value="">{serverTokenAvailable ? 'Server default (.env)' : 'None'}</option>
+          {credentials.map(c => <option key={c.credentialId} value={c.credentialId}>{c.label} (…{c.tokenHint})</option>)}
+        </select>
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-1">Search URL</label>
+        <input type="text" required value={input.searchUrl} onChange={(e) => set('searchUrl', e.target.value)} className={inputClass} />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-1">Max jobs</label>
+        <input type="number" min={1} value={input.maxJobs} onChange={(e) => set('maxJobs', Number(e.target.value))} className={inputClass} />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-1">Digest threshold</label>
+        <input type="number" min={0} max={100} value={input.threshold} onChange={(e) => set('threshold', Number(e.target.value))} className={inputClass} />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-1">Schedule (cron)</label>
+        <div className="flex gap-2">
+          <select
+            value={SCHEDULE_PRESETS.some(p => p.value === input.schedule) ? input.schedule : 'custom'}
+            onChange={(e) => e.target.value !== 'custom' && set('schedule', e.target.value)}
+            className={inputClass}
+          >
+            {SCHEDULE_PRESETS.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+            <option value="custom">Custom</option>
+          </select>
+          <input type="text" value={input.schedule} onChange={(e) => set('schedule', e.target.value)} placeholder="0 8 * * *" className={`${inputClass} font-mono`} />
+        </div>
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-1">Send digest to</label>
+        <div className="flex gap-2">
+          <select value={input.notifier.type} onChange={(e) => setNotifierType(e.target.value as NotifierConfig['type'])} className={inputClass}>
+            <option value="none">App only</option>
+            <option value="webhook">Webhook</option>
+            <option value="email">Email</option>
+          </select>
+          {input.notifier.type === 'webhook' && (
+            <input type="url" required value={input.notifier.url} onChange={(e) => set('notifier', { type: 'webhook', url: e.target.value })} placeholder="https://hooks.example.com/..." className={inputClass} />
+          )}
+          {input.notifier.type === 'email' && (
+            <p className="self-center text-xs text-gray-500 whitespace-nowrap">To your account's email address</p>
+          )}
+        </div>
+      </div>
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input type="checkbox" checked={input.enabled} onChange={(e) => set('enabled', e.target.checked)} />
+        Run on schedule
+      </label>
+      <div className="flex justify-end gap-3">
+        <button type="button" onClick={onCancel} className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900">Cancel</button>
+        <button type="submit" disabled={saving} className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-60">
+          {saving && <Loader2 className="w-4 h-4 animate-spin" />} Save Search
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const DigestView: React.FC<{ digest: SearchDigest }> = ({ digest }) => (
+  <div className="bg-white rounded-lg border border-gray-100 p-4 space-y-2">
+    <div className="flex items-center justify-between text-sm">
+      <span className="font-semibold text-gray-900">{digest.searchName}</span>
+      <span className="text-xs text-gray-400">{formatDate(digest.createdAt)}</span>
+    </div>
+    <p className="text-xs text-gray-500">
+      {digest.newMatches.length} new match{digest.newMatches.length === 1 ? '' : 'es'} &ge; {digest.threshold} &middot; {digest.totalScored} scored
+      {digest.delivery && (
+        <> &middot; {digest.delivery.error ? <span className="text-red-600">delivery via {digest.delivery.notifier} failed</span> : <>sent via {digest.delivery.notifier}</>}</>
+      )}
+    </p>
+    {digest.newMatches.length > 0 && (
+      <ul className="divide-y divide-gray-50">
+        {digest.newMatches.map(job => (
+          <li key={job.jobId} className="flex items-center justify-between gap-3 py-1.5 text-sm">
+            <a href={job.applyUrl || job.jobUrl} target="_blank" rel="noreferrer" className="truncate text-gray-800 hover:text-blue-600">
+              {job.jobTitle} <span className="text-gray-400">at {job.companyName}</span>
+            </a>
+            <span className="shrink-0 text-xs font-bold text-gray-600 bg-gray-100 rounded-full px-2 py-0.5">{job.score}</span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+// Saved searches with their schedules, plus the digests of new matches they produced.
+const SavedSearches: React.FC<SavedSearchesProps> = ({ sources, profiles, credentials, serverTokenAvailable, defaults }) => {
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [digests, setDigests] = useState<SearchDigest[]>([]);
+  const [editing, setEditing] = useState<{ searchId?: string; input: SavedSearchInput } | null>(null);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const load = () => {
+    requestJson<SavedSearch[]>('/searches').then(setSearches).catch(err => setError(err.message));
+    requestJson<SearchDigest[]>('/digests').then(setDigests).catch(err => setError(err.message));
+  };
+
+  useEffect(load, []);
+
+  const save = async (input: SavedSearchInput) => {
+    setError('');
+    try {
+      await requestJson(editing?.searchId ? `/searches/${editing.searchId}` : '/searches', {
+        method: editing?.searchId ? 'PUT' : 'POST',
+        json: input
+      });
+      setEditing(null);
+      load();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const runNow = async (search: SavedSearch) => {
+    setError('');
+    try {
+      await requestJson(`/searches/${search.searchId}/run`, { method: 'POST' });
+      setMessage(`"${search.name}" started. Its digest will appear below when the run finishes.`);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const remove = async (search: SavedSearch) => {
+    if (!confirm(`Delete "${search.name}" and its digests?`)) return;
+    try {
+      await requestJson(`/searches/${search.searchId}`, { method: 'DELETE' });
+      load();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const newSearch = () => setEditing({
+    input: { ...defaults, name: '', schedule: '0 8 * * *', enabled: true, notifier: { type: 'none' } }
+  });
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold flex items-center gap-2"><Clock className="w-5 h-5 text-blue-500" /> Saved Searches</h2>
+          {!editing && (
+            <button onClick={newSearch} className="flex items-center gap-2 px-3 py-1.5 bg-indigo-50 text-indigo-700 rounded-lg text-sm font-medium hover:bg-indigo-100">
+              <Plus className="w-4 h-4" /> New Search
+            </button>
+          )}
+        </div>
+
+        {editing && (
+          <SearchForm initial={editing.input} sources={sources} profiles={profiles} credentials={credentials} serverTokenAvailable={serverTokenAvailable} onSave={save} onCancel={() => setEditing(null)} />
+        )}
+        {message && <p className="text-sm text-green-700">{message}</p>}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {searches.length === 0 ? (
+          <p className="text-sm text-gray-500">No saved searches yet. Saved searches re-run with a saved profile and report only new matches.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {searches.map(search => (
+              <li key={search.searchId} className="flex flex-col md:flex-row md:items-center justify-between gap-3 py-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-semibold text-gray-900">{search.name}</p>
+                  <p className="text-xs text-gray-500 truncate">{search.searchUrl}</p>
+                  <p className="text-xs text-gray-400">
+                    {search.schedule && search.enabled ? <>Next run {formatDate(search.nextRunAt)}</> : 'On demand'}
+                    {' '}&middot; Last run {formatDate(search.lastRunAt)}
+                    {search.notifier.type !== 'none' && <> &middot; <Bell className="inline w-3 h-3" /> {search.notifier.type}</>}
+                  </p>
+                  {search.lastError && <p className="text-xs text-red-600">{search.lastError}</p>}
+                </div>
+                <div className="flex items-center gap-3 shrink-0">
+                  <button onClick={() => runNow(search)} className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"><Play className="w-4 h-4" /> Run now</button>
+                  <button
+                    onClick={() => setEditing({ searchId: search.searchId, input: search })}
+                    className="text-sm text-gray-600 hover:text-gray-900"
+                  >
+                    Edit
+                  </button>
+                  <button onClick={() => remove(search)} className="text-red-600 hover:text-red-700" aria-label="Delete"><Trash2 className="w-4 h-4" /></button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">Digests</h3>
+          <button onClick={load} className="text-sm text-blue-600 hover:underline">Refresh</button>
+        </div>
+        {digests.length === 0 ? (
+          <p className="text-sm text-gray-500">No digests yet.</p>
+        ) : (
+          digests.map(digest => <DigestView key={digest.digestId} digest={digest} />)
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SavedSearches;
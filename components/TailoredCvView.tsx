@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { Download, Loader2, Sparkles, X } from 'lucide-react';
+import { CandidateProfile, ExportOptions, ExportThemeId, Job, TailoredCv } from '../types';
+import { requestJson } from '../services/api';
+
+interface TailoredCvViewProps {
+  job: Job;
+  profile: CandidateProfile;
+  // When the job is tracked, exported files are linked to its application
+  applicationId?: string;
+  onExported?: () => void;
+  onClose: () => void;
+}
+
+const DIFF_STYLES = {
+  same: 'text-gray-600',
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-700 line-through'
+};
+const DIFF_MARKERS = { same: ' ', added: '+', removed: '-' };
+
+// Modal that tailors the CV to one job, shows what changed and exports the result as PDF.
+const TailoredCvView: React.FC<TailoredCvViewProps> = ({ job, profile, applicationId, onExported, onClose }) => {
+  const [tailored, setTailored] = useState<TailoredCv | null>(null);
+  const [themes, setThemes] = useState<ExportOptions['themes']>([]);
+  const [theme, setTheme] = useState<ExportThemeId>('classic');
+  const [status, setStatus] = useState<'idle' | 'tailoring' | 'rendering'>('idle');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    requestJson<ExportOptions>('/cover-letters/export-options')
+      .then(options => setThemes(options.themes))
+      .catch(err => setError(err.message));
+  }, []);
+
+  const tailor = async () => {
+    setStatus('tailoring');
+    setError('');
+    try {
+      setTailored(await requestJson<TailoredCv>('/cvs/tailor', { method: 'POST', json: { job, profile } }));
+    } catch (err: any) {
+      setError(err.message || "Failed to tailor the CV.");
+    } finally {
+      setStatus('idle');
+    }
+  };
+
+  const exportPdf = async () => {
+    if (!tailored) return;
+    setStatus('rendering');
+    setError('');
+    try {
+      const result = await requestJson<{ cvUrl: string }>('/cvs/render', {
+        method: 'POST',
+        json: { job, profile: tailored.profile, theme, applicationId }
+      });
+      window.open(result.cvUrl, '_blank');
+      onExported?.();
+    } catch (err: any) {
+      setError(err.message || "Failed to export the CV.");
+    } finally {
+      setStatus('idle');
+    }
+  };
+
+  const changes = tailored ? tailored.diff.filter(line => line.type !== 'same').length : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto p-6 space-y-5" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Tailored CV</h3>
+            <p className="text-sm text-gray-500">{job.jobTitle} at {job.companyName}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close"><X className="w-5 h-5" /></button>
+        </div>
+
+        <button
+          onClick={tailor}
+          disabled={status !== 'idle'}
+          className="flex items-center gap-2 px-4 py-2 bg-indigo-50 text-indigo-700 rounded-lg text-sm font-medium hover:bg-indigo-100 disabled:opacity-60"
+        >
+          {status === 'tailoring' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+          {tailored ? 'Tailor Again' : 'Tailor CV'}
+        </button>
+
+        {tailored && (
+          <>
+            {tailored.emphasisedSkills.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-gray-500">Emphasised:</span>
+                {tailored.emphasisedSkills.map(skill => (
+                  <span key={skill} className="px-2 py-0.5 rounded-full bg-blue-50 text-blue-700 text-xs font-medium">{skill}</span>
+                ))}
+              </div>
+            )}
+            <div>
+              <p className="text-xs text-gray-400 mb-1">
+                {changes} changed line{changes === 1 ? '' : 's'} compared with your original CV
+                {tailored.usage && <> &middot; {tailored.usage.totalTokens.toLocaleString()} tokens &middot; ~${tailored.usage.estimatedCostUsd.toFixed(4)}</>}
+              </p>
+              <pre className="rounded-lg border border-gray-200 p-3 text-xs leading-relaxed whitespace-pre-wrap font-mono max-h-[45vh] overflow-y-auto">
+                {tailored.diff.map((line, i) => (
+                  <div key={i} className={DIFF_STYLES[line.type]}>{DIFF_MARKERS[line.type]} {line.text}</div>
+                ))}
+              </pre>
+            </div>
+          </>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex flex-wrap items-end justify-end gap-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Theme</label>
+            <select
+              value={theme}
+              onChange={(e) => setTheme(e.target.value as ExportThemeId)}
+              className="w-full rounded-lg border-gray-300 border p-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white text-gray-900"
+            >
+              {themes.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+            </select>
+          </div>
+          <button
+            onClick={exportPdf}
+            disabled={status !== 'idle' || !tailored}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-60"
+          >
+            {status === 'rendering' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            Export PDF
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TailoredCvView;
@@ -1,322 +1,809 @@
 import express from 'express';
-import multer from 'multer';
 import cors from 'cors';
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import pdfParse from 'pdf-parse';
-import * as mammoth from 'mammoth';
 import dotenv from 'dotenv';
-import { GoogleGenAI, Type } from "@google/genai";
-import puppeteer from 'puppeteer';
-import { v4 as uuidv4 } from 'uuid';
-import fetch from 'node-fetch';
+import { ProgressReporter, cancelRun, createRun, createReporter, getRun, completeRun, failRun, isFinished, runSignal, subscribe } from './server/runs';
+import { clampMaxJobs, fetchJobs, getJobSource, listJobSources, parseMaxJobs, resolveApifyActor, serverApifyTokenAllowed } from './server/jobSources';
+import { recordJobs } from './server/jobStore';
+import { SCORING_PROMPT_VERSION, profileCache, scoreCache } from './server/scoreCache';
+import { parseCv } from './server/cvParser';
+import { createProfile, deleteProfile, getProfile, listProfiles, updateProfile } from './server/profiles';
+import { COVER_LETTER_TEMPLATES, generateCoverLetterDraft, resolveCoverLetterOptions } from './server/coverLetters';
+import { prefilterJobs, parsePrefilterRules } from './server/prefilter';
+import { EXPORT_FORMATS, EXPORT_THEMES, browserPool, buildLetterDocument, exportLetter, getExportFormat, getTheme, renderCvPdf } from './server/export';
+import { tailorCv } from './server/tailoredCv';
+import { MAX_BATCH_SIZE, getBatch, isBatchFinished, startCoverLetterBatch, subscribeToBatch } from './server/coverLetterBatches';
+import { DownloadError, resolveDownload, saveArtifact, signedDownloadUrl, startArtifactSweeper } from './server/artifacts';
+import { createSearch, deleteSearch, getDigest, getSearch, listDigests, listSearches, updateSearch } from './server/savedSearches';
+import { SearchRunner, isSearchRunning, runSavedSearch, startScheduler } from './server/scheduler';
+import { NOTIFIER_TYPES } from './server/notifiers';
+import { APPLICATION_STATUSES, attachArtifact, createApplication, deleteApplication, dueReminders, findApplicationByJob, getApplication, listApplications, updateApplication, withArtifactUrls } from './server/applications';
+import { CvUpload, UploadError, cvUploadMiddleware, sniffCvFile } from './server/uploads';
+import { extractCvText } from './server/extraction';
+import { compareAnalyses, deleteAnalysis, getAnalysis, listAnalyses, profileVersion, recordAnalysis } from './server/history';
+import { detectPromptInjection } from './server/promptSafety';
+import { createScoringPrompt, requestJobMatch } from './server/scoring';
+import { AuthError, adoptUnownedData, authenticate, createSession, deleteSession, readSessionToken, registerUser, requireAuth, sessionCookie, userForSession } from './server/auth';
+import { createCredential, deleteCredential, getCredential, listCredentials, resolveCredential } from './server/credentials';
+import { UsageMeter, WorkQueue, createLlmProvider } from './server/llm';
+import { AnalysisInputs, AnalysisRun, AnalyzedResponse, BatchEvent, CandidateProfile, CoverLetterOptions, ExportOptions, FailedJob, Job, RunEvent, SavedProfile } from './types';
 
 dotenv.config();
 
 // --- Configuration ---
-const PORT = 3000;
-const PDF_TTL_SECONDS = parseInt(process.env.PDF_TTL_SECONDS || '3600');
+const PORT = parseInt(process.env.PORT || '3000');
+// Origin used in download links handed to the browser
+const PUBLIC_BASE_URL = process.env.PUBLIC_BASE_URL || `http://localhost:${PORT}`;
+// Browser origins allowed to call the API with the session cookie, besides localhost
+const CORS_ORIGINS = (process.env.CORS_ORIGINS || '').split(',').map(o => o.trim()).filter(Boolean);
+const SECURE_COOKIES = PUBLIC_BASE_URL.startsWith('https:');
 const TEMP_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'temp');
 
 if (!fs.existsSync(TEMP_DIR)) fs.mkdirSync(TEMP_DIR);
 
 // --- Setup ---
-const app = express();
-const upload = multer({ dest: TEMP_DIR });
-
-app.use(cors() as any);
+export const app = express();
+const cvUpload = cvUploadMiddleware(TEMP_DIR, 'cvFile');
+
+app.use(cors({
+  origin: (origin: string | undefined, callback: (error: Error | null, allow?: boolean) => void) => {
+    callback(null, !origin || /^https?:\/\/(localhost|127\.0\.0\.1)(:\d+)?$/.test(origin) || CORS_ORIGINS.includes(origin));
+  },
+  credentials: true
+}) as any);
 app.use(express.json() as any);
-// Serve temp files for download (Secure this in production with signed URLs or auth)
-app.use('/download', express.static(TEMP_DIR) as any);
 
-// --- GenAI Client ---
-// Initialize GenAI client safely
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+startArtifactSweeper();
+adoptUnownedData();
+
+// Generated files are only served through signed, expiring links from signedDownloadUrl, and
+// only to the account that created them.
+app.get('/download/:artifactId', (req: any, res: any) => {
+  const user = userForSession(readSessionToken(req));
+  if (!user) return res.status(401).json({ error: "Sign in to download this file." });
+  try {
+    const { artifact, filePath } = resolveDownload(req.params.artifactId, req.query.expires, req.query.signature, user.userId);
+    res.type(artifact.mimeType);
+    res.download(filePath, artifact.fileName);
+  } catch (error: any) {
+    const status = error instanceof DownloadError ? error.status : 500;
+    res.status(status).json({ error: error.message });
+  }
+});
+
+// --- LLM Provider ---
+// Gemini by default; LLM_PROVIDER=mock runs the whole pipeline offline against fixtures.
+const llm = createLlmProvider();
+
+// Every model call of a run (CV parsing and scoring) goes through this queue. Shared by every
+// run so the limits hold for the API key as a whole.
+const llmQueue = new WorkQueue({
+  concurrency: parseInt(process.env.LLM_CONCURRENCY || '5'),
+  requestsPerMinute: parseInt(process.env.LLM_REQUESTS_PER_MINUTE || '60'),
+  maxRetries: parseInt(process.env.LLM_MAX_RETRIES || '3')
+});
 
 
 // --- Helpers ---
 
-// 1. Text Extraction
-async function extractText(filePath: string, mimeType: string): Promise<string> {
-  const buffer = fs.readFileSync(filePath);
-  try {
-    if (mimeType === 'application/pdf') {
-      const data = await (pdfParse as any)(buffer);
-      return data.text;
-    } else if (mimeType.includes('word') || mimeType.includes('officedocument')) {
-      const result = await mammoth.extractRawText({ path: filePath });
-      return result.value;
+// Score Jobs
+// Scores every job; the score threshold is applied by the client so it can change without a re-run.
+async function scoreJobs(
+  cvData: CandidateProfile,
+  jobs: Job[],
+  reporter?: ProgressReporter,
+  signal?: AbortSignal,
+  usage: UsageMeter = new UsageMeter()
+): Promise<Pick<AnalyzedResponse, 'jobs' | 'failedJobs' | 'scoreCache'>> {
+  console.log(`Scoring ${jobs.length} jobs...`);
+  
+  const scoredJobs: Job[] = [];
+  const failedJobs: FailedJob[] = [];
+  const cacheStats = { hits: 0, misses: 0 };
+  let scoredCount = 0;
+  const reportScoring = () => reporter?.progress({
+    stage: 'scoring',
+    message: `Scoring jobs (${scoredCount}/${jobs.length})...`,
+    scored: scoredCount,
+    total: jobs.length
+  });
+  reportScoring();
+  
+  const model = llm.modelFor('scoring');
+  const onUsage = usage.forModel(model);
+
+  // Every job is queued at once; the shared queue enforces concurrency and the per-minute budget.
+  await Promise.all(jobs.map(async (posting: Job) => {
+    // Postings that try to steer the model are still scored, but flagged for the user
+    const suspiciousContent = detectPromptInjection(posting);
+    const job: Job = suspiciousContent.length > 0 ? { ...posting, suspiciousContent } : posting;
+    if (suspiciousContent.length > 0) console.warn(`Job ${job.jobId} looks like a prompt injection: ${suspiciousContent.join('; ')}`);
+
+    try {
+      // Keyed on the rendered prompt, so any input that reaches the model (profile, title,
+      // location, description) is part of the key; the version covers schema changes.
+      const prompt = createScoringPrompt(cvData, job);
+      const cacheKey = scoreCache.key(prompt, SCORING_PROMPT_VERSION, model);
+      const cached = scoreCache.get(cacheKey);
+      if (cached) {
+        cacheStats.hits++;
+        const scoredJob = { ...job, ...cached };
+        scoredJobs.push(scoredJob);
+        reporter?.jobScored(scoredJob);
+        return;
+      }
+      cacheStats.misses++;
+
+      const result = await llmQueue.run(
+        throttle => requestJobMatch(llm, prompt, {
+          signal,
+          onUsage,
+          beforeCall: throttle,
+          onReask: (problems) => {
+            usage.recordRetry();
+            console.warn(`Re-asking for job ${job.jobId}: ${problems[0]}`);
+          }
+        }),
+        {
+          signal,
+          onRetry: (error, attempt) => {
+            usage.recordRetry();
+            console.warn(`Retrying job ${job.jobId} (attempt ${attempt}): ${error?.message}`);
+          }
+        }
+      );
+      scoreCache.set(cacheKey, result);
+
+      const scoredJob = { ...job, ...result };
+      scoredJobs.push(scoredJob);
+      reporter?.jobScored(scoredJob);
+    } catch (e: any) {
+      console.error(`Failed to score job ${job.jobId}`, e);
+      failedJobs.push({ job, reason: e?.message || String(e) });
+    } finally {
+      scoredCount++;
+      reportScoring();
     }
-    return buffer.toString('utf-8');
-  } catch (error) {
-    console.error("Text extraction failed:", error);
-    throw new Error("Failed to parse CV file.");
-  }
-}
+  }));
 
-// 2. Apify Interaction
-async function scrapeLinkedInJobs(searchUrl: string, maxItems: number, apiToken?: string, actorSlug?: string): Promise<any[]> {
-  const token = apiToken || process.env.APIFY_API_TOKEN;
-  const actor = actorSlug || process.env.APIFY_ACTOR_SLUG || "curious_coder~linkedin-jobs-scraper";
+  scoreCache.flush();
+  if (signal?.aborted) throw new Error("The analysis was cancelled.");
 
-  if (!token) throw new Error("Missing Apify API Token. Provide it in the UI settings or .env (APIFY_API_TOKEN).");
+  return {
+    jobs: scoredJobs.sort((a, b) => (b.score || 0) - (a.score || 0)),
+    failedJobs,
+    scoreCache: cacheStats
+  };
+}
 
-  console.log(`Starting Apify actor ${actor} for ${searchUrl}`);
+// --- Auth ---
 
-  // Start the run
-  const startRes = await fetch(`https://api.apify.com/v2/acts/${actor}/runs?token=${token}`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      startUrls: [{ url: searchUrl }],
-      maxItems: Math.min(maxItems, 100), // Hard cap at 100
-      limit: Math.min(maxItems, 100)
-    })
-  });
+const startSession = (res: any, userId: string) => {
+  res.setHeader('Set-Cookie', sessionCookie(createSession(userId), SECURE_COOKIES));
+};
 
-  if (!startRes.ok) {
-    const err = await startRes.text();
-    throw new Error(`Apify start failed: ${err}`);
+app.post('/api/auth/register', async (req: any, res: any) => {
+  try {
+    const user = await registerUser(req.body.email, req.body.password, req.body.name);
+    startSession(res, user.userId);
+    res.status(201).json(user);
+  } catch (error: any) {
+    res.status(error instanceof AuthError ? error.status : 500).json({ error: error.message });
+  }
+});
+
+app.post('/api/auth/login', async (req: any, res: any) => {
+  try {
+    const user = await authenticate(req.body.email, req.body.password);
+    startSession(res, user.userId);
+    res.json(user);
+  } catch (error: any) {
+    res.status(error instanceof AuthError ? error.status : 500).json({ error: error.message });
   }
+});
 
-  const runData = await startRes.json() as any;
-  const runId = runData.data.id;
-  const defaultDatasetId = runData.data.defaultDatasetId;
+app.post('/api/auth/logout', (req: any, res: any) => {
+  const token = readSessionToken(req);
+  if (token) deleteSession(token);
+  res.setHeader('Set-Cookie', sessionCookie('', SECURE_COOKIES));
+  res.status(204).end();
+});
 
-  console.log(`Apify run started: ${runId}, polling for completion...`);
+// Everything else under /api needs a signed-in user; handlers read it from req.user.
+app.use('/api', (req: any, res: any, next: any) => req.path.startsWith('/auth/') ? next() : requireAuth(req, res, next));
 
-  // Poll for completion
-  let status = 'RUNNING';
-  while (status === 'RUNNING' || status === 'READY') {
-    await new Promise(r => setTimeout(r, 5000)); // Poll every 5s
-    const pollRes = await fetch(`https://api.apify.com/v2/acts/${actor}/runs/${runId}?token=${token}`);
-    const pollData = await pollRes.json() as any;
-    status = pollData.data.status;
-    console.log(`Run status: ${status}`);
-  }
+app.get('/api/auth/me', (req: any, res: any) => {
+  const user = userForSession(readSessionToken(req));
+  if (!user) return res.status(401).json({ error: "Sign in to continue." });
+  res.json(user);
+});
+
+// --- Apify Credentials ---
+// Tokens are encrypted at rest and never sent back to the browser; runs refer to them by id.
+
+app.get('/api/credentials', (req: any, res: any) => {
+  res.json(listCredentials(req.user.userId));
+});
+
+// Whether runs without a saved credential may use the server's own APIFY_API_TOKEN.
+app.get('/api/credentials/server-default', (req: any, res: any) => {
+  res.json({ available: serverApifyTokenAllowed() });
+});
 
-  if (status !== 'SUCCEEDED') {
-    throw new Error(`Apify run failed with status: ${status}`);
+app.post('/api/credentials', (req: any, res: any) => {
+  try {
+    res.status(201).json(createCredential(req.user.userId, req.body));
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
   }
+});
 
-  // Fetch items
-  const itemsRes = await fetch(`https://api.apify.com/v2/datasets/${defaultDatasetId}/items?token=${token}&limit=100`);
-  const items = await itemsRes.json() as any[];
-  return items;
-}
+app.delete('/api/credentials/:credentialId', (req: any, res: any) => {
+  if (!deleteCredential(req.user.userId, req.params.credentialId)) return res.status(404).json({ error: "Saved Apify credential not found." });
+  res.status(204).end();
+});
 
-// 3. Normalize Data
-function normalizeJobData(rawJob: any): any {
-  // Mapping config to handle potential field name variations
-  return {
-    jobId: rawJob.id || rawJob.jobId || uuidv4(),
-    companyName: rawJob.companyName || rawJob.company || "Unknown Company",
-    companyLogo: rawJob.companyLogo || rawJob.logo || null,
-    jobTitle: rawJob.title || rawJob.jobTitle || "Untitled Role",
-    jobUrl: rawJob.url || rawJob.jobUrl || "",
-    applyUrl: rawJob.applyUrl || rawJob.url || "", // Fallback to job url
-    description: rawJob.description || rawJob.text || "",
-    scrapedAt: rawJob.postedAt || new Date().toISOString().split('T')[0]
+// --- Endpoints ---
+
+// Runs the full pipeline for one analysis run. Never throws: failures are recorded on the run.
+// Either `file` (an uploaded CV) or `savedProfile` is set. Apify runs use the run owner's saved
+// credential named by `body.credentialId`, or the server's own token where that is allowed. The run is
+// added to the owner's history with its inputs once it finishes.
+async function runAnalysis(run: AnalysisRun, file: CvUpload | undefined, savedProfile: SavedProfile | undefined, body: any) {
+  const { source, searchUrl, maxJobs, credentialId } = body;
+  const reporter = createReporter(run);
+  const signal = runSignal(run);
+  const usage = new UsageMeter();
+  const jobSource = getJobSource(source);
+  const rules = parsePrefilterRules(body.filters);
+  const inputs: AnalysisInputs = {
+    source: jobSource.id,
+    searchUrl: searchUrl || '',
+    maxJobs: clampMaxJobs(maxJobs),
+    threshold: body.threshold !== undefined && body.threshold !== '' ? Number(body.threshold) : undefined,
+    filters: rules,
+    profileId: savedProfile?.profileId,
+    profileName: savedProfile?.name,
+    cvFileName: file?.fileName,
+    searchId: body.searchId
   };
-}
 
-// 4. Gemini Analysis
-async function analyzeCvAndJobs(cvText: string, jobs: any[], threshold: number) {
-  // A. Parse CV
-  console.log("Parsing CV with Gemini...");
-  const cvPrompt = `
-    Extract the following from this CV text:
-    1. A list of top technical/professional skills (array of strings).
-    2. A brief profile summary (string).
-    3. Three key experience highlights (array of strings).
+  try {
+    // 1. Build the candidate profile: a saved one as-is, or parsed from the uploaded CV
+    let cvData: CandidateProfile;
+    if (savedProfile) {
+      reporter.progress({ stage: 'extracting', message: `Using saved profile "${savedProfile.name}"...` });
+      cvData = savedProfile.profile;
+    } else {
+      console.log("Extracting text...");
+      reporter.progress({ stage: 'extracting', message: 'Extracting text from CV...' });
+      const cvText = await extractCvText(file!);
+      
+      // To strictly follow "not persist CVs long-term", we rely on memory for the run duration
+      // and delete the upload as soon as the text is extracted.
+      fs.unlinkSync(file!.path);
+
+      reporter.progress({ stage: 'extracting', message: 'Analyzing CV...' });
+      cvData = await parseCv(llm, cvText, llmQueue, usage, signal);
+    }
+    reporter.profile(cvData);
+    inputs.profileVersion = profileVersion(cvData);
     
-    CV TEXT:
-    ${cvText.substring(0, 10000)}
-  `;
-
-  const cvResponse = await ai.models.generateContent({
-    model: 'gemini-2.5-flash',
-    contents: cvPrompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          skills: { type: Type.ARRAY, items: { type: Type.STRING } },
-          profileSummary: { type: Type.STRING },
-          experienceHighlights: { type: Type.ARRAY, items: { type: Type.STRING } }
-        }
-      }
+    // 2. Fetch Jobs from the selected source
+    const apify = credentialId ? resolveCredential(run.userId, credentialId) : undefined;
+    if (jobSource.id === 'apify-linkedin') inputs.actor = resolveApifyActor(apify?.actor);
+    reporter.progress({ stage: 'scraping', message: `Fetching jobs from ${jobSource.label}...` });
+    const fetchedJobs = await fetchJobs(jobSource.id, {
+      searchUrl,
+      maxItems: inputs.maxJobs,
+      apifyToken: apify?.token,
+      apifyActor: apify?.actor,
+      onStatus: (apifyStatus) => reporter.progress({ stage: 'scraping', message: `Scraping jobs (Apify: ${apifyStatus})...`, apifyStatus }),
+      signal
+    });
+    if (signal.aborted) throw new Error("The analysis was cancelled.");
+
+    // Persist postings and flag those not seen in earlier runs
+    const { jobs: storedJobs, stats: dedupe } = recordJobs(run.userId, fetchedJobs);
+    console.log(`Jobs: ${dedupe.new} new, ${dedupe.changed} changed, ${dedupe.unchanged} unchanged, ${dedupe.duplicates} duplicates`);
+    
+    // 3. Pre-filter with the user's rules so only plausible jobs reach the model
+    const { jobs: candidates, report: prefilter } = prefilterJobs(storedJobs, rules, cvData.skills);
+    console.log(`Pre-filter: ${prefilter.passed}/${prefilter.received} jobs passed`);
+
+    // 4. Analyze
+    const scoring = await scoreJobs(cvData, candidates, reporter, signal, usage);
+
+    completeRun(run, { ...cvData, ...scoring, dedupe, prefilter, usage: usage.totals(), profileId: savedProfile?.profileId });
+
+  } catch (error: any) {
+    console.error("Analysis Error:", error);
+    if (file && fs.existsSync(file.path)) fs.unlinkSync(file.path);
+    failRun(run, error.message);
+  }
+
+  try {
+    recordAnalysis(run, inputs);
+  } catch (error: any) {
+    console.error("Failed to save the analysis to history:", error);
+  }
+}
+
+app.post('/api/analyze', cvUpload as any, async (req: any, res: any) => {
+  const file = req.file;
+  const { userId } = req.user;
+  const savedProfile = req.body.profileId ? getProfile(userId, req.body.profileId) : undefined;
+
+  if (req.body.profileId && !savedProfile) {
+    if (file) fs.unlinkSync(file.path);
+    return res.status(404).json({ error: "Saved profile not found." });
+  }
+  if (!file && !savedProfile) return res.status(400).json({ error: "Upload a CV or choose a saved profile." });
+  if (req.body.credentialId && !getCredential(userId, req.body.credentialId)) {
+    if (file) fs.unlinkSync(file.path);
+    return res.status(404).json({ error: "Saved Apify credential not found." });
+  }
+  try {
+    getJobSource(req.body.source);
+    parseMaxJobs(req.body.maxJobs);
+    parsePrefilterRules(req.body.filters);
+  } catch (error: any) {
+    if (file) fs.unlinkSync(file.path);
+    return res.status(400).json({ error: error.message });
+  }
+
+  // A saved profile takes precedence; an upload sent alongside it is not needed
+  if (savedProfile && file) fs.unlinkSync(file.path);
+
+  let cv: CvUpload | undefined;
+  if (!savedProfile) {
+    try {
+      cv = await sniffCvFile(file);
+    } catch (error: any) {
+      fs.unlinkSync(file.path);
+      if (error instanceof UploadError) return res.status(error.status).json(error.toJSON());
+      return res.status(500).json({ error: error.message });
     }
+  }
+
+  const run = createRun(userId);
+  runAnalysis(run, cv, savedProfile, req.body);
+
+  res.status(202).json({ runId: run.runId });
+});
+
+app.get('/api/sources', (req: any, res: any) => {
+  res.json(listJobSources());
+});
+
+app.get('/api/runs/:runId', (req: any, res: any) => {
+  const run = getRun(req.user.userId, req.params.runId);
+  if (!run) return res.status(404).json({ error: "Analysis run not found." });
+  res.json(run);
+});
+
+// Server-Sent Events stream of run progress. Sends a snapshot first so late subscribers catch up.
+app.get('/api/runs/:runId/events', (req: any, res: any) => {
+  const run = getRun(req.user.userId, req.params.runId);
+  if (!run) return res.status(404).json({ error: "Analysis run not found." });
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
   });
 
-  const cvData = JSON.parse(cvResponse.text);
+  const send = (event: RunEvent) => res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  send({ type: 'snapshot', run });
 
-  // B. Score Jobs (Sequential or Batching)
-  // For 100 jobs, we process them in chunks to avoid overwhelming the model or hitting potential rate limits on smaller keys
-  // Note: Gemini 1.5/2.5 Flash is very fast. We will use Promise.all with a small concurrency.
-  
-  console.log(`Scoring ${jobs.length} jobs...`);
-  
-  const scoredJobs = [];
-  
-  // Create a reusable scoring prompt template
-  const createScoringPrompt = (job: any) => `
-    You are a recruiter. Compare this candidate's profile to the job description.
-    
-    CANDIDATE SKILLS: ${JSON.stringify(cvData.skills)}
-    CANDIDATE SUMMARY: ${cvData.profileSummary}
-    
-    JOB TITLE: ${job.jobTitle}
-    JOB DESCRIPTION: ${job.description.substring(0, 3000)} // Truncate for token limits if needed
-
-    Rubric:
-    - 90-100: Perfect match (skills, seniority, industry).
-    - 70-89: Good match (missing minor skills).
-    - 50-69: Potential match (transferable skills).
-    - <50: Poor match.
-
-    Return JSON:
-    {
-      "score": number (0-100),
-      "verdict": string (2-4 sentences explaining the score)
+  if (isFinished(run)) return res.end();
+
+  const unsubscribe = subscribe(run.runId, (event) => {
+    send(event);
+    if (event.type === 'done' || event.type === 'failed') {
+      unsubscribe();
+      res.end();
     }
-  `;
+  });
+  req.on('close', unsubscribe);
+});
 
-  // Simple concurrency limiter
-  const chunkArray = (arr: any[], size: number) => 
-    arr.length > size ? [arr.slice(0, size), ...chunkArray(arr.slice(size), size)] : [arr];
-    
-  const chunks = chunkArray(jobs, 5); // Process 5 at a time
-
-  for (const chunk of chunks) {
-    const promises = chunk.map(async (job: any) => {
-      try {
-        const resp = await ai.models.generateContent({
-          model: 'gemini-2.5-flash',
-          contents: createScoringPrompt(job),
-          config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-              type: Type.OBJECT,
-              properties: {
-                score: { type: Type.NUMBER },
-                verdict: { type: Type.STRING }
-              }
-            }
-          }
-        });
-        const result = JSON.parse(resp.text);
-        
-        if (result.score >= threshold) {
-          return { ...job, ...result };
-        }
-        return null;
-      } catch (e) {
-        console.error(`Failed to score job ${job.jobId}`, e);
-        return null; 
-      }
-    });
+app.post('/api/runs/:runId/cancel', (req: any, res: any) => {
+  const run = getRun(req.user.userId, req.params.runId);
+  if (!run) return res.status(404).json({ error: "Analysis run not found." });
+  if (!cancelRun(run)) return res.status(409).json({ error: "The analysis has already finished." });
+  res.status(202).json({ runId: run.runId });
+});
+
+// --- Analysis History ---
 
-    const results = await Promise.all(promises);
-    scoredJobs.push(...results.filter(r => r !== null));
+// Summaries, newest first. With ?like=<analysisId>, only runs of the same search as that one.
+app.get('/api/analyses', (req: any, res: any) => {
+  const like = req.query.like ? getAnalysis(req.user.userId, req.query.like) : undefined;
+  if (req.query.like && !like) return res.status(404).json({ error: "Analysis not found." });
+  res.json(listAnalyses(req.user.userId, like?.inputs));
+});
+
+app.get('/api/analyses/compare', (req: any, res: any) => {
+  const { base, target } = req.query;
+  if (!base || !target) return res.status(400).json({ error: "Both base and target analyses are required." });
+  try {
+    const comparison = compareAnalyses(req.user.userId, base, target);
+    if (!comparison) return res.status(404).json({ error: "Analysis not found." });
+    res.json(comparison);
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
   }
+});
 
-  return {
-    ...cvData,
-    jobs: scoredJobs.sort((a, b) => b.score - a.score)
+app.get('/api/analyses/:analysisId', (req: any, res: any) => {
+  const analysis = getAnalysis(req.user.userId, req.params.analysisId);
+  if (!analysis) return res.status(404).json({ error: "Analysis not found." });
+  res.json(analysis);
+});
+
+app.delete('/api/analyses/:analysisId', (req: any, res: any) => {
+  if (!deleteAnalysis(req.user.userId, req.params.analysisId)) return res.status(404).json({ error: "Analysis not found." });
+  res.status(204).end();
+});
+
+// --- Saved Profiles ---
+
+app.get('/api/profiles', (req: any, res: any) => {
+  res.json(listProfiles(req.user.userId));
+});
+
+app.get('/api/profiles/:profileId', (req: any, res: any) => {
+  const saved = getProfile(req.user.userId, req.params.profileId);
+  if (!saved) return res.status(404).json({ error: "Saved profile not found." });
+  res.json(saved);
+});
+
+app.post('/api/profiles', (req: any, res: any) => {
+  try {
+    res.status(201).json(createProfile(req.user.userId, req.body.name, req.body.profile));
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+app.put('/api/profiles/:profileId', (req: any, res: any) => {
+  try {
+    const saved = updateProfile(req.user.userId, req.params.profileId, req.body.name, req.body.profile);
+    if (!saved) return res.status(404).json({ error: "Saved profile not found." });
+    res.json(saved);
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+app.delete('/api/profiles/:profileId', (req: any, res: any) => {
+  if (!deleteProfile(req.user.userId, req.params.profileId)) return res.status(404).json({ error: "Saved profile not found." });
+  res.status(204).end();
+});
+
+// --- Cover Letters ---
+
+app.get('/api/cover-letters/templates', (req: any, res: any) => {
+  res.json(COVER_LETTER_TEMPLATES);
+});
+
+// Step 1: generate an editable draft. Nothing is rendered yet.
+app.post('/api/cover-letters/draft', async (req: any, res: any) => {
+  const { job, profile } = req.body;
+  if (!job || !profile) return res.status(400).json({ error: "Both job and profile are required." });
+
+  let options: CoverLetterOptions;
+  try {
+    options = resolveCoverLetterOptions(req.body.options);
+  } catch (error: any) {
+    return res.status(400).json({ error: error.message });
+  }
+
+  try {
+    const text = await generateCoverLetterDraft(llm, job, profile, options);
+    res.json({ text, options });
+  } catch (error: any) {
+    console.error("Cover Letter Draft Error:", error);
+    res.status(502).json({ error: error.message });
+  }
+});
+
+app.get('/api/cover-letters/export-options', (req: any, res: any) => {
+  const options: ExportOptions = {
+    formats: EXPORT_FORMATS.map(({ id, label }) => ({ id, label })),
+    themes: Object.values(EXPORT_THEMES).map(({ id, label }) => ({ id, label }))
   };
-}
+  res.json(options);
+});
 
-// --- Endpoints ---
+// Step 2: render the (possibly edited) text with the applicant's letterhead in the chosen format and theme.
+app.post('/api/cover-letters/render', async (req: any, res: any) => {
+  const { job, contact, text } = req.body;
+  if (!job || typeof text !== 'string' || !text.trim()) return res.status(400).json({ error: "Both job and text are required." });
 
-app.post('/api/analyze', upload.single('cvFile') as any, async (req: any, res: any) => {
-  const file = req.file;
-  const { searchUrl, maxJobs, scoreThreshold, apifyToken, apifyActor } = req.body;
+  let format, theme;
+  try {
+    format = getExportFormat(req.body.format);
+    theme = getTheme(req.body.theme);
+  } catch (error: any) {
+    return res.status(400).json({ error: error.message });
+  }
 
-  if (!file) return res.status(400).json({ error: "No CV file uploaded." });
+  try {
+    const doc = buildLetterDocument(text, job, { name: '', ...contact });
+    const file = await exportLetter(doc, format.id, theme);
+    const artifact = await saveArtifact(file.buffer, {
+      userId: req.user.userId,
+      fileName: `cover_${job.jobId}.${file.extension}`,
+      mimeType: file.mimeType
+    });
+    if (req.body.applicationId) attachArtifact(req.user.userId, req.body.applicationId, artifact, 'coverLetter');
+
+    res.json({
+      coverLetterUrl: signedDownloadUrl(artifact, PUBLIC_BASE_URL),
+      artifactId: artifact.artifactId
+    });
+
+  } catch (error: any) {
+    console.error("Cover Letter Render Error:", error);
+    res.status(500).json({ error: error.message });
+  }
+});
 
+// Drafts and renders letters for several jobs of a finished run and bundles them into a zip with
+// a CSV index. Returns 202 with a batchId; follow progress on /events.
+app.post('/api/cover-letters/batch', (req: any, res: any) => {
+  const { runId, jobIds } = req.body;
+  // Runs leave memory a while after finishing; older ones are read back from the history,
+  // which keeps no profile, so the caller has to send one
+  const runResult = runId && getRun(req.user.userId, runId)?.result;
+  const result = runResult || (runId && getAnalysis(req.user.userId, runId)?.result);
+  if (!result) return res.status(404).json({ error: "Finished analysis run not found." });
+  const profile = req.body.profile || runResult;
+  if (!profile) return res.status(400).json({ error: "A candidate profile is required." });
+  if (!Array.isArray(jobIds) || jobIds.length === 0) return res.status(400).json({ error: "Select at least one job." });
+  if (jobIds.length > MAX_BATCH_SIZE) return res.status(400).json({ error: `At most ${MAX_BATCH_SIZE} letters can be generated at once.` });
+
+  const jobs = jobIds.map((id: string) => result.jobs.find(j => j.jobId === id));
+  if (jobs.some((job: Job | undefined) => !job)) return res.status(400).json({ error: "Some jobs are not part of this run." });
+
+  let settings;
   try {
-    // 1. Extract CV Text
-    console.log("Extracting text...");
-    const cvText = await extractText(file.path, file.mimetype);
-    
-    // Store CV text in a temporary file for Cover Letter generation later?
-    // For this stateless architecture, we'll re-upload or pass context. 
-    // To strictly follow "not persist CVs long-term", we rely on memory for the request duration
-    // or extracted metadata returned to client.
-    
-    // 2. Scrape Jobs
-    const rawJobs = await scrapeLinkedInJobs(searchUrl, parseInt(maxJobs) || 50, apifyToken, apifyActor);
-    const normalizedJobs = rawJobs.map(normalizeJobData);
-    
-    // 3. Analyze
-    const analysisResult = await analyzeCvAndJobs(
-      cvText, 
-      normalizedJobs, 
-      parseInt(scoreThreshold) || 60
-    );
+    settings = {
+      profile,
+      options: resolveCoverLetterOptions(req.body.options),
+      format: getExportFormat(req.body.format).id,
+      theme: getTheme(req.body.theme),
+      baseUrl: PUBLIC_BASE_URL
+    };
+  } catch (error: any) {
+    return res.status(400).json({ error: error.message });
+  }
+
+  const batch = startCoverLetterBatch(llm, req.user.userId, jobs, settings);
+  res.status(202).json({ batchId: batch.batchId });
+});
+
+app.get('/api/cover-letters/batch/:batchId', (req: any, res: any) => {
+  const batch = getBatch(req.user.userId, req.params.batchId);
+  if (!batch) return res.status(404).json({ error: "Cover letter batch not found." });
+  res.json(batch);
+});
+
+app.get('/api/cover-letters/batch/:batchId/events', (req: any, res: any) => {
+  const batch = getBatch(req.user.userId, req.params.batchId);
+  if (!batch) return res.status(404).json({ error: "Cover letter batch not found." });
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
 
-    // Cleanup input file
-    fs.unlinkSync(file.path);
+  const send = (event: BatchEvent) => res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  send({ type: 'snapshot', batch });
 
-    res.json(analysisResult);
+  if (isBatchFinished(batch)) return res.end();
+
+  const unsubscribe = subscribeToBatch(batch.batchId, (event) => {
+    send(event);
+    if (event.type === 'done' || event.type === 'failed') {
+      unsubscribe();
+      res.end();
+    }
+  });
+  req.on('close', unsubscribe);
+});
 
+// --- Tailored CVs ---
+
+// Rewrites the CV summary, skill order and bullets for one job. Returns the tailored profile and
+// a diff against the original so the user can review every change.
+app.post('/api/cvs/tailor', async (req: any, res: any) => {
+  const { job, profile } = req.body;
+  if (!job || !profile) return res.status(400).json({ error: "Both job and profile are required." });
+
+  try {
+    const usage = new UsageMeter();
+    const tailored = await tailorCv(llm, job, profile, usage);
+    res.json({ ...tailored, usage: usage.totals() });
   } catch (error: any) {
-    console.error("Analysis Error:", error);
-    if (file && fs.existsSync(file.path)) fs.unlinkSync(file.path);
+    console.error("CV Tailoring Error:", error);
     res.status(502).json({ error: error.message });
   }
 });
 
-app.post('/api/generate-cover', async (req: any, res: any) => {
-  const { job, cvContext } = req.body;
+app.post('/api/cvs/render', async (req: any, res: any) => {
+  const { job, profile } = req.body;
+  if (!job || !profile) return res.status(400).json({ error: "Both job and profile are required." });
 
+  let theme;
   try {
-    // Generate Text
-    const prompt = `
-      Write a professional cover letter for the following job application.
-      
-      JOB: ${job.jobTitle} at ${job.companyName}
-      JOB CONTEXT: ${job.description.substring(0, 1000)}...
-      
-      APPLICANT SKILLS: ${(cvContext?.skills || []).join(', ')}
-      APPLICANT EXPERIENCE: ${(cvContext?.experienceHighlights || []).join('; ')}
-      
-      Tone: Professional, concise, enthusiastic. Max 300 words.
-      Structure:
-      1. Hook (why this company).
-      2. Relevance (skills match).
-      3. Call to Action.
-      
-      Do not include placeholders like [Your Name] - use "The Applicant".
-    `;
+    theme = getTheme(req.body.theme);
+  } catch (error: any) {
+    return res.status(400).json({ error: error.message });
+  }
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
+  try {
+    const artifact = await saveArtifact(await renderCvPdf(profile, theme), {
+      userId: req.user.userId,
+      fileName: `cv_${job.jobId}.pdf`,
+      mimeType: 'application/pdf'
+    });
+    if (req.body.applicationId) attachArtifact(req.user.userId, req.body.applicationId, artifact, 'cv');
+
+    res.json({
+      cvUrl: signedDownloadUrl(artifact, PUBLIC_BASE_URL),
+      artifactId: artifact.artifactId
     });
+  } catch (error: any) {
+    console.error("CV Render Error:", error);
+    res.status(500).json({ error: error.message });
+  }
+});
 
-    const coverLetterText = response.text;
+// --- Application Tracker ---
 
-    // Generate PDF
-    const browser = await puppeteer.launch({ headless: true, args: ['--no-sandbox'] });
-    const page = await browser.newPage();
-    
-    const htmlContent = `
-      <html>
-        <head>
-          <style>
-            body { font-family: Helvetica, Arial, sans-serif; line-height: 1.6; padding: 40px; color: #333; }
-            h1 { font-size: 18px; margin-bottom: 20px; }
-            p { margin-bottom: 15px; }
-            .header { margin-bottom: 40px; border-bottom: 1px solid #eee; padding-bottom: 20px; }
-          </style>
-        </head>
-        <body>
-          <div class="header">
-            <strong>Application for ${job.jobTitle}</strong><br/>
-            ${job.companyName}
-          </div>
-          ${coverLetterText.split('\n').map(p => p.trim() ? `<p>${
\ No newline at end of file
+app.get('/api/applications', (req: any, res: any) => {
+  res.json(listApplications(req.user.userId).map(a => withArtifactUrls(a, PUBLIC_BASE_URL)));
+});
+
+app.get('/api/applications/statuses', (req: any, res: any) => {
+  res.json(APPLICATION_STATUSES);
+});
+
+app.get('/api/applications/reminders', (req: any, res: any) => {
+  res.json(dueReminders(req.user.userId).map(a => withArtifactUrls(a, PUBLIC_BASE_URL)));
+});
+
+app.get('/api/applications/:applicationId', (req: any, res: any) => {
+  const application = getApplication(req.user.userId, req.params.applicationId);
+  if (!application) return res.status(404).json({ error: "Application not found." });
+  res.json(withArtifactUrls(application, PUBLIC_BASE_URL));
+});
+
+app.post('/api/applications', (req: any, res: any) => {
+  const { job, status } = req.body;
+  if (job?.jobId && findApplicationByJob(req.user.userId, job.jobId)) return res.status(409).json({ error: "This job is already being tracked." });
+  try {
+    res.status(201).json(createApplication(req.user.userId, job, status));
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+app.patch('/api/applications/:applicationId', (req: any, res: any) => {
+  try {
+    const application = updateApplication(req.user.userId, req.params.applicationId, req.body);
+    if (!application) return res.status(404).json({ error: "Application not found." });
+    res.json(withArtifactUrls(application, PUBLIC_BASE_URL));
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+app.delete('/api/applications/:applicationId', (req: any, res: any) => {
+  if (!deleteApplication(req.user.userId, req.params.applicationId)) return res.status(404).json({ error: "Application not found." });
+  res.status(204).end();
+});
+
+// --- Saved Searches ---
+
+// Scheduled and manual re-runs go through the same pipeline as /api/analyze, always with the
+// search's saved profile and credential, on behalf of the search's owner.
+const runSearch: SearchRunner = async (search) => {
+  const savedProfile = getProfile(search.userId!, search.profileId);
+  if (!savedProfile) throw new Error("The saved profile for this search no longer exists.");
+
+  const run = createRun(search.userId!);
+  await runAnalysis(run, undefined, savedProfile, {
+    source: search.source,
+    searchUrl: search.searchUrl,
+    maxJobs: search.maxJobs,
+    credentialId: search.credentialId,
+    filters: search.filters,
+    threshold: search.threshold,
+    searchId: search.searchId
+  });
+  if (!run.result) throw new Error(run.error || "Analysis did not complete.");
+  return { runId: run.runId, result: run.result };
+};
+
+startScheduler(runSearch);
+
+app.get('/api/searches', (req: any, res: any) => {
+  res.json(listSearches(req.user.userId));
+});
+
+app.get('/api/searches/notifiers', (req: any, res: any) => {
+  res.json(NOTIFIER_TYPES);
+});
+
+app.get('/api/searches/:searchId', (req: any, res: any) => {
+  const search = getSearch(req.user.userId, req.params.searchId);
+  if (!search) return res.status(404).json({ error: "Saved search not found." });
+  res.json(search);
+});
+
+app.post('/api/searches', (req: any, res: any) => {
+  try {
+    res.status(201).json(createSearch(req.user.userId, req.body));
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+app.put('/api/searches/:searchId', (req: any, res: any) => {
+  try {
+    const search = updateSearch(req.user.userId, req.params.searchId, req.body);
+    if (!search) return res.status(404).json({ error: "Saved search not found." });
+    res.json(search);
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+app.delete('/api/searches/:searchId', (req: any, res: any) => {
+  if (!deleteSearch(req.user.userId, req.params.searchId)) return res.status(404).json({ error: "Saved search not found." });
+  res.status(204).end();
+});
+
+// Starts a run now; the digest appears under /api/digests when it finishes.
+app.post('/api/searches/:searchId/run', (req: any, res: any) => {
+  const search = getSearch(req.user.userId, req.params.searchId);
+  if (!search) return res.status(404).json({ error: "Saved search not found." });
+  if (isSearchRunning(search.searchId)) return res.status(409).json({ error: `"${search.name}" is already running.` });
+
+  runSavedSearch(search, runSearch)
+    .catch(error => console.error(`Saved search "${search.name}" failed:`, error.message));
+  res.status(202).json({ searchId: search.searchId });
+});
+
+app.get('/api/digests', (req: any, res: any) => {
+  res.json(listDigests(req.user.userId, req.query.searchId));
+});
+
+app.get('/api/digests/:digestId', (req: any, res: any) => {
+  const digest = getDigest(req.user.userId, req.params.digestId);
+  if (!digest) return res.status(404).json({ error: "Digest not found." });
+  res.json(digest);
+});
+
+export const server = app.listen(PORT, () => {
+  console.log(`JobScout server running on http://localhost:${PORT}`);
+});
+
+// Stop accepting requests, let in-flight renders finish, then close the shared browser.
+const shutdown = async (signal: string) => {
+  console.log(`${signal} received, shutting down...`);
+  server.close();
+  scoreCache.flush();
+  profileCache.flush();
+  await browserPool.close();
+  process.exit(0);
+};
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
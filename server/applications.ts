@@ -0,0 +1,108 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ApplicationArtifact, ApplicationStatus, ApplicationUpdate, Job, TrackedApplication } from '../types';
+import { Artifact, getArtifact, pinArtifact, signedDownloadUrl } from './artifacts';
+import { OwnedCollection } from './storage';
+
+export const APPLICATION_STATUSES: ApplicationStatus[] = ['saved', 'applied', 'interviewing', 'offer', 'rejected', 'withdrawn'];
+
+const applications = new OwnedCollection<TrackedApplication>('applications');
+
+export function listApplications(userId: string): TrackedApplication[] {
+  return applications.allFor(userId).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export function getApplication(userId: string, applicationId: string): TrackedApplication | undefined {
+  return applications.getFor(applicationId, userId);
+}
+
+export function findApplicationByJob(userId: string, jobId: string): TrackedApplication | undefined {
+  return applications.allFor(userId).find(a => a.job.jobId === jobId);
+}
+
+function validateStatus(status: unknown): asserts status is ApplicationStatus {
+  if (!APPLICATION_STATUSES.includes(status as ApplicationStatus)) {
+    throw new Error(`Status must be one of: ${APPLICATION_STATUSES.join(', ')}.`);
+  }
+}
+
+export function createApplication(userId: string, job: Job, status: ApplicationStatus = 'saved'): TrackedApplication {
+  if (!job || !job.jobId || !job.jobTitle || !job.companyName) throw new Error("A job with jobId, jobTitle and companyName is required.");
+  validateStatus(status);
+  const now = new Date().toISOString();
+  const application: TrackedApplication = {
+    applicationId: uuidv4(),
+    userId,
+    job,
+    status,
+    notes: '',
+    history: [{ status, at: now }],
+    artifacts: [],
+    createdAt: now,
+    updatedAt: now
+  };
+  return applications.set(application.applicationId, application);
+}
+
+// Returns undefined when the application doesn't exist. Status changes are appended to the history.
+export function updateApplication(userId: string, applicationId: string, changes: ApplicationUpdate): TrackedApplication | undefined {
+  const existing = applications.getFor(applicationId, userId);
+  if (!existing) return undefined;
+
+  const now = new Date().toISOString();
+  const updated: TrackedApplication = { ...existing, updatedAt: now };
+
+  if (changes.status !== undefined && changes.status !== existing.status) {
+    validateStatus(changes.status);
+    updated.status = changes.status;
+    updated.history = [...existing.history, { status: changes.status, at: now }];
+  }
+  if (changes.notes !== undefined) updated.notes = String(changes.notes);
+  if (changes.reminderNote !== undefined) updated.reminderNote = String(changes.reminderNote);
+  if (changes.reminderAt === null) {
+    delete updated.reminderAt;
+    delete updated.reminderNote;
+  } else if (changes.reminderAt !== undefined) {
+    if (isNaN(Date.parse(changes.reminderAt))) throw new Error("reminderAt must be a date.");
+    updated.reminderAt = new Date(changes.reminderAt).toISOString();
+  }
+
+  return applications.set(applicationId, updated);
+}
+
+export function deleteApplication(userId: string, applicationId: string): boolean {
+  const existing = applications.getFor(applicationId, userId);
+  if (!existing) return false;
+  existing.artifacts.forEach(a => pinArtifact(a.artifactId, false));
+  return applications.delete(applicationId);
+}
+
+// Links a generated file to the application and pins it so it outlives the normal TTL.
+export function attachArtifact(userId: string, applicationId: string, artifact: Artifact, kind: ApplicationArtifact['kind']): TrackedApplication | undefined {
+  const existing = applications.getFor(applicationId, userId);
+  if (!existing) return undefined;
+  pinArtifact(artifact.artifactId, true);
+  const link: ApplicationArtifact = { artifactId: artifact.artifactId, kind, fileName: artifact.fileName, createdAt: artifact.createdAt };
+  return applications.set(applicationId, {
+    ...existing,
+    artifacts: [...existing.artifacts, link],
+    updatedAt: new Date().toISOString()
+  });
+}
+
+// Applications whose follow-up reminder is due, soonest first.
+export function dueReminders(userId: string, now = new Date()): TrackedApplication[] {
+  return applications.allFor(userId)
+    .filter(a => a.reminderAt && Date.parse(a.reminderAt) <= now.getTime())
+    .sort((a, b) => a.reminderAt!.localeCompare(b.reminderAt!));
+}
+
+// Adds fresh signed links; artifacts that no longer exist are dropped from the response.
+export function withArtifactUrls(application: TrackedApplication, baseUrl: string): TrackedApplication {
+  return {
+    ...application,
+    artifacts: application.artifacts.flatMap(link => {
+      const artifact = getArtifact(link.artifactId);
+      return artifact ? [{ ...link, url: signedDownloadUrl(artifact, baseUrl) }] : [];
+    })
+  };
+}
@@ -0,0 +1,144 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { DATA_DIR, OwnedCollection } from './storage';
+
+// Generated files (PDFs, DOCX, ...) live here, separate from raw uploads, and are only
+// reachable through signed download URLs.
+const ARTIFACT_DIR = process.env.ARTIFACT_DIR || path.join(DATA_DIR, 'artifacts');
+const ARTIFACT_TTL_SECONDS = parseInt(process.env.PDF_TTL_SECONDS || '3600');
+const SWEEP_INTERVAL_MS = parseInt(process.env.ARTIFACT_SWEEP_INTERVAL_SECONDS || '300') * 1000;
+
+let signingSecret: string | undefined;
+
+// Read lazily so a secret from .env is picked up. Without one, URLs are signed with a
+// per-process key and stop working on restart.
+function getSigningSecret(): string {
+  if (!signingSecret) {
+    signingSecret = process.env.DOWNLOAD_SIGNING_SECRET;
+    if (!signingSecret) {
+      console.warn('DOWNLOAD_SIGNING_SECRET is not set; download links will not survive a restart.');
+      signingSecret = crypto.randomBytes(32).toString('hex');
+    }
+  }
+  return signingSecret;
+}
+
+if (!fs.existsSync(ARTIFACT_DIR)) fs.mkdirSync(ARTIFACT_DIR, { recursive: true });
+
+export interface Artifact {
+  artifactId: string;
+  // Only this user can download it
+  userId?: string;
+  // Name offered to the browser, e.g. "cover_123.pdf"
+  fileName: string;
+  mimeType: string;
+  size: number;
+  createdAt: string;
+  expiresAt: string;
+  // Pinned artifacts (e.g. linked to a tracked application) are never swept
+  pinned?: boolean;
+}
+
+const artifacts = new OwnedCollection<Artifact>('artifacts');
+
+const storedPath = (artifactId: string) => path.join(ARTIFACT_DIR, artifactId);
+
+export async function saveArtifact(
+  buffer: Buffer,
+  file: { userId: string; fileName: string; mimeType: string; ttlSeconds?: number }
+): Promise<Artifact> {
+  const now = Date.now();
+  const artifact: Artifact = {
+    artifactId: uuidv4(),
+    userId: file.userId,
+    fileName: file.fileName,
+    mimeType: file.mimeType,
+    size: buffer.length,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + (file.ttlSeconds ?? ARTIFACT_TTL_SECONDS) * 1000).toISOString()
+  };
+  // Record first so a concurrent sweep never mistakes the new file for an orphan
+  artifacts.set(artifact.artifactId, artifact);
+  try {
+    await fs.promises.writeFile(storedPath(artifact.artifactId), buffer);
+  } catch (error) {
+    artifacts.delete(artifact.artifactId);
+    throw error;
+  }
+  return artifact;
+}
+
+export function getArtifact(artifactId: string): Artifact | undefined {
+  return artifacts.get(artifactId);
+}
+
+// Unpinning restores the normal expiry, so an artifact whose TTL has passed goes on the next sweep.
+export function pinArtifact(artifactId: string, pinned: boolean) {
+  const artifact = artifacts.get(artifactId);
+  if (artifact) artifacts.set(artifactId, { ...artifact, pinned });
+}
+
+function sign(artifactId: string, expires: number): string {
+  return crypto.createHmac('sha256', getSigningSecret()).update(`${artifactId}.${expires}`).digest('hex');
+}
+
+// URL valid until the artifact expires, or for one TTL from now if it is pinned.
+// `baseUrl` is the public origin of this server.
+export function signedDownloadUrl(artifact: Artifact, baseUrl: string): string {
+  const expiresAt = artifact.pinned ? Date.now() + ARTIFACT_TTL_SECONDS * 1000 : Date.parse(artifact.expiresAt);
+  const expires = Math.floor(expiresAt / 1000);
+  return `${baseUrl}/download/${artifact.artifactId}?expires=${expires}&signature=${sign(artifact.artifactId, expires)}`;
+}
+
+export class DownloadError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+// Checks the signature and expiry of a download request, and that the artifact belongs to the
+// signed-in user, and returns the artifact with its path.
+export function resolveDownload(artifactId: string, expires: string, signature: string, userId: string): { artifact: Artifact; filePath: string } {
+  const expected = sign(artifactId, Number(expires));
+  const valid = typeof signature === 'string'
+    && signature.length === expected.length
+    && crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+  if (!valid) throw new DownloadError('Invalid download signature.', 403);
+  if (Number(expires) * 1000 < Date.now()) throw new DownloadError('This download link has expired.', 410);
+
+  const artifact = artifacts.getFor(artifactId, userId);
+  if (!artifact || !fs.existsSync(storedPath(artifactId))) throw new DownloadError('File not found.', 404);
+  return { artifact, filePath: storedPath(artifactId) };
+}
+
+// Deletes expired artifacts and any file in ARTIFACT_DIR without a record (e.g. after a crash
+// between writing the file and saving its record).
+export async function sweepArtifacts(): Promise<number> {
+  const now = Date.now();
+  const expired = artifacts.all().filter(a => !a.pinned && Date.parse(a.expiresAt) <= now);
+  for (const artifact of expired) {
+    await fs.promises.rm(storedPath(artifact.artifactId), { force: true });
+    artifacts.delete(artifact.artifactId);
+  }
+
+  let orphans = 0;
+  for (const name of await fs.promises.readdir(ARTIFACT_DIR)) {
+    if (!artifacts.get(name)) {
+      await fs.promises.rm(path.join(ARTIFACT_DIR, name), { force: true });
+      orphans++;
+    }
+  }
+
+  const removed = expired.length + orphans;
+  if (removed > 0) console.log(`Removed ${removed} expired artifact${removed === 1 ? '' : 's'}.`);
+  return removed;
+}
+
+// Sweeps once now and then every ARTIFACT_SWEEP_INTERVAL_SECONDS.
+export function startArtifactSweeper() {
+  const sweep = () => sweepArtifacts().catch(error => console.error('Artifact sweep failed:', error));
+  sweep();
+  setInterval(sweep, SWEEP_INTERVAL_MS).unref();
+}
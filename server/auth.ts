@@ -0,0 +1,192 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { v4 as uuidv4 } from 'uuid';
+import { User } from '../types';
+import { JsonCollection, OwnedCollection } from './storage';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+export const SESSION_COOKIE = 'jobscout_session';
+const SESSION_TTL_MS = parseInt(process.env.SESSION_TTL_DAYS || '14') * 24 * 3600 * 1000;
+const MIN_PASSWORD_LENGTH = 8;
+
+// Failed sign-ins allowed per email within the window before further attempts are refused.
+const MAX_FAILED_LOGINS = 10;
+const FAILED_LOGIN_WINDOW_MS = 15 * 60 * 1000;
+// Emails tracked at once; past this the oldest are forgotten so guessing at random addresses
+// can't grow the map without bound.
+const MAX_TRACKED_EMAILS = 10000;
+
+interface UserRecord extends User {
+  // "scrypt:<salt hex>:<hash hex>"
+  passwordHash: string;
+}
+
+interface Session {
+  userId: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+const users = new JsonCollection<UserRecord>('users');
+// Keyed by the SHA-256 of the session token, so the file alone can't be used to sign in.
+const sessions = new JsonCollection<Session>('sessions');
+const failedLogins = new Map<string, number[]>();
+
+export class AuthError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const toUser = ({ passwordHash, ...user }: UserRecord): User => user;
+
+const normalizeEmail = (email: unknown) => String(email || '').trim().toLowerCase();
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  return `scrypt:${salt.toString('hex')}:${(await scrypt(password, salt, 64)).toString('hex')}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [, salt, hash] = stored.split(':');
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scrypt(password, Buffer.from(salt, 'hex'), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+export function getUser(userId: string): User | undefined {
+  const record = users.get(userId);
+  return record && toUser(record);
+}
+
+// Throws when `email` can't sign up right now. Read here rather than at import so
+// ALLOW_SIGNUP=false in .env takes effect. The first account can always be created.
+function assertCanRegister(email: string) {
+  const isFirstUser = users.all().length === 0;
+  if (process.env.ALLOW_SIGNUP === 'false' && !isFirstUser) throw new AuthError("Sign-up is closed. Ask an administrator for an account.", 403);
+  if (users.all().some(u => u.email === email)) throw new AuthError("An account with this email already exists.", 409);
+}
+
+export async function registerUser(email: unknown, password: unknown, name: unknown): Promise<User> {
+  const normalized = normalizeEmail(email);
+  assertCanRegister(normalized);
+  if (!/^[^@\s]+@[^@\s]+$/.test(normalized)) throw new AuthError("A valid email address is required.", 400);
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    throw new AuthError(`Passwords need at least ${MIN_PASSWORD_LENGTH} characters.`, 400);
+  }
+  const passwordHash = await hashPassword(password);
+
+  // Other sign-ups may have finished while the password was hashing, so check again. From here to
+  // the insert nothing awaits, which makes the check and the insert atomic.
+  assertCanRegister(normalized);
+  const record: UserRecord = {
+    userId: uuidv4(),
+    email: normalized,
+    name: String(name || '').trim() || normalized.split('@')[0],
+    passwordHash,
+    createdAt: new Date().toISOString()
+  };
+  users.set(record.userId, record);
+  adoptUnownedData();
+  return toUser(record);
+}
+
+// Data saved before accounts existed (CV profiles among it) only goes to the account named by
+// ADOPT_UNOWNED_DATA_TO, once it exists; nobody gets it by being first to sign up. Called at
+// startup and after each sign-up. Read lazily so a value from .env is picked up.
+export function adoptUnownedData() {
+  const email = normalizeEmail(process.env.ADOPT_UNOWNED_DATA_TO || '');
+  const owner = email && users.all().find(u => u.email === email);
+  if (!owner) {
+    const unowned = OwnedCollection.countUnowned();
+    if (unowned > 0 && !email) console.warn(`${unowned} records saved before accounts existed belong to no account; set ADOPT_UNOWNED_DATA_TO to the email that should own them.`);
+    return;
+  }
+  const adopted = OwnedCollection.adoptUnowned(owner.userId);
+  for (const [collection, count] of Object.entries(adopted)) console.log(`Gave ${count} unowned ${collection} records to ${owner.email}.`);
+}
+
+// Drops emails whose failures are all outside the window, then the oldest beyond the cap.
+function pruneFailedLogins(now: number) {
+  for (const [email, failures] of failedLogins) {
+    if (now - failures[failures.length - 1] >= FAILED_LOGIN_WINDOW_MS) failedLogins.delete(email);
+  }
+  for (const email of failedLogins.keys()) {
+    if (failedLogins.size <= MAX_TRACKED_EMAILS) break;
+    failedLogins.delete(email);
+  }
+}
+
+export async function authenticate(email: unknown, password: unknown): Promise<User> {
+  const normalized = normalizeEmail(email);
+  const now = Date.now();
+  pruneFailedLogins(now);
+  const recentFailures = (failedLogins.get(normalized) || []).filter(at => now - at < FAILED_LOGIN_WINDOW_MS);
+  if (recentFailures.length >= MAX_FAILED_LOGINS) throw new AuthError("Too many failed sign-in attempts. Try again later.", 429);
+
+  const record = users.all().find(u => u.email === normalized);
+  // Hash even for unknown emails so response times don't reveal which accounts exist
+  const valid = await verifyPassword(String(password || ''), record?.passwordHash || `scrypt:00:${'00'.repeat(64)}`);
+  if (!record || !valid) {
+    // Re-inserted so the map stays ordered by latest failure, oldest first
+    failedLogins.delete(normalized);
+    failedLogins.set(normalized, [...recentFailures, now]);
+    throw new AuthError("Invalid email or password.", 401);
+  }
+  failedLogins.delete(normalized);
+  return toUser(record);
+}
+
+// Returns the session token to hand to the browser.
+export function createSession(userId: string): string {
+  const token = crypto.randomBytes(32).toString('base64url');
+  const now = Date.now();
+  // Expired sessions are dropped whenever someone signs in
+  sessions.entries().filter(([, s]) => Date.parse(s.expiresAt) <= now).forEach(([id]) => sessions.delete(id));
+  sessions.set(hashToken(token), {
+    userId,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + SESSION_TTL_MS).toISOString()
+  });
+  return token;
+}
+
+export function deleteSession(token: string) {
+  sessions.delete(hashToken(token));
+}
+
+export function userForSession(token: string | undefined): User | undefined {
+  if (!token) return undefined;
+  const session = sessions.get(hashToken(token));
+  if (!session || Date.parse(session.expiresAt) <= Date.now()) return undefined;
+  return getUser(session.userId);
+}
+
+export function readSessionToken(req: any): string | undefined {
+  const cookies = String(req.headers.cookie || '').split(';').map(c => c.trim().split('='));
+  const match = cookies.find(([name]) => name === SESSION_COOKIE);
+  if (!match) return undefined;
+  // A malformed cookie is no session, not a server error
+  try {
+    return decodeURIComponent(match.slice(1).join('='));
+  } catch {
+    return undefined;
+  }
+}
+
+// Set-Cookie value for a new session, or for clearing it when `token` is empty.
+export function sessionCookie(token: string, secure: boolean): string {
+  const maxAge = token ? Math.floor(SESSION_TTL_MS / 1000) : 0;
+  return `${SESSION_COOKIE}=${encodeURIComponent(token)}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${maxAge}${secure ? '; Secure' : ''}`;
+}
+
+// Express middleware: sets req.user from the session cookie, or answers 401.
+export function requireAuth(req: any, res: any, next: () => void) {
+  const user = userForSession(readSessionToken(req));
+  if (!user) return res.status(401).json({ error: "Sign in to continue." });
+  req.user = user;
+  next();
+}
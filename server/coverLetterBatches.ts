@@ -0,0 +1,150 @@
+import { EventEmitter } from 'events';
+import JSZip from 'jszip';
+import { v4 as uuidv4 } from 'uuid';
+import { BatchEvent, CandidateProfile, CoverLetterBatch, CoverLetterBatchItem, CoverLetterOptions, ExportFormat, ExportTheme, Job } from '../types';
+import { LlmProvider } from './llm';
+import { generateCoverLetterDraft } from './coverLetters';
+import { buildLetterDocument, exportLetter } from './export';
+import { saveArtifact, signedDownloadUrl } from './artifacts';
+
+// Letters drafted and rendered at the same time within one batch.
+const BATCH_CONCURRENCY = parseInt(process.env.COVER_LETTER_BATCH_CONCURRENCY || '3');
+export const MAX_BATCH_SIZE = parseInt(process.env.COVER_LETTER_BATCH_MAX || '25');
+const BATCH_RETENTION_MS = parseInt(process.env.RUN_RETENTION_SECONDS || '3600') * 1000;
+
+const batches = new Map<string, CoverLetterBatch>();
+const events = new EventEmitter();
+events.setMaxListeners(0);
+
+export interface BatchSettings {
+  profile: CandidateProfile;
+  options: CoverLetterOptions;
+  format: ExportFormat;
+  theme: ExportTheme;
+  // Public origin for the zip's download link
+  baseUrl: string;
+}
+
+// Undefined unless the batch exists and belongs to `userId`.
+export function getBatch(userId: string, batchId: string): CoverLetterBatch | undefined {
+  const batch = batches.get(batchId);
+  return batch?.userId === userId ? batch : undefined;
+}
+
+export function isBatchFinished(batch: CoverLetterBatch): boolean {
+  return batch.status !== 'running';
+}
+
+export function subscribeToBatch(batchId: string, listener: (event: BatchEvent) => void): () => void {
+  events.on(batchId, listener);
+  return () => events.off(batchId, listener);
+}
+
+function emit(batch: CoverLetterBatch, event: BatchEvent) {
+  batch.updatedAt = new Date().toISOString();
+  events.emit(batch.batchId, event);
+}
+
+function updateItem(batch: CoverLetterBatch, item: CoverLetterBatchItem, changes: Partial<CoverLetterBatchItem>) {
+  Object.assign(item, changes);
+  emit(batch, { type: 'item', item });
+}
+
+// "Acme Corp" + "Senior Engineer" -> "01_Acme-Corp_Senior-Engineer"
+function fileStem(index: number, job: Job): string {
+  const slug = (value: string) => value.replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '').slice(0, 40);
+  return `${String(index + 1).padStart(2, '0')}_${slug(job.companyName)}_${slug(job.jobTitle)}`;
+}
+
+function toCsv(rows: (string | number | undefined)[][]): string {
+  const cell = (value: string | number | undefined) => {
+    const text = value === undefined ? '' : String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return rows.map(row => row.map(cell).join(',')).join('\r\n') + '\r\n';
+}
+
+async function forEachWithConcurrency<T>(items: T[], limit: number, worker: (item: T, index: number) => Promise<void>) {
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  });
+  await Promise.all(lanes);
+}
+
+// Starts a batch in the background and returns it immediately; follow it with subscribeToBatch.
+export function startCoverLetterBatch(llm: LlmProvider, userId: string, jobs: Job[], settings: BatchSettings): CoverLetterBatch {
+  const now = new Date().toISOString();
+  const batch: CoverLetterBatch = {
+    batchId: uuidv4(),
+    userId,
+    status: 'running',
+    items: jobs.map(job => ({ jobId: job.jobId, companyName: job.companyName, jobTitle: job.jobTitle, status: 'pending' })),
+    createdAt: now,
+    updatedAt: now
+  };
+  batches.set(batch.batchId, batch);
+
+  runBatch(llm, batch, jobs, settings)
+    .catch(error => {
+      console.error("Cover Letter Batch Error:", error);
+      batch.status = 'failed';
+      batch.error = error.message;
+      emit(batch, { type: 'failed', error: error.message });
+    })
+    .finally(() => setTimeout(() => batches.delete(batch.batchId), BATCH_RETENTION_MS).unref());
+
+  return batch;
+}
+
+// One failed letter doesn't fail the batch: it is listed in the index with its error instead.
+async function runBatch(llm: LlmProvider, batch: CoverLetterBatch, jobs: Job[], settings: BatchSettings) {
+  const zip = new JSZip();
+
+  await forEachWithConcurrency(jobs, BATCH_CONCURRENCY, async (job, index) => {
+    const item = batch.items[index];
+    try {
+      updateItem(batch, item, { status: 'drafting' });
+      const text = await generateCoverLetterDraft(llm, job, settings.profile, settings.options);
+
+      updateItem(batch, item, { status: 'rendering' });
+      const doc = buildLetterDocument(text, job, settings.profile.contact);
+      const file = await exportLetter(doc, settings.format, settings.theme);
+      const fileName = `${fileStem(index, job)}.${file.extension}`;
+      zip.file(fileName, file.buffer);
+
+      updateItem(batch, item, { status: 'done', fileName });
+    } catch (error: any) {
+      updateItem(batch, item, { status: 'failed', error: error.message });
+    }
+  });
+
+  if (batch.items.every(item => item.status === 'failed')) {
+    throw new Error(`No cover letters could be generated: ${batch.items[0]?.error || 'unknown error'}`);
+  }
+
+  zip.file('index.csv', toCsv([
+    ['company', 'title', 'score', 'apply_url', 'file', 'error'],
+    ...jobs.map((job, i) => [
+      job.companyName,
+      job.jobTitle,
+      job.score,
+      job.applyUrl || job.jobUrl,
+      batch.items[i].fileName,
+      batch.items[i].error
+    ])
+  ]));
+
+  const artifact = await saveArtifact(await zip.generateAsync({ type: 'nodebuffer' }), {
+    userId: batch.userId,
+    fileName: `cover_letters_${batch.createdAt.slice(0, 10)}.zip`,
+    mimeType: 'application/zip'
+  });
+
+  batch.status = 'done';
+  batch.zipUrl = signedDownloadUrl(artifact, settings.baseUrl);
+  emit(batch, { type: 'done', batch });
+}
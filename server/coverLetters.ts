@@ -0,0 +1,99 @@
+import { CandidateProfile, CoverLetterOptions, CoverLetterTemplates, Job } from '../types';
+import { LlmProvider } from './llm';
+import { describeCandidate } from './cvParser';
+import { UNTRUSTED_CONTENT_RULES, fenceUntrusted, untrustedLine } from './promptSafety';
+
+export const COVER_LETTER_TEMPLATES: CoverLetterTemplates = {
+  tones: [
+    { id: 'professional', label: 'Professional', instruction: 'Professional, concise and confident.' },
+    { id: 'enthusiastic', label: 'Enthusiastic', instruction: 'Warm and enthusiastic, showing genuine excitement about the company.' },
+    { id: 'formal', label: 'Formal', instruction: 'Formal and traditional, suitable for conservative industries.' },
+    { id: 'friendly', label: 'Friendly', instruction: 'Friendly and conversational while staying professional.' },
+    { id: 'direct', label: 'Direct', instruction: 'Direct and to the point, no filler or clichés.' }
+  ],
+  lengths: [
+    { id: 'short', label: 'Short (~150 words)', words: 150 },
+    { id: 'medium', label: 'Medium (~250 words)', words: 250 },
+    { id: 'long', label: 'Long (~400 words)', words: 400 }
+  ],
+  structures: [
+    {
+      id: 'classic',
+      label: 'Classic',
+      instruction: '1. Hook (why this company).\n2. Relevance (skills match).\n3. Call to Action.'
+    },
+    {
+      id: 'achievements',
+      label: 'Achievement-led',
+      instruction: '1. One-sentence opener naming the role.\n2. Two or three concrete achievements mapped to the job requirements.\n3. Short close with a call to action.'
+    },
+    {
+      id: 'story',
+      label: 'Story',
+      instruction: '1. A short anecdote from the applicant\'s experience that connects to the company\'s mission.\n2. How that experience fits the role.\n3. Call to Action.'
+    },
+    {
+      id: 'bullets',
+      label: 'Bullet points',
+      instruction: '1. Short opening paragraph.\n2. A bulleted list (lines starting with "- ") matching job requirements to the applicant\'s experience.\n3. Short closing paragraph.'
+    }
+  ],
+  languages: ['English', 'German', 'French', 'Spanish', 'Dutch', 'Italian', 'Portuguese']
+};
+
+export const DEFAULT_COVER_LETTER_OPTIONS: CoverLetterOptions = {
+  tone: 'professional',
+  length: 'medium',
+  structure: 'classic',
+  language: 'English'
+};
+
+// Fills defaults and rejects unknown template ids.
+export function resolveCoverLetterOptions(input: Partial<CoverLetterOptions> | undefined): CoverLetterOptions {
+  const options = { ...DEFAULT_COVER_LETTER_OPTIONS, ...input };
+  const { tones, lengths, structures, languages } = COVER_LETTER_TEMPLATES;
+  if (!tones.some(t => t.id === options.tone)) throw new Error(`Unknown tone: ${options.tone}`);
+  if (!lengths.some(l => l.id === options.length)) throw new Error(`Unknown length: ${options.length}`);
+  if (!structures.some(s => s.id === options.structure)) throw new Error(`Unknown structure: ${options.structure}`);
+  if (!languages.includes(options.language)) throw new Error(`Unsupported language: ${options.language}`);
+  return options;
+}
+
+const createCoverLetterPrompt = (job: Job, profile: CandidateProfile, options: CoverLetterOptions) => {
+  const { tones, lengths, structures } = COVER_LETTER_TEMPLATES;
+  const tone = tones.find(t => t.id === options.tone)!;
+  const length = lengths.find(l => l.id === options.length)!;
+  const structure = structures.find(s => s.id === options.structure)!;
+  const applicantName = profile.contact.name || 'The Applicant';
+
+  return `
+    Write a cover letter for the following job application, in ${options.language}.
+    ${UNTRUSTED_CONTENT_RULES}
+
+    JOB: ${untrustedLine('job_title', job.jobTitle)} at ${untrustedLine('company_name', job.companyName)}
+    JOB CONTEXT:
+    ${fenceUntrusted('job_description', job.description, 1500)}
+
+    APPLICANT:
+    ${describeCandidate(profile)}
+
+    Tone: ${tone.instruction} Max ${length.words} words.
+    Structure:
+    ${structure.instruction}
+
+    Start with the salutation and end with the sign-off "${applicantName}".
+    Do not include an address block, date or subject line; those are added separately.
+    Only mention experience listed above. Do not include placeholders like [Your Name].
+    Return plain text only, with paragraphs separated by blank lines.
+  `;
+};
+
+export async function generateCoverLetterDraft(
+  llm: LlmProvider,
+  job: Job,
+  profile: CandidateProfile,
+  options: CoverLetterOptions
+): Promise<string> {
+  const text = await llm.generateText('coverLetter', createCoverLetterPrompt(job, profile, options));
+  return text.trim();
+}
@@ -0,0 +1,97 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { ApifyCredential, ApifyCredentialInput } from '../types';
+import { DATA_DIR, OwnedCollection } from './storage';
+
+const DEFAULT_ACTOR = 'curious_coder~linkedin-jobs-scraper';
+const KEY_FILE = path.join(DATA_DIR, 'credentials.key');
+
+interface StoredCredential extends ApifyCredential {
+  userId?: string;
+  // AES-256-GCM, "<iv>.<auth tag>.<ciphertext>" in base64
+  encryptedToken: string;
+}
+
+const credentials = new OwnedCollection<StoredCredential>('credentials');
+
+let encryptionKey: Buffer | undefined;
+
+// CREDENTIALS_SECRET is read lazily so a value from .env is picked up. Without it a random key is
+// generated once and kept in data/credentials.key, which protects tokens only as well as that file.
+function getEncryptionKey(): Buffer {
+  if (!encryptionKey) {
+    const secret = process.env.CREDENTIALS_SECRET;
+    if (secret) {
+      encryptionKey = crypto.createHash('sha256').update(secret).digest();
+    } else {
+      if (!fs.existsSync(KEY_FILE)) {
+        console.warn(`CREDENTIALS_SECRET is not set; generating a key in ${KEY_FILE}.`);
+        fs.writeFileSync(KEY_FILE, crypto.randomBytes(32).toString('hex'), { mode: 0o600 });
+      }
+      encryptionKey = Buffer.from(fs.readFileSync(KEY_FILE, 'utf-8').trim(), 'hex');
+    }
+  }
+  return encryptionKey;
+}
+
+function encrypt(plaintext: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join('.');
+}
+
+function decrypt(encrypted: string): string {
+  const [iv, tag, ciphertext] = encrypted.split('.').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf-8');
+}
+
+const toPublic = ({ userId, encryptedToken, ...credential }: StoredCredential): ApifyCredential => credential;
+
+export function listCredentials(userId: string): ApifyCredential[] {
+  return credentials.allFor(userId).map(toPublic).sort((a, b) => a.label.localeCompare(b.label));
+}
+
+export function getCredential(userId: string, credentialId: string): ApifyCredential | undefined {
+  const stored = credentials.getFor(credentialId, userId);
+  return stored && toPublic(stored);
+}
+
+export function createCredential(userId: string, input: ApifyCredentialInput): ApifyCredential {
+  const label = String(input?.label || '').trim();
+  const token = String(input?.token || '').trim();
+  if (!label) throw new Error("Credential label is required.");
+  if (!token) throw new Error("Apify token is required.");
+
+  const stored: StoredCredential = {
+    credentialId: uuidv4(),
+    userId,
+    label,
+    actor: String(input.actor || '').trim() || DEFAULT_ACTOR,
+    tokenHint: token.slice(-4),
+    encryptedToken: encrypt(token),
+    createdAt: new Date().toISOString()
+  };
+  credentials.set(stored.credentialId, stored);
+  return toPublic(stored);
+}
+
+export function deleteCredential(userId: string, credentialId: string): boolean {
+  return !!credentials.getFor(credentialId, userId) && credentials.delete(credentialId);
+}
+
+// Decrypted token and actor for a run. Throws when the credential isn't the user's, or can no
+// longer be decrypted because the key changed.
+export function resolveCredential(userId: string, credentialId: string): { token: string; actor: string } {
+  const stored = credentials.getFor(credentialId, userId);
+  if (!stored) throw new Error("Saved Apify credential not found.");
+  try {
+    return { token: decrypt(stored.encryptedToken), actor: stored.actor };
+  } catch {
+    throw new Error(`The Apify credential "${stored.label}" can't be decrypted; the encryption key has changed. Save it again.`);
+  }
+}
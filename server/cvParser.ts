@@ -0,0 +1,232 @@
+import { CandidateProfile, SeniorityLevel } from '../types';
+import { JsonSchema, LlmProvider, UsageMeter, WorkQueue, generateCheckedJson } from './llm';
+import { CV_PROMPT_VERSION, profileCache } from './scoreCache';
+
+// Long CVs are parsed in chunks of roughly this many characters, split on paragraph breaks.
+const CHUNK_SIZE = parseInt(process.env.CV_CHUNK_CHARS || '8000');
+
+const SENIORITY_LEVELS: SeniorityLevel[] = ['intern', 'junior', 'mid', 'senior', 'lead', 'principal', 'executive'];
+
+const dateRange = {
+  startDate: { type: 'string', description: 'YYYY-MM or YYYY, empty if unknown' },
+  endDate: { type: 'string', description: 'YYYY-MM or YYYY, empty if current or unknown' }
+} as const;
+
+const CANDIDATE_PROFILE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    contact: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        email: { type: 'string' },
+        phone: { type: 'string' },
+        location: { type: 'string' },
+        linkedin: { type: 'string' },
+        website: { type: 'string' }
+      }
+    },
+    skills: { type: 'array', items: { type: 'string' } },
+    profileSummary: { type: 'string' },
+    experienceHighlights: { type: 'array', items: { type: 'string' } },
+    workHistory: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          employer: { type: 'string' },
+          location: { type: 'string' },
+          ...dateRange,
+          current: { type: 'boolean' },
+          bullets: { type: 'array', items: { type: 'string' } }
+        },
+        required: ['title', 'employer', 'bullets']
+      }
+    },
+    education: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          institution: { type: 'string' },
+          degree: { type: 'string' },
+          field: { type: 'string' },
+          ...dateRange
+        },
+        required: ['institution']
+      }
+    },
+    certifications: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { name: { type: 'string' }, issuer: { type: 'string' }, date: { type: 'string' } },
+        required: ['name']
+      }
+    },
+    languages: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { language: { type: 'string' }, proficiency: { type: 'string' } },
+        required: ['language']
+      }
+    },
+    totalYearsExperience: { type: 'number' },
+    seniority: { type: 'string', description: SENIORITY_LEVELS.join(' | ') }
+  },
+  required: ['contact', 'skills', 'profileSummary', 'experienceHighlights', 'workHistory', 'education', 'certifications', 'languages', 'totalYearsExperience', 'seniority']
+};
+
+const createCvPrompt = (cvText: string, part: number, parts: number) => `
+  Extract a structured candidate profile from this CV text.
+  ${parts > 1 ? `This is part ${part} of ${parts} of a long CV. Only extract what appears in this part; leave other fields empty.` : ''}
+
+  - contact: name, email, phone, location, LinkedIn URL and personal website, as written.
+  - skills: top technical/professional skills.
+  - profileSummary: a brief profile summary.
+  - experienceHighlights: three key experience highlights.
+  - workHistory: every position with title, employer, location, start/end dates and the original bullet points (do not rephrase).
+  - education, certifications and spoken languages (with proficiency if stated).
+  - totalYearsExperience: total years of professional experience.
+  - seniority: one of ${SENIORITY_LEVELS.join(', ')}.
+
+  Do not invent anything that is not in the text.
+
+  CV TEXT:
+  ${cvText}
+`;
+
+// Splits on blank lines, packing paragraphs into chunks of at most CHUNK_SIZE characters.
+// A single oversized paragraph is hard-split.
+export function chunkCvText(text: string, size: number = CHUNK_SIZE): string[] {
+  const chunks: string[] = [];
+  let current = '';
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    for (let i = 0; i < paragraph.length; i += size) {
+      const piece = paragraph.slice(i, i + size);
+      if (current && current.length + piece.length + 2 > size) {
+        chunks.push(current);
+        current = '';
+      }
+      current = current ? `${current}\n\n${piece}` : piece;
+    }
+  }
+  if (current.trim()) chunks.push(current);
+  return chunks.length ? chunks : [''];
+}
+
+function uniqueBy<T>(items: T[], key: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const k = key(item).toLowerCase().trim();
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
+
+function normalizeSeniority(value: string | undefined): SeniorityLevel {
+  const level = (value || '').toLowerCase().trim() as SeniorityLevel;
+  return SENIORITY_LEVELS.includes(level) ? level : 'mid';
+}
+
+const list = <T>(value: T[] | undefined): T[] => Array.isArray(value) ? value.filter(item => item !== null && item !== undefined) : [];
+
+const isRecord = (value: unknown): value is object => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Fills gaps the model, or a saved profile sent by the browser, may leave so downstream code
+// can rely on every field being present.
+export function normalizeProfile(raw: Partial<CandidateProfile>): CandidateProfile {
+  return {
+    contact: { name: '', ...(isRecord(raw.contact) ? raw.contact : {}) },
+    skills: list(raw.skills).map(String),
+    profileSummary: typeof raw.profileSummary === 'string' ? raw.profileSummary : '',
+    experienceHighlights: list(raw.experienceHighlights).map(String),
+    workHistory: list(raw.workHistory).filter(isRecord).map(w => ({ ...w, bullets: list(w.bullets).map(String) })),
+    education: list(raw.education).filter(isRecord),
+    certifications: list(raw.certifications).filter(isRecord),
+    languages: list(raw.languages).filter(isRecord),
+    totalYearsExperience: Number(raw.totalYearsExperience) || 0,
+    seniority: normalizeSeniority(raw.seniority)
+  };
+}
+
+// Combines per-chunk profiles: contact fields and summary come from the first chunk that has
+// them, lists are concatenated and de-duplicated, and experience takes the maximum.
+export function mergeProfiles(parts: CandidateProfile[]): CandidateProfile {
+  if (parts.length === 1) return parts[0];
+  const contact = parts.reduce(
+    (acc, p) => ({ ...Object.fromEntries(Object.entries(p.contact).filter(([, v]) => v)), ...acc }),
+    {} as CandidateProfile['contact']
+  );
+  const highestSeniority = parts
+    .map(p => p.seniority)
+    .reduce((a, b) => SENIORITY_LEVELS.indexOf(b) > SENIORITY_LEVELS.indexOf(a) ? b : a);
+
+  return {
+    contact: { name: '', ...contact },
+    skills: uniqueBy(parts.flatMap(p => p.skills), s => s),
+    profileSummary: parts.find(p => p.profileSummary)?.profileSummary || '',
+    experienceHighlights: uniqueBy(parts.flatMap(p => p.experienceHighlights), h => h).slice(0, 5),
+    workHistory: uniqueBy(parts.flatMap(p => p.workHistory), w => `${w.title}|${w.employer}|${w.startDate || ''}`),
+    education: uniqueBy(parts.flatMap(p => p.education), e => `${e.institution}|${e.degree || ''}`),
+    certifications: uniqueBy(parts.flatMap(p => p.certifications), c => c.name),
+    languages: uniqueBy(parts.flatMap(p => p.languages), l => l.language),
+    totalYearsExperience: Math.max(...parts.map(p => p.totalYearsExperience)),
+    seniority: highestSeniority
+  };
+}
+
+// Parses CV text into a full candidate profile. Results are cached by CV text, prompt version
+// and model: the profile feeds every score cache key, so the same CV must map to the same profile.
+// Chunks go through `queue` like every other model call, so a long CV keeps within its limits.
+export async function parseCv(llm: LlmProvider, cvText: string, queue: WorkQueue, usage?: UsageMeter, signal?: AbortSignal): Promise<CandidateProfile> {
+  const cacheKey = profileCache.key(cvText, CV_PROMPT_VERSION, llm.modelFor('cvParsing'));
+  const cached = profileCache.get(cacheKey);
+  if (cached) return cached;
+
+  const chunks = chunkCvText(cvText);
+  console.log(`Parsing CV with ${llm.name} (${chunks.length} chunk${chunks.length === 1 ? '' : 's'})...`);
+
+  const onUsage = usage?.forModel(llm.modelFor('cvParsing'));
+  const parts = await Promise.all(chunks.map(async (chunk, i) =>
+    normalizeProfile(await queue.run(
+      throttle => generateCheckedJson<Partial<CandidateProfile>>(
+        llm,
+        'cvParsing',
+        createCvPrompt(chunk, i + 1, chunks.length),
+        CANDIDATE_PROFILE_SCHEMA,
+        { signal, onUsage, beforeCall: throttle, onReask: () => usage?.recordRetry() }
+      ),
+      { signal, onRetry: () => usage?.recordRetry() }
+    ))
+  ));
+
+  const profile = mergeProfiles(parts);
+  profileCache.set(cacheKey, profile);
+  return profile;
+}
+
+// Compact plain-text rendering of a profile for prompts. Most recent roles come first.
+export function describeCandidate(profile: CandidateProfile, maxRoles = 4): string {
+  const roles = profile.workHistory.slice(0, maxRoles).map(w => {
+    const dates = [w.startDate, w.current ? 'present' : w.endDate].filter(Boolean).join(' - ');
+    const bullets = w.bullets.slice(0, 4).map(b => `      - ${b}`).join('\n');
+    return `    * ${w.title} at ${w.employer}${dates ? ` (${dates})` : ''}${bullets ? `\n${bullets}` : ''}`;
+  });
+  const education = profile.education.map(e => [e.degree, e.field, e.institution].filter(Boolean).join(', '));
+  const languages = profile.languages.map(l => l.proficiency ? `${l.language} (${l.proficiency})` : l.language);
+
+  return [
+    `SENIORITY: ${profile.seniority} (${profile.totalYearsExperience} years of experience)`,
+    profile.contact.location && `LOCATION: ${profile.contact.location}`,
+    `SKILLS: ${profile.skills.join(', ')}`,
+    `SUMMARY: ${profile.profileSummary}`,
+    roles.length > 0 && `RECENT ROLES:\n${roles.join('\n')}`,
+    education.length > 0 && `EDUCATION: ${education.join('; ')}`,
+    profile.certifications.length > 0 && `CERTIFICATIONS: ${profile.certifications.map(c => c.name).join(', ')}`,
+    languages.length > 0 && `LANGUAGES: ${languages.join(', ')}`
+  ].filter(Boolean).join('\n    ');
+}
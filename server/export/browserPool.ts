@@ -0,0 +1,114 @@
+import puppeteer, { Browser, Page } from 'puppeteer';
+
+const MAX_PAGES = parseInt(process.env.PDF_CONCURRENCY || '2');
+const MAX_QUEUE = parseInt(process.env.PDF_QUEUE_LIMIT || '50');
+const RENDER_TIMEOUT_MS = parseInt(process.env.PDF_RENDER_TIMEOUT_SECONDS || '30') * 1000;
+
+interface Waiter {
+  resolve: (page: Page) => void;
+  reject: (error: Error) => void;
+}
+
+// One shared Chromium with at most MAX_PAGES tabs rendering at once. Further renders wait in a
+// FIFO queue of at most MAX_QUEUE entries. Idle tabs are reused. If the browser crashes, in-flight
+// renders fail and the next one launches a fresh browser.
+class BrowserPool {
+  private browser: Promise<Browser> | null = null;
+  private readonly idlePages: Page[] = [];
+  private readonly queue: Waiter[] = [];
+  private activePages = 0;
+  private closing = false;
+
+  private getBrowser(): Promise<Browser> {
+    if (!this.browser) {
+      const launching = puppeteer.launch({ headless: true, args: ['--no-sandbox'] });
+      this.browser = launching;
+      launching.then(
+        browser => browser.on('disconnected', () => {
+          if (this.browser !== launching) return;
+          if (!this.closing) console.warn('PDF browser disconnected; it will be relaunched on the next render.');
+          this.browser = null;
+          this.idlePages.length = 0;
+        }),
+        () => {
+          if (this.browser === launching) this.browser = null;
+        }
+      );
+    }
+    return this.browser;
+  }
+
+  private async openPage(): Promise<Page> {
+    const idle = this.idlePages.pop();
+    if (idle && !idle.isClosed()) return idle;
+    const page = await (await this.getBrowser()).newPage();
+    // Documents are static markup; nothing rendered here ever needs to run script
+    await page.setJavaScriptEnabled(false);
+    return page;
+  }
+
+  private acquire(): Promise<Page> {
+    if (this.closing) return Promise.reject(new Error('PDF renderer is shutting down.'));
+    if (this.activePages < MAX_PAGES) {
+      this.activePages++;
+      return this.openPage().catch(error => {
+        this.release(null);
+        throw error;
+      });
+    }
+    if (this.queue.length >= MAX_QUEUE) {
+      return Promise.reject(new Error('Too many documents are being rendered. Please try again shortly.'));
+    }
+    return new Promise((resolve, reject) => this.queue.push({ resolve, reject }));
+  }
+
+  // Hands the slot to the next waiter, or frees it. A page that failed is closed rather than reused.
+  private release(page: Page | null) {
+    if (page && !page.isClosed() && !this.closing) this.idlePages.push(page);
+    else if (page && !page.isClosed()) page.close().catch(() => {});
+
+    const next = this.queue.shift();
+    if (next) {
+      this.openPage().then(next.resolve, error => {
+        next.reject(error);
+        this.release(null);
+      });
+    } else {
+      this.activePages--;
+    }
+  }
+
+  async withPage<T>(task: (page: Page) => Promise<T>): Promise<T> {
+    const page = await this.acquire();
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error('PDF rendering timed out.')), RENDER_TIMEOUT_MS);
+      });
+      const result = await Promise.race([task(page), timeout]);
+      this.release(page);
+      return result;
+    } catch (error) {
+      await page.close().catch(() => {});
+      this.release(null);
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // Rejects queued renders, waits briefly for active ones and closes the browser.
+  async close(graceMs = 10000) {
+    this.closing = true;
+    for (const waiter of this.queue.splice(0)) waiter.reject(new Error('PDF renderer is shutting down.'));
+    const deadline = Date.now() + graceMs;
+    while (this.activePages > 0 && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    const browser = this.browser;
+    this.browser = null;
+    if (browser) await browser.then(b => b.close(), () => {});
+  }
+}
+
+export const browserPool = new BrowserPool();
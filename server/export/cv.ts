@@ -0,0 +1,87 @@
+import { CandidateProfile, ExportTheme, WorkExperience } from '../../types';
+import { htmlToPdf } from './pdf';
+import { escapeHtml } from './escape';
+
+const dateRange = (w: Pick<WorkExperience, 'startDate' | 'endDate' | 'current'>) =>
+  [w.startDate, w.current ? 'Present' : w.endDate].filter(Boolean).join(' – ');
+
+const contactItems = (profile: CandidateProfile) =>
+  [profile.contact.email, profile.contact.phone, profile.contact.location, profile.contact.linkedin, profile.contact.website]
+    .filter(Boolean) as string[];
+
+// Plain-text CV, one fact per line so line diffs stay readable.
+export function renderCvText(profile: CandidateProfile): string {
+  const lines: string[] = [];
+  if (profile.contact.name) lines.push(profile.contact.name);
+  lines.push(...contactItems(profile), '', 'SUMMARY', profile.profileSummary, '', 'SKILLS', profile.skills.join(', '));
+
+  if (profile.workHistory.length > 0) {
+    lines.push('', 'EXPERIENCE');
+    for (const w of profile.workHistory) {
+      const dates = dateRange(w);
+      lines.push('', `${w.title}, ${w.employer}${dates ? ` (${dates})` : ''}`);
+      lines.push(...w.bullets.map(b => `- ${b}`));
+    }
+  }
+  if (profile.education.length > 0) {
+    lines.push('', 'EDUCATION');
+    lines.push(...profile.education.map(e => [e.degree, e.field, e.institution, dateRange(e)].filter(Boolean).join(', ')));
+  }
+  if (profile.certifications.length > 0) {
+    lines.push('', 'CERTIFICATIONS');
+    lines.push(...profile.certifications.map(c => [c.name, c.issuer, c.date].filter(Boolean).join(', ')));
+  }
+  if (profile.languages.length > 0) {
+    lines.push('', 'LANGUAGES');
+    lines.push(profile.languages.map(l => l.proficiency ? `${l.language} (${l.proficiency})` : l.language).join(', '));
+  }
+  return lines.join('\n');
+}
+
+export function renderCvHtml(profile: CandidateProfile, theme: ExportTheme): string {
+  const section = (title: string, body: string) => body ? `<h2>${title}</h2>${body}` : '';
+
+  const experience = profile.workHistory.map(w => `
+    <div class="role">
+      <div class="role-head"><strong>${escapeHtml(w.title)}</strong>, ${escapeHtml(w.employer)}<span>${escapeHtml(dateRange(w))}</span></div>
+      <ul>${w.bullets.map(b => `<li>${escapeHtml(b)}</li>`).join('')}</ul>
+    </div>`).join('');
+  const education = profile.education
+    .map(e => `<p>${escapeHtml([e.degree, e.field].filter(Boolean).join(', '))}${e.degree || e.field ? ' – ' : ''}${escapeHtml(e.institution)}<span>${escapeHtml(dateRange(e))}</span></p>`)
+    .join('');
+  const certifications = profile.certifications
+    .map(c => `<p>${escapeHtml([c.name, c.issuer].filter(Boolean).join(', '))}<span>${escapeHtml(c.date)}</span></p>`)
+    .join('');
+  const languages = profile.languages.map(l => l.proficiency ? `${l.language} (${l.proficiency})` : l.language).join(', ');
+
+  return `
+    <html>
+      <head>
+        <meta charset="utf-8" />
+        <style>
+          body { font-family: ${theme.fontFamily}; line-height: 1.5; padding: 36px; color: #${theme.textColor}; font-size: 13px; }
+          h1 { font-size: 24px; margin: 0; color: #${theme.accentColor}; }
+          h2 { font-size: 14px; text-transform: uppercase; letter-spacing: 0.05em; color: #${theme.accentColor}; margin: 22px 0 8px; ${theme.headerRule ? `border-bottom: 1px solid #${theme.accentColor};` : ''} }
+          p { margin: 0 0 6px; }
+          ul { margin: 4px 0 12px; padding-left: 18px; }
+          span { float: right; color: #${theme.mutedColor}; }
+          .contact { font-size: 12px; color: #${theme.mutedColor}; }
+        </style>
+      </head>
+      <body>
+        ${profile.contact.name ? `<h1>${escapeHtml(profile.contact.name)}</h1>` : ''}
+        <div class="contact">${contactItems(profile).map(escapeHtml).join(' &middot; ')}</div>
+        ${section('Summary', profile.profileSummary ? `<p>${escapeHtml(profile.profileSummary)}</p>` : '')}
+        ${section('Skills', profile.skills.length ? `<p>${profile.skills.map(escapeHtml).join(' &middot; ')}</p>` : '')}
+        ${section('Experience', experience)}
+        ${section('Education', education)}
+        ${section('Certifications', certifications)}
+        ${section('Languages', languages ? `<p>${escapeHtml(languages)}</p>` : '')}
+      </body>
+    </html>
+  `;
+}
+
+export function renderCvPdf(profile: CandidateProfile, theme: ExportTheme): Promise<Buffer> {
+  return htmlToPdf(renderCvHtml(profile, theme));
+}
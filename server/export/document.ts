@@ -0,0 +1,41 @@
+import { ContactDetails, Job } from '../../types';
+
+export type LetterBlock =
+  | { type: 'paragraph'; lines: string[] }
+  | { type: 'list'; items: string[] };
+
+// Format-independent cover letter. Every exporter renders from this model.
+export interface LetterDocument {
+  letterhead: { name: string; contactItems: string[] };
+  date: string;
+  subject: string;
+  recipient: string;
+  blocks: LetterBlock[];
+}
+
+// Parses the plain-text letter: blank lines separate blocks, and a block made only of
+// "- " lines becomes a bulleted list.
+export function parseLetterBlocks(text: string): LetterBlock[] {
+  return text
+    .split(/\n\s*\n/)
+    .map(block => block.split('\n').map(l => l.trim()).filter(Boolean))
+    .filter(lines => lines.length > 0)
+    .map((lines): LetterBlock =>
+      lines.every(l => l.startsWith('- '))
+        ? { type: 'list', items: lines.map(l => l.slice(2)) }
+        : { type: 'paragraph', lines }
+    );
+}
+
+export function buildLetterDocument(text: string, job: Job, contact: ContactDetails): LetterDocument {
+  return {
+    letterhead: {
+      name: contact.name || '',
+      contactItems: [contact.email, contact.phone, contact.location, contact.linkedin, contact.website].filter(Boolean) as string[]
+    },
+    date: new Date().toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' }),
+    subject: `Application for ${job.jobTitle}`,
+    recipient: job.companyName,
+    blocks: parseLetterBlocks(text)
+  };
+}
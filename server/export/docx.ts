@@ -0,0 +1,43 @@
+import { AlignmentType, BorderStyle, Document, Packer, Paragraph, TextRun } from 'docx';
+import { ExportTheme } from '../../types';
+import { LetterDocument } from './document';
+
+// Sizes are in half-points, spacing in twentieths of a point.
+export async function renderLetterDocx(doc: LetterDocument, theme: ExportTheme): Promise<Buffer> {
+  const run = (text: string, options: { bold?: boolean; size?: number; color?: string; break?: number } = {}) =>
+    new TextRun({ text, font: theme.docxFont, size: options.size ?? 22, color: options.color ?? theme.textColor, bold: options.bold, break: options.break });
+
+  const letterhead: Paragraph[] = [];
+  if (doc.letterhead.name) {
+    letterhead.push(new Paragraph({ children: [run(doc.letterhead.name, { bold: true, size: 36, color: theme.accentColor })] }));
+  }
+  letterhead.push(new Paragraph({
+    children: [run(doc.letterhead.contactItems.join('  ·  '), { size: 18, color: theme.mutedColor })],
+    spacing: { after: 400 },
+    border: theme.headerRule
+      ? { bottom: { style: BorderStyle.SINGLE, size: 12, color: theme.accentColor, space: 8 } }
+      : undefined
+  }));
+
+  const meta = [
+    new Paragraph({ children: [run(doc.date)], spacing: { after: 240 } }),
+    new Paragraph({ children: [run(doc.subject, { bold: true }), run(doc.recipient, { break: 1 })], spacing: { after: 400 } })
+  ];
+
+  const body = doc.blocks.flatMap(block => block.type === 'list'
+    ? block.items.map(item => new Paragraph({ children: [run(item)], bullet: { level: 0 }, spacing: { after: 80 } }))
+    : [new Paragraph({
+        children: block.lines.map((line, i) => run(line, { break: i > 0 ? 1 : undefined })),
+        spacing: { after: 240, line: 300 },
+        alignment: AlignmentType.LEFT
+      })]
+  );
+
+  const document = new Document({
+    sections: [{
+      properties: { page: { margin: { top: 1134, bottom: 1134, left: 1134, right: 1134 } } },
+      children: [...letterhead, ...meta, ...body]
+    }]
+  });
+  return Packer.toBuffer(document);
+}
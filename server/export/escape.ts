@@ -0,0 +1,7 @@
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+// Every piece of text that reaches puppeteer's HTML comes from a scraped posting, the user's CV or
+// the model, so all of it goes through here before interpolation.
+export function escapeHtml(value: string | number | null | undefined): string {
+  return String(value ?? '').replace(/[&<>"']/g, ch => HTML_ESCAPES[ch]);
+}
@@ -0,0 +1,39 @@
+import { ExportTheme } from '../../types';
+import { LetterDocument } from './document';
+import { escapeHtml } from './escape';
+
+export function renderLetterHtml(doc: LetterDocument, theme: ExportTheme): string {
+  const body = doc.blocks
+    .map(block => block.type === 'list'
+      ? `<ul>${block.items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`
+      : `<p>${block.lines.map(escapeHtml).join('<br/>')}</p>`)
+    .join('');
+
+  return `
+    <html>
+      <head>
+        <meta charset="utf-8" />
+        <style>
+          body { font-family: ${theme.fontFamily}; line-height: 1.6; padding: 40px; color: #${theme.textColor}; }
+          h1 { font-size: 22px; margin: 0; color: #${theme.accentColor}; }
+          p { margin-bottom: 15px; }
+          .letterhead { margin-bottom: 30px; padding-bottom: 16px; ${theme.headerRule ? `border-bottom: 2px solid #${theme.accentColor};` : ''} }
+          .contact { font-size: 12px; color: #${theme.mutedColor}; }
+          .meta { margin-bottom: 30px; font-size: 14px; }
+        </style>
+      </head>
+      <body>
+        <div class="letterhead">
+          ${doc.letterhead.name ? `<h1>${escapeHtml(doc.letterhead.name)}</h1>` : ''}
+          <div class="contact">${doc.letterhead.contactItems.map(escapeHtml).join(' &middot; ')}</div>
+        </div>
+        <div class="meta">
+          ${escapeHtml(doc.date)}<br/><br/>
+          <strong>${escapeHtml(doc.subject)}</strong><br/>
+          ${escapeHtml(doc.recipient)}
+        </div>
+        ${body}
+      </body>
+    </html>
+  `;
+}
@@ -0,0 +1,51 @@
+import { ExportFormat, ExportTheme } from '../../types';
+import { LetterDocument } from './document';
+import { renderLetterPdf } from './pdf';
+import { renderLetterDocx } from './docx';
+import { renderLetterMarkdown, renderLetterText } from './text';
+
+export { buildLetterDocument } from './document';
+export type { LetterDocument } from './document';
+export { EXPORT_THEMES, getTheme } from './themes';
+export { renderCvPdf, renderCvText } from './cv';
+export { browserPool } from './browserPool';
+
+export interface ExportedFile {
+  buffer: Buffer;
+  extension: string;
+  mimeType: string;
+}
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { id: 'pdf', label: 'PDF', extension: 'pdf', mimeType: 'application/pdf' },
+  { id: 'docx', label: 'Word (DOCX)', extension: 'docx', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' },
+  { id: 'md', label: 'Markdown', extension: 'md', mimeType: 'text/markdown; charset=utf-8' },
+  { id: 'txt', label: 'Plain text', extension: 'txt', mimeType: 'text/plain; charset=utf-8' }
+];
+
+export function getExportFormat(id: string | undefined) {
+  const format = EXPORT_FORMATS.find(f => f.id === (id || 'pdf'));
+  if (!format) throw new Error(`Unsupported export format: ${id}`);
+  return format;
+}
+
+// Renders a letter in the requested format. Themes apply to PDF and DOCX only.
+export async function exportLetter(doc: LetterDocument, formatId: ExportFormat, theme: ExportTheme): Promise<ExportedFile> {
+  const format = getExportFormat(formatId);
+  let buffer: Buffer;
+  switch (format.id) {
+    case 'pdf':
+      buffer = await renderLetterPdf(doc, theme);
+      break;
+    case 'docx':
+      buffer = await renderLetterDocx(doc, theme);
+      break;
+    case 'md':
+      buffer = Buffer.from(renderLetterMarkdown(doc), 'utf-8');
+      break;
+    case 'txt':
+      buffer = Buffer.from(renderLetterText(doc), 'utf-8');
+      break;
+  }
+  return { buffer, extension: format.extension, mimeType: format.mimeType };
+}
@@ -0,0 +1,15 @@
+import { ExportTheme } from '../../types';
+import { browserPool } from './browserPool';
+import { LetterDocument } from './document';
+import { renderLetterHtml } from './html';
+
+export function htmlToPdf(html: string): Promise<Buffer> {
+  return browserPool.withPage(async page => {
+    await page.setContent(html);
+    return Buffer.from(await page.pdf({ format: 'A4' }));
+  });
+}
+
+export function renderLetterPdf(doc: LetterDocument, theme: ExportTheme): Promise<Buffer> {
+  return htmlToPdf(renderLetterHtml(doc, theme));
+}
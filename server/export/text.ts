@@ -0,0 +1,31 @@
+import { LetterDocument } from './document';
+
+export function renderLetterMarkdown(doc: LetterDocument): string {
+  const header = [
+    doc.letterhead.name && `# ${doc.letterhead.name}`,
+    doc.letterhead.contactItems.length > 0 && doc.letterhead.contactItems.join(' · '),
+    '---',
+    doc.date,
+    `**${doc.subject}**  \n${doc.recipient}`
+  ].filter(Boolean);
+
+  const body = doc.blocks.map(block => block.type === 'list'
+    ? block.items.map(item => `- ${item}`).join('\n')
+    : block.lines.join('  \n'));
+
+  return [...header, ...body].join('\n\n') + '\n';
+}
+
+export function renderLetterText(doc: LetterDocument): string {
+  const header = [
+    [doc.letterhead.name, ...doc.letterhead.contactItems].filter(Boolean).join('\n'),
+    doc.date,
+    `${doc.subject}\n${doc.recipient}`
+  ].filter(Boolean);
+
+  const body = doc.blocks.map(block => block.type === 'list'
+    ? block.items.map(item => `- ${item}`).join('\n')
+    : block.lines.join('\n'));
+
+  return [...header, ...body].join('\n\n') + '\n';
+}
@@ -0,0 +1,51 @@
+import { ExportTheme, ExportThemeId } from '../../types';
+
+// Visual themes shared by the HTML/PDF and DOCX renderers. Colours are hex without '#'.
+export const EXPORT_THEMES: Record<ExportThemeId, ExportTheme> = {
+  classic: {
+    id: 'classic',
+    label: 'Classic',
+    fontFamily: 'Helvetica, Arial, sans-serif',
+    docxFont: 'Arial',
+    textColor: '333333',
+    accentColor: '333333',
+    mutedColor: '666666',
+    headerRule: true
+  },
+  modern: {
+    id: 'modern',
+    label: 'Modern',
+    fontFamily: '"Segoe UI", Roboto, Helvetica, Arial, sans-serif',
+    docxFont: 'Calibri',
+    textColor: '1f2937',
+    accentColor: '2563eb',
+    mutedColor: '6b7280',
+    headerRule: true
+  },
+  serif: {
+    id: 'serif',
+    label: 'Serif',
+    fontFamily: 'Georgia, "Times New Roman", serif',
+    docxFont: 'Georgia',
+    textColor: '222222',
+    accentColor: '7c2d12',
+    mutedColor: '555555',
+    headerRule: false
+  },
+  minimal: {
+    id: 'minimal',
+    label: 'Minimal',
+    fontFamily: '"Helvetica Neue", Helvetica, Arial, sans-serif',
+    docxFont: 'Helvetica',
+    textColor: '111111',
+    accentColor: '111111',
+    mutedColor: '888888',
+    headerRule: false
+  }
+};
+
+export function getTheme(id: string | undefined): ExportTheme {
+  const theme = EXPORT_THEMES[(id || 'classic') as ExportThemeId];
+  if (!theme) throw new Error(`Unknown theme: ${id}`);
+  return theme;
+}
@@ -0,0 +1,45 @@
+import fs from 'fs';
+import { CvFileType, CvUpload } from '../uploads';
+import { extractLinkedInExport } from './linkedin';
+import { extractHtml, extractMarkdown } from './markup';
+import { extractDocx, extractOdt } from './office';
+import { extractPdf } from './pdf';
+import { assertReadableText } from './quality';
+import { extractRtf } from './rtf';
+
+// Turns one file format into plain text: paragraphs on their own lines, list items as "- " bullets.
+type Extractor = (buffer: Buffer) => Promise<string>;
+
+const EXTRACTORS: Record<CvFileType, Extractor> = {
+  pdf: extractPdf,
+  docx: extractDocx,
+  odt: extractOdt,
+  rtf: extractRtf,
+  html: extractHtml,
+  markdown: extractMarkdown,
+  text: async buffer => buffer.toString('utf-8'),
+  'linkedin-export': extractLinkedInExport
+};
+
+function normalizeText(text: string): string {
+  return text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\u00A0]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Reads an upload (already checked by sniffCvFile) into plain text for the CV parser. Throws when
+// the file can't be read, or yields too little text to build a profile from.
+export async function extractCvText(upload: CvUpload): Promise<string> {
+  let text: string;
+  try {
+    text = normalizeText(await EXTRACTORS[upload.type](fs.readFileSync(upload.path)));
+  } catch (error) {
+    console.error(`Text extraction failed (${upload.type}):`, error);
+    throw new Error("Failed to parse CV file.");
+  }
+  assertReadableText(text, upload.type);
+  return text;
+}
@@ -0,0 +1,65 @@
+import JSZip from 'jszip';
+import { parseCsv } from '../jobSources/shared';
+import { loadZip } from './zip';
+
+type Row = Record<string, string>;
+
+async function readCsv(zip: JSZip, name: string): Promise<Row[]> {
+  const file = zip.file(new RegExp(`(^|/)${name}\\.csv$`, 'i'))[0];
+  if (!file) return [];
+  return parseCsv((await file.async('string')).replace(/^\uFEFF/, ''));
+}
+
+const span = (start?: string, end?: string) => start ? `${start} – ${end || 'Present'}` : end || '';
+
+const joined = (...parts: (string | undefined)[]) => parts.filter(Boolean).join(', ');
+
+// LinkedIn's data export splits the profile into one CSV per section. This lays them out like a
+// plain-text CV so the parser sees the same shape as any other upload.
+export async function extractLinkedInExport(buffer: Buffer): Promise<string> {
+  const zip = await loadZip(buffer);
+  const [profile] = await readCsv(zip, 'Profile');
+  const emails = await readCsv(zip, 'Email Addresses');
+  const positions = await readCsv(zip, 'Positions');
+  const education = await readCsv(zip, 'Education');
+  const skills = await readCsv(zip, 'Skills');
+  const certifications = await readCsv(zip, 'Certifications');
+  const languages = await readCsv(zip, 'Languages');
+
+  const lines: string[] = [];
+  const section = (title: string, body: string[]) => {
+    if (body.length > 0) lines.push('', title, ...body);
+  };
+
+  if (profile) {
+    lines.push([profile['First Name'], profile['Last Name']].filter(Boolean).join(' '));
+    const email = (emails.find(e => e['Primary'] === 'Yes') || emails[0])?.['Email Address'];
+    lines.push(...[profile['Headline'], profile['Geo Location'], email, profile['Websites']].filter(Boolean));
+    section('SUMMARY', profile['Summary'] ? [profile['Summary']] : []);
+  }
+  section('EXPERIENCE', positions.flatMap(p => [
+    '',
+    `${joined(p['Title'], p['Company Name'], p['Location'])} (${span(p['Started On'], p['Finished On'])})`,
+    ...(p['Description'] ? [p['Description']] : [])
+  ]));
+  section('EDUCATION', education.map(e =>
+    joined(e['Degree Name'], e['School Name'], span(e['Start Date'], e['End Date']), e['Notes'])));
+  section('SKILLS', skills.length > 0 ? [skills.map(s => s['Name']).filter(Boolean).join(', ')] : []);
+  section('CERTIFICATIONS', certifications.map(c => joined(c['Name'], c['Authority'], c['Started On'])));
+  section('LANGUAGES', languages.map(l => l['Proficiency'] ? `${l['Name']} (${l['Proficiency']})` : l['Name']));
+  return lines.join('\n');
+}
+
+// LinkedIn's "Save to PDF" profile, recognisable by its page footers and profile link.
+export function isLinkedInPdf(text: string): boolean {
+  return /^\s*Page 1 of \d+\s*$/m.test(text) && /linkedin\.com\/in\//i.test(text);
+}
+
+// Drops the page footers and link labels ("(LinkedIn)", "(Personal)") the PDF layout scatters
+// through the text, and rejoins the profile URL when it wraps onto a second line.
+export function cleanLinkedInPdfText(text: string): string {
+  return text
+    .replace(/^\s*Page \d+ of \d+\s*$/gm, '')
+    .replace(/(linkedin\.com\/in\/\S*-)\n(\S+)/gi, '$1$2')
+    .replace(/^(\S+\.\S+)\s+\((LinkedIn|Personal|Company|Portfolio|Blog|Other)\)\s*$/gm, '$1');
+}
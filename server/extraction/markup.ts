@@ -0,0 +1,29 @@
+import { htmlToText } from '../jobSources/shared';
+
+export async function extractHtml(buffer: Buffer): Promise<string> {
+  const html = buffer.toString('utf-8');
+  // Only the body: <title> and <meta> text would otherwise end up in the CV
+  const body = /<body[^>]*>([\s\S]*)<\/body>/i.exec(html)?.[1] ?? html.replace(/<head[^>]*>[\s\S]*?<\/head>/i, '');
+  return htmlToText(body.replace(/<\/(tr|table|section|article|header|footer)>/gi, '</div>'));
+}
+
+// Strips Markdown syntax but keeps the structure the CV parser relies on: one line per heading,
+// "- " bullets and link targets (portfolio and profile URLs matter).
+export function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/^\s*```.*$/gm, '')
+    .replace(/^\s{0,3}([-*_])(\s*\1){2,}\s*$/gm, '')
+    .replace(/^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/gm, '$1')
+    .replace(/^\s{0,3}>\s?/gm, '')
+    .replace(/^(\s*)[-*+]\s+(\[[ xX]\]\s+)?/gm, '$1- ')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\(([^)\s]+)[^)]*\)/g, (_, text: string, url: string) => text === url ? url : `${text} (${url})`)
+    .replace(/<((?:https?:|mailto:)[^>\s]+)>/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(^|[^\w*])[*_]([^*_\n]+)[*_](?![\w*])/g, '$1$2')
+    .replace(/`([^`\n]+)`/g, '$1');
+}
+
+export async function extractMarkdown(buffer: Buffer): Promise<string> {
+  return markdownToText(buffer.toString('utf-8'));
+}
@@ -0,0 +1,77 @@
+import fs from 'fs';
+import path from 'path';
+import Tesseract from 'tesseract.js';
+
+const OCR_ENABLED = process.env.OCR_ENABLED !== 'false';
+// tesseract language codes joined with "+", e.g. "eng+deu"
+const OCR_LANGUAGES = process.env.OCR_LANGUAGES || 'eng';
+const OCR_MAX_PAGES = parseInt(process.env.OCR_MAX_PAGES || '10');
+// Local directory holding the .traineddata (or .traineddata.gz) files. CVs never leave the
+// server, so nothing is downloaded: without this directory, OCR is skipped.
+const OCR_LANG_PATH = process.env.OCR_LANG_PATH;
+
+// Narrower images are logos and icons, not scanned pages.
+const MIN_PAGE_WIDTH = 500;
+
+// Scanned PDFs almost always store each page as one JPEG. Rather than render pages, this pulls
+// those JPEG streams straight out of the file; pages stored in other encodings are not found.
+export function findPageImages(pdf: Buffer): Buffer[] {
+  const text = pdf.toString('latin1');
+  const images: Buffer[] = [];
+  const streamStart = /(?<!end)stream\r?\n/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = streamStart.exec(text)) && images.length < OCR_MAX_PAGES) {
+    const dict = text.slice(text.lastIndexOf('obj', match.index), match.index);
+    if (!/\/Subtype\s*\/Image/.test(dict) || !/\/Filter\s*(\/DCTDecode|\[\s*\/DCTDecode\s*\])/.test(dict)) continue;
+    if (Number(/\/Width\s+(\d+)/.exec(dict)?.[1] || 0) < MIN_PAGE_WIDTH) continue;
+
+    const start = match.index + match[0].length;
+    const end = text.indexOf('endstream', start);
+    if (end < 0) break;
+    images.push(pdf.subarray(start, end));
+    streamStart.lastIndex = end;
+  }
+  return images;
+}
+
+// The language data directory, or undefined (with the reason logged) when OCR can't run locally.
+function localLangPath(): string | undefined {
+  if (!OCR_LANG_PATH) {
+    console.warn("Skipping OCR: set OCR_LANG_PATH to a directory with tesseract .traineddata files to read scanned CVs.");
+    return undefined;
+  }
+  const dir = path.resolve(OCR_LANG_PATH);
+  const missing = OCR_LANGUAGES.split('+').filter(lang =>
+    !fs.existsSync(path.join(dir, `${lang}.traineddata`)) && !fs.existsSync(path.join(dir, `${lang}.traineddata.gz`)));
+  if (missing.length > 0) {
+    console.warn(`Skipping OCR: no language data for ${missing.join(', ')} in ${dir}.`);
+    return undefined;
+  }
+  return dir;
+}
+
+// Returns the recognised text of a scanned PDF's pages, or '' when OCR is off or no page images were found.
+export async function ocrPdf(pdf: Buffer): Promise<string> {
+  if (!OCR_ENABLED) return '';
+  const images = findPageImages(pdf);
+  if (images.length === 0) return '';
+  const langPath = localLangPath();
+  if (!langPath) return '';
+
+  console.log(`Running OCR on ${images.length} page image(s)...`);
+  const [firstLanguage] = OCR_LANGUAGES.split('+');
+  const worker = await Tesseract.createWorker(OCR_LANGUAGES, Tesseract.OEM.LSTM_ONLY, {
+    langPath,
+    // tesseract.js reads "<lang>.traineddata.gz" when gzip is on, plain files otherwise
+    gzip: !fs.existsSync(path.join(langPath, `${firstLanguage}.traineddata`)),
+    cacheMethod: 'none'
+  });
+  try {
+    const pages: string[] = [];
+    for (const image of images) pages.push((await worker.recognize(image)).data.text);
+    return pages.join('\n\n');
+  } finally {
+    await worker.terminate();
+  }
+}
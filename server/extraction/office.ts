@@ -0,0 +1,30 @@
+import * as mammoth from 'mammoth';
+import { decodeEntities } from '../jobSources/shared';
+import { loadZip, repackZip } from './zip';
+
+// mammoth unzips the document with its own JSZip, so it only sees the archive once it has been
+// inflated under the size cap.
+export async function extractDocx(buffer: Buffer): Promise<string> {
+  return (await mammoth.extractRawText({ buffer: await repackZip(buffer) })).value;
+}
+
+// OpenDocument text keeps its body in content.xml. Paragraphs and headings become lines,
+// list items "- " bullets and table cells tab-separated columns.
+export async function extractOdt(buffer: Buffer): Promise<string> {
+  const zip = await loadZip(buffer);
+  const xml = await zip.file('content.xml')?.async('string');
+  if (!xml) throw new Error("OpenDocument file has no content.xml");
+
+  const body = xml.replace(/^[\s\S]*?<office:body>/, '');
+  return decodeEntities(
+    body
+      .replace(/<text:tab\s*\/>/g, '\t')
+      .replace(/<text:line-break\s*\/>/g, '\n')
+      .replace(/<text:s(?:\s+text:c="(\d+)")?\s*\/>/g, (_, count) => ' '.repeat(Number(count) || 1))
+      .replace(/<text:list-item[^>]*>/g, '- ')
+      .replace(/<\/text:(p|h)>/g, '\n')
+      .replace(/<\/table:table-cell>/g, '\t')
+      .replace(/<\/table:table-row>/g, '\n')
+      .replace(/<[^>]+>/g, '')
+  );
+}
@@ -0,0 +1,14 @@
+import pdfParse from 'pdf-parse';
+import { cleanLinkedInPdfText, isLinkedInPdf } from './linkedin';
+import { ocrPdf } from './ocr';
+import { MIN_TEXT_LETTERS, countLetters } from './quality';
+
+export async function extractPdf(buffer: Buffer): Promise<string> {
+  const text: string = (await (pdfParse as any)(buffer)).text;
+  if (isLinkedInPdf(text)) return cleanLinkedInPdfText(text);
+  if (countLetters(text) >= MIN_TEXT_LETTERS) return text;
+
+  // Little or no selectable text: most likely a scan
+  const recognised = await ocrPdf(buffer);
+  return countLetters(recognised) > countLetters(text) ? recognised : text;
+}
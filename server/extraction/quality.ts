@@ -0,0 +1,21 @@
+import { CvFileType } from '../uploads';
+
+// Fewer letters than this can't describe a career; it usually means an unreadable scan.
+export const MIN_TEXT_LETTERS = parseInt(process.env.CV_MIN_TEXT_CHARS || '200');
+
+export const countLetters = (text: string) => (text.match(/\p{L}/gu) || []).length;
+
+// Throws a user-facing error when the extracted text is too thin or too garbled to build a
+// profile from, rather than letting the model invent one.
+export function assertReadableText(text: string, type: CvFileType) {
+  const letters = countLetters(text);
+  if (letters < MIN_TEXT_LETTERS) {
+    const hint = type === 'pdf' ? " If it's a scanned document, upload a text-based PDF or DOCX instead." : '';
+    throw new Error(`Only ${letters} letters of text could be read from the CV, too few to build a profile from.${hint}`);
+  }
+  // Mostly digits and symbols: a broken font encoding or a bad OCR pass
+  const visible = text.replace(/\s/g, '').length;
+  if (letters / visible < 0.5) {
+    throw new Error("The text read from the CV looks garbled. Try exporting it again as PDF or DOCX.");
+  }
+}
@@ -0,0 +1,106 @@
+// Groups starting with these control words hold metadata, not document text.
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'fldinst', 'datastore', 'themedata',
+  'colorschememapping', 'latentstyles', 'listtable', 'listoverridetable', 'rsidtbl', 'xmlnstbl', 'generator',
+  'header', 'headerl', 'headerr', 'headerf', 'footer', 'footerl', 'footerr', 'footerf'
+]);
+
+const SYMBOLS: Record<string, string> = {
+  par: '\n', line: '\n', row: '\n', sect: '\n', page: '\n',
+  tab: '\t', cell: '\t',
+  bullet: '•', emdash: '—', endash: '–', emspace: ' ', enspace: ' ',
+  lquote: '‘', rquote: '’', ldblquote: '“', rdblquote: '”'
+};
+
+// \'hh escapes are Windows-1252 bytes, which only differ from Latin-1 in 0x80-0x9F.
+// (Node's TextDecoder treats windows-1252 as Latin-1, so it can't be used here.)
+const CP1252_HIGH = '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008DŽ\u008F\u0090‘’“”•–—˜™š›œ\u009DžŸ';
+
+const decodeByte = (byte: number) => byte >= 0x80 && byte <= 0x9f ? CP1252_HIGH[byte - 0x80] : String.fromCharCode(byte);
+
+interface GroupState {
+  skip: boolean;
+  // Fallback characters that follow each \uN, set by \ucN
+  unicodeSkip: number;
+}
+
+// A small RTF reader: walks the groups, drops metadata destinations and decodes \'hh and \uN
+// escapes. Formatting is ignored; paragraphs, line breaks and table cells survive as whitespace.
+export function rtfToText(rtf: string): string {
+  const stack: GroupState[] = [];
+  let state: GroupState = { skip: false, unicodeSkip: 1 };
+  let pendingSkip = 0;
+  let out = '';
+
+  const emit = (text: string) => {
+    if (pendingSkip > 0) {
+      pendingSkip--;
+      return;
+    }
+    if (!state.skip) out += text;
+  };
+
+  for (let i = 0; i < rtf.length;) {
+    const c = rtf[i];
+    if (c === '{') {
+      stack.push(state);
+      state = { ...state };
+      i++;
+    } else if (c === '}') {
+      state = stack.pop() || state;
+      i++;
+    } else if (c === '\r' || c === '\n') {
+      i++;
+    } else if (c !== '\\') {
+      emit(c);
+      i++;
+    } else {
+      const next = rtf[i + 1];
+      if (next === '\\' || next === '{' || next === '}') {
+        emit(next);
+        i += 2;
+      } else if (next === "'") {
+        emit(decodeByte(parseInt(rtf.substr(i + 2, 2), 16) || 0x3f));
+        i += 4;
+      } else if (next === '*') {
+        // Optional destination: readers that don't know it skip the whole group
+        state.skip = true;
+        i += 2;
+      } else if (next === '~') {
+        emit(' ');
+        i += 2;
+      } else if (next === '_') {
+        emit('-');
+        i += 2;
+      } else if (next === '\r' || next === '\n') {
+        emit('\n');
+        i += 2;
+      } else {
+        const match = /^([a-z]+)(-?\d+)? ?/i.exec(rtf.slice(i + 1, i + 40));
+        if (!match) {
+          // Other control symbols (\-, \|, \:) carry no text
+          i += 2;
+          continue;
+        }
+        i += 1 + match[0].length;
+        const [, word, param] = match;
+        if (word === 'u' && param !== undefined) {
+          const code = Number(param);
+          emit(String.fromCharCode(code < 0 ? code + 65536 : code));
+          pendingSkip = state.unicodeSkip;
+        } else if (word === 'uc' && param !== undefined) {
+          state.unicodeSkip = Number(param);
+        } else if (SKIPPED_DESTINATIONS.has(word)) {
+          state.skip = true;
+        } else if (SYMBOLS[word]) {
+          emit(SYMBOLS[word]);
+        }
+      }
+    }
+  }
+  return out;
+}
+
+export async function extractRtf(buffer: Buffer): Promise<string> {
+  return rtfToText(buffer.toString('latin1'));
+}
@@ -0,0 +1,97 @@
+import JSZip from 'jszip';
+
+// Zip-based CVs (docx, odt, LinkedIn exports) are checked against the sizes their central
+// directory declares before anything is inflated, then inflated with a running byte count that
+// stops at the cap. The declared sizes alone can't be trusted: JSZip only compares them with the
+// real ones after an entry is fully inflated, so a forged size would let a small upload unpack
+// into gigabytes.
+export const MAX_UNZIPPED_BYTES = parseInt(process.env.MAX_UNZIPPED_MB || '50') * 1024 * 1024;
+const MAX_ZIP_ENTRIES = 5000;
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+// Sizes and counts saturated at these values mean the real ones are in a ZIP64 record
+const ZIP64_SIZE = 0xffffffff;
+const ZIP64_COUNT = 0xffff;
+
+export class ZipTooLargeError extends Error {
+  // What the archive declared, or what inflating it reached before giving up
+  constructor(readonly unzippedBytes: number) {
+    super(`The archive unpacks to more than ${MAX_UNZIPPED_BYTES / 1024 / 1024}MB.`);
+  }
+}
+
+// Total uncompressed size the central directory declares. ZIP64 archives count as too large:
+// no CV needs one. Throws a plain Error when there is no readable central directory.
+export function declaredUnzippedSize(buffer: Buffer): number {
+  let end = -1;
+  // The end record is 22 bytes plus a comment of up to 64 KB
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error("Not a zip archive.");
+
+  const entries = buffer.readUInt16LE(end + 10);
+  const offset = buffer.readUInt32LE(end + 16);
+  if (entries === ZIP64_COUNT || offset === ZIP64_SIZE || entries > MAX_ZIP_ENTRIES) return Infinity;
+
+  let total = 0;
+  for (let i = 0, pos = offset; i < entries; i++) {
+    if (pos + 46 > buffer.length || buffer.readUInt32LE(pos) !== CENTRAL_DIRECTORY_ENTRY) throw new Error("Corrupt zip central directory.");
+    const size = buffer.readUInt32LE(pos + 24);
+    if (size === ZIP64_SIZE) return Infinity;
+    total += size;
+    pos += 46 + buffer.readUInt16LE(pos + 28) + buffer.readUInt16LE(pos + 30) + buffer.readUInt16LE(pos + 32);
+  }
+  return total;
+}
+
+// Throws ZipTooLargeError when the archive would unpack to more than MAX_UNZIPPED_BYTES.
+function assertZipWithinLimits(buffer: Buffer) {
+  const size = declaredUnzippedSize(buffer);
+  if (size > MAX_UNZIPPED_BYTES) throw new ZipTooLargeError(size);
+}
+
+// Inflates one entry, giving up as soon as the archive's total passes MAX_UNZIPPED_BYTES.
+function inflateWithinLimit(file: JSZip.JSZipObject, inflatedSoFar: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let total = inflatedSoFar;
+    const stream = file.nodeStream('nodebuffer');
+    stream.on('data', (chunk: Buffer) => {
+      total += chunk.length;
+      if (total > MAX_UNZIPPED_BYTES) {
+        // Pausing stops JSZip inflating the rest of the entry
+        stream.pause();
+        stream.removeAllListeners('data');
+        reject(new ZipTooLargeError(total));
+      } else chunks.push(chunk);
+    });
+    stream.on('error', reject);
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+  });
+}
+
+// Returns the archive fully inflated in memory, so reading its files can't exceed the cap.
+export async function loadZip(buffer: Buffer): Promise<JSZip> {
+  assertZipWithinLimits(buffer);
+  const zip = await JSZip.loadAsync(buffer);
+  const inflated = new JSZip();
+  let total = 0;
+  for (const file of Object.values(zip.files)) {
+    if (file.dir) continue;
+    const content = await inflateWithinLimit(file, total);
+    total += content.length;
+    inflated.file(file.name, content);
+  }
+  return inflated;
+}
+
+// The archive re-packed from its capped inflation, uncompressed, for libraries that unzip it
+// themselves.
+export async function repackZip(buffer: Buffer): Promise<Buffer> {
+  return (await loadZip(buffer)).generateAsync({ type: 'nodebuffer', compression: 'STORE' });
+}
@@ -0,0 +1,121 @@
+import { AnalysisComparison, AnalysisInputs, AnalysisRecord, AnalysisResult, AnalysisRun, AnalysisSummary, CandidateProfile, Job, JobScoreChange, UnscoredJob } from '../types';
+import { sha256 } from './jobStore';
+import { OwnedCollection } from './storage';
+
+// Oldest analyses beyond this many per user are dropped.
+const HISTORY_LIMIT = parseInt(process.env.ANALYSIS_HISTORY_LIMIT || '100');
+
+const analyses = new OwnedCollection<AnalysisRecord>('analyses');
+
+export function profileVersion(profile: CandidateProfile): string {
+  return sha256(JSON.stringify(profile)).slice(0, 12);
+}
+
+const toSummary = ({ userId, result, ...summary }: AnalysisRecord): AnalysisSummary => summary;
+
+// Keeps the run's results only: the candidate profile the response carries is never stored.
+const toStoredResult = ({ profileId, jobs, failedJobs, prefilter, dedupe, scoreCache, usage }: AnalysisResult): AnalysisResult =>
+  ({ profileId, jobs, failedJobs, prefilter, dedupe, scoreCache, usage });
+
+// History written before profiles were left out still holds them.
+const withProfiles = analyses.entries().filter(([, a]) => a.result && 'contact' in a.result);
+if (withProfiles.length > 0) analyses.setMany(withProfiles.map(([id, a]) => [id, { ...a, result: toStoredResult(a.result!) }]));
+
+// Same source and search URL; the query string is part of the search, so URLs compare as typed.
+export const isSameSearch = (a: AnalysisInputs, b: AnalysisInputs) =>
+  a.source === b.source && a.searchUrl.trim() === b.searchUrl.trim();
+
+// Stores a finished (or failed) run with the inputs it was started with.
+export function recordAnalysis(run: AnalysisRun, inputs: AnalysisInputs): AnalysisRecord {
+  const jobs = run.result?.jobs || [];
+  const record: AnalysisRecord = {
+    analysisId: run.runId,
+    userId: run.userId,
+    createdAt: run.createdAt,
+    finishedAt: new Date().toISOString(),
+    status: run.result ? 'done' : 'failed',
+    inputs,
+    jobCount: jobs.length,
+    topScore: jobs.length > 0 ? Math.max(...jobs.map(j => j.score || 0)) : undefined,
+    error: run.error,
+    result: run.result && toStoredResult(run.result)
+  };
+  analyses.set(record.analysisId, record);
+  listAnalyses(run.userId).slice(HISTORY_LIMIT).forEach(a => analyses.delete(a.analysisId));
+  return record;
+}
+
+// Newest first, without results. `like` narrows the list to runs of the same search.
+export function listAnalyses(userId: string, like?: AnalysisInputs): AnalysisSummary[] {
+  return analyses.allFor(userId)
+    .filter(a => !like || isSameSearch(a.inputs, like))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(toSummary);
+}
+
+export function getAnalysis(userId: string, analysisId: string): AnalysisRecord | undefined {
+  return analyses.getFor(analysisId, userId);
+}
+
+export function deleteAnalysis(userId: string, analysisId: string): boolean {
+  return !!analyses.getFor(analysisId, userId) && analyses.delete(analysisId);
+}
+
+// Jobs are matched on their fingerprint, so a re-posted job with a new upstream ID still counts as the same one.
+const jobKey = (job: Job) => job.fingerprint || job.jobId;
+
+type Unscored = Pick<UnscoredJob, 'status' | 'reason'>;
+
+// Jobs a run fetched but didn't score, with why.
+function unscoredJobs(result: AnalysisResult): Map<string, Unscored> {
+  const unscored = new Map<string, Unscored>();
+  for (const { job, reason } of result.prefilter?.filtered || []) unscored.set(jobKey(job), { status: 'filtered', reason });
+  for (const { job, reason } of result.failedJobs) unscored.set(jobKey(job), { status: 'failed', reason });
+  return unscored;
+}
+
+// Returns undefined when either analysis doesn't exist. Throws when they can't be compared.
+// A job scored in one run and pre-filtered or failed in the other is listed as unscored, not as
+// appeared or disappeared: the posting was still there.
+export function compareAnalyses(userId: string, firstId: string, secondId: string): AnalysisComparison | undefined {
+  const first = getAnalysis(userId, firstId);
+  const second = getAnalysis(userId, secondId);
+  if (!first || !second) return undefined;
+  if (first.analysisId === second.analysisId) throw new Error("Choose two different analyses to compare.");
+  if (!isSameSearch(first.inputs, second.inputs)) throw new Error("Only runs of the same search can be compared.");
+  if (!first.result || !second.result) throw new Error("Failed analyses have no results to compare.");
+
+  const [base, target] = first.createdAt <= second.createdAt ? [first, second] : [second, first];
+  const before = new Map(base.result!.jobs.map(job => [jobKey(job), job]));
+  const after = new Map(target.result!.jobs.map(job => [jobKey(job), job]));
+  const unscoredBefore = unscoredJobs(base.result!);
+  const unscoredAfter = unscoredJobs(target.result!);
+
+  const changed: JobScoreChange[] = [];
+  const unscored: UnscoredJob[] = [];
+  let unchanged = 0;
+  for (const [key, job] of before) {
+    const skipped = !after.has(key) && unscoredAfter.get(key);
+    if (skipped) unscored.push({ job, run: 'target', ...skipped });
+  }
+  for (const [key, job] of after) {
+    const previous = before.get(key);
+    const skipped = !previous && unscoredBefore.get(key);
+    if (skipped) unscored.push({ job, run: 'base', ...skipped });
+    if (!previous) continue;
+    if ((previous.score || 0) === (job.score || 0)) unchanged++;
+    else changed.push({ job, previousScore: previous.score || 0, score: job.score || 0 });
+  }
+  changed.sort((a, b) => Math.abs(b.score - b.previousScore) - Math.abs(a.score - a.previousScore));
+
+  return {
+    base: toSummary(base),
+    target: toSummary(target),
+    appeared: [...after].filter(([key]) => !before.has(key) && !unscoredBefore.has(key)).map(([, job]) => job),
+    disappeared: [...before].filter(([key]) => !after.has(key) && !unscoredAfter.has(key)).map(([, job]) => job),
+    unscored,
+    changed,
+    unchanged,
+    profileChanged: base.inputs.profileVersion !== target.inputs.profileVersion
+  };
+}
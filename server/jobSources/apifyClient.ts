@@ -0,0 +1,142 @@
+import fetch, { RequestInit } from 'node-fetch';
+
+// Point APIFY_BASE_URL at a local stand-in to run against something other than the real API.
+const BASE_URL = (process.env.APIFY_BASE_URL || 'https://api.apify.com/v2').replace(/\/$/, '');
+const RUN_TIMEOUT_MS = parseInt(process.env.APIFY_RUN_TIMEOUT_SECONDS || '600') * 1000;
+const POLL_INTERVAL_MS = parseInt(process.env.APIFY_POLL_INTERVAL_SECONDS || '5') * 1000;
+const REQUEST_TIMEOUT_MS = 30000;
+const MAX_RETRIES = parseInt(process.env.APIFY_MAX_RETRIES || '4');
+const PAGE_SIZE = 250;
+
+const RUNNING_STATUSES = ['READY', 'RUNNING', 'TIMING-OUT', 'ABORTING'];
+
+export interface ApifyRun {
+  id: string;
+  status: string;
+  defaultDatasetId: string;
+}
+
+export interface RunActorOptions {
+  maxItems: number;
+  signal?: AbortSignal;
+  onStatus?: (status: string) => void;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(cancelled());
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(cancelled());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const cancelled = () => new Error('The analysis was cancelled.');
+
+// 429 and 5xx are worth retrying; other errors won't change on a second attempt.
+const isRetryable = (status: number) => status === 429 || status >= 500;
+
+// Thin Apify API client: retries with exponential backoff (honouring Retry-After), bounds every
+// request and the whole run, and aborts the Apify run when the caller cancels.
+export class ApifyClient {
+  constructor(private readonly token: string, private readonly baseUrl: string = BASE_URL) {}
+
+  private async request<T>(path: string, init: RequestInit = {}, signal?: AbortSignal): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      if (signal?.aborted) throw cancelled();
+      const timeout = AbortSignal.timeout(REQUEST_TIMEOUT_MS);
+      let status = 0;
+      let retryAfterMs: number | undefined;
+      let message: string;
+      try {
+        const res = await fetch(`${this.baseUrl}${path}`, {
+          ...init,
+          headers: { Authorization: `Bearer ${this.token}`, 'Content-Type': 'application/json', ...init.headers },
+          signal: signal ? AbortSignal.any([signal, timeout]) : timeout
+        });
+        if (res.ok) return await res.json() as T;
+        status = res.status;
+        const retryAfter = Number(res.headers.get('retry-after'));
+        if (retryAfter > 0) retryAfterMs = retryAfter * 1000;
+        // The body stays in the server log: the message ends up in the run status
+        console.warn(`Apify ${init.method || 'GET'} ${path.split('?')[0]} answered ${res.status}: ${(await res.text()).slice(0, 500)}`);
+        message = `Apify request failed (HTTP ${res.status}).`;
+      } catch (error: any) {
+        if (signal?.aborted) throw cancelled();
+        // Network errors and per-request timeouts are retried like 5xx responses
+        status = 599;
+        message = `Apify request failed: ${error.message}.`;
+      }
+
+      if (!isRetryable(status) || attempt >= MAX_RETRIES) throw new Error(message);
+      const backoffMs = retryAfterMs ?? Math.min(1000 * 2 ** attempt, 30000) * (0.5 + Math.random() / 2);
+      console.warn(`${message} Retrying in ${Math.round(backoffMs / 1000)}s...`);
+      await sleep(backoffMs, signal);
+    }
+  }
+
+  async startRun(actor: string, input: unknown, signal?: AbortSignal): Promise<ApifyRun> {
+    const { data } = await this.request<{ data: ApifyRun }>(`/acts/${encodeURIComponent(actor)}/runs`, {
+      method: 'POST',
+      body: JSON.stringify(input)
+    }, signal);
+    return data;
+  }
+
+  async getRun(runId: string, signal?: AbortSignal): Promise<ApifyRun> {
+    const { data } = await this.request<{ data: ApifyRun }>(`/actor-runs/${runId}`, {}, signal);
+    return data;
+  }
+
+  async abortRun(runId: string): Promise<void> {
+    await this.request(`/actor-runs/${runId}/abort`, { method: 'POST' });
+  }
+
+  // Reads up to `maxItems` items, one page at a time.
+  async listItems(datasetId: string, maxItems: number, signal?: AbortSignal): Promise<any[]> {
+    const items: any[] = [];
+    while (items.length < maxItems) {
+      const limit = Math.min(PAGE_SIZE, maxItems - items.length);
+      const page = await this.request<any[]>(`/datasets/${datasetId}/items?clean=true&offset=${items.length}&limit=${limit}`, {}, signal);
+      items.push(...page);
+      if (page.length < limit) break;
+    }
+    return items;
+  }
+
+  // Starts the actor, waits for it to finish and returns its items, all within
+  // APIFY_RUN_TIMEOUT_SECONDS. On timeout or cancellation before the run finishes the Apify run
+  // is aborted too, so it stops consuming credits.
+  async runActor(actor: string, input: unknown, { maxItems, signal, onStatus }: RunActorOptions): Promise<any[]> {
+    const run = await this.startRun(actor, input, signal);
+    console.log(`Apify run started: ${run.id}, polling for completion...`);
+    onStatus?.(run.status || 'READY');
+
+    const deadline = Date.now() + RUN_TIMEOUT_MS;
+    let status = run.status || 'READY';
+    try {
+      while (RUNNING_STATUSES.includes(status)) {
+        if (Date.now() >= deadline) throw new Error(`Apify run did not finish within ${RUN_TIMEOUT_MS / 1000}s.`);
+        await sleep(POLL_INTERVAL_MS, signal);
+        status = (await this.getRun(run.id, signal)).status;
+        onStatus?.(status);
+      }
+    } catch (error) {
+      await this.abortRun(run.id).catch(abortError => console.warn(`Could not abort Apify run ${run.id}:`, abortError.message));
+      throw error;
+    }
+
+    if (status !== 'SUCCEEDED') throw new Error(`Apify run failed with status: ${status}`);
+    const timeout = AbortSignal.timeout(Math.max(0, deadline - Date.now()));
+    try {
+      return await this.listItems(run.defaultDatasetId, maxItems, signal ? AbortSignal.any([signal, timeout]) : timeout);
+    } catch (error) {
+      if (timeout.aborted && !signal?.aborted) throw new Error(`Apify results could not be read within ${RUN_TIMEOUT_MS / 1000}s.`);
+      throw error;
+    }
+  }
+}
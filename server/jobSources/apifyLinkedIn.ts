@@ -0,0 +1,52 @@
+import { Job } from '../../types';
+import { JobSource, JobSourceQuery } from './types';
+import { httpUrl, toIsoDate } from './shared';
+import { ApifyClient } from './apifyClient';
+
+const DEFAULT_ACTOR = 'curious_coder~linkedin-jobs-scraper';
+
+// The actor a run uses: the one asked for, else the server's configured default.
+export const resolveApifyActor = (apifyActor?: string) => apifyActor || process.env.APIFY_ACTOR_SLUG || DEFAULT_ACTOR;
+
+// APIFY_API_TOKEN is billed to whoever runs the server and shared by every account, so runs only
+// fall back to it when ALLOW_SERVER_APIFY_TOKEN=true. Read lazily so .env changes take effect.
+export const serverApifyTokenAllowed = () => process.env.ALLOW_SERVER_APIFY_TOKEN === 'true' && !!process.env.APIFY_API_TOKEN;
+
+// Scrapes LinkedIn search results through an Apify actor. Field names vary between actors and
+// actor versions, so the mapping accepts the common aliases.
+export const apifyLinkedInSource: JobSource = {
+  id: 'apify-linkedin',
+  label: 'LinkedIn (Apify)',
+  queryHint: 'https://www.linkedin.com/jobs/search?keywords=...',
+
+  async fetchJobs({ searchUrl, maxItems, apifyToken, apifyActor, onStatus, signal }: JobSourceQuery): Promise<any[]> {
+    const token = apifyToken || (serverApifyTokenAllowed() ? process.env.APIFY_API_TOKEN : undefined);
+    const actor = resolveApifyActor(apifyActor);
+
+    if (!token) throw new Error("LinkedIn searches need an Apify credential. Add one under Scraper Settings and select it.");
+    if (!searchUrl.includes('linkedin.com/jobs/search')) throw new Error("Please enter a valid LinkedIn search URL.");
+
+    console.log(`Starting Apify actor ${actor} for ${searchUrl}`);
+
+    return new ApifyClient(token).runActor(actor, {
+      startUrls: [{ url: searchUrl }],
+      maxItems,
+      limit: maxItems
+    }, { maxItems, signal, onStatus });
+  },
+
+  toJob(rawJob: any): Job {
+    return {
+      jobId: String(rawJob.id || rawJob.jobId || ''),
+      companyName: rawJob.companyName || rawJob.company || "Unknown Company",
+      companyLogo: httpUrl(rawJob.companyLogo || rawJob.logo) || undefined,
+      jobTitle: rawJob.title || rawJob.jobTitle || "Untitled Role",
+      location: rawJob.location || rawJob.place || undefined,
+      jobUrl: httpUrl(rawJob.link || rawJob.url || rawJob.jobUrl),
+      applyUrl: httpUrl(rawJob.applyUrl) || httpUrl(rawJob.link || rawJob.url), // Fallback to job url
+      description: rawJob.descriptionText || rawJob.description || rawJob.text || "",
+      scrapedAt: toIsoDate(rawJob.postedAt),
+      source: 'apify-linkedin'
+    };
+  }
+};
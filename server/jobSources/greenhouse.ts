@@ -0,0 +1,54 @@
+import { Job } from '../../types';
+import { JobSource, JobSourceQuery } from './types';
+import { decodeEntities, fetchJson, htmlToText, httpUrl, titleCase, toIsoDate } from './shared';
+
+interface GreenhouseJob {
+  id: number;
+  title: string;
+  absolute_url: string;
+  updated_at?: string;
+  location?: { name?: string };
+  content?: string; // HTML, entity-escaped once more by the API
+  company_name?: string;
+  departments?: { name: string }[];
+}
+
+// Accepts `https://boards.greenhouse.io/<board>`, `https://job-boards.greenhouse.io/<board>`
+// or the bare board token.
+export function parseGreenhouseBoard(input: string): string {
+  const trimmed = input.trim();
+  const match = trimmed.match(/greenhouse\.io\/(?:v1\/boards\/)?([^/?#]+)/i);
+  const board = match ? match[1] : trimmed;
+  if (!/^[\w-]+$/.test(board)) throw new Error("Please enter a Greenhouse board URL or board token.");
+  return board;
+}
+
+export const greenhouseSource: JobSource<GreenhouseJob & { board: string }> = {
+  id: 'greenhouse',
+  label: 'Greenhouse job board',
+  queryHint: 'https://boards.greenhouse.io/<company>',
+
+  async fetchJobs({ searchUrl, maxItems, signal }: JobSourceQuery) {
+    const board = parseGreenhouseBoard(searchUrl);
+    const data = await fetchJson<{ jobs: GreenhouseJob[] }>(
+      `https://boards-api.greenhouse.io/v1/boards/${board}/jobs?content=true`,
+      'Greenhouse',
+      signal
+    );
+    return (data.jobs || []).slice(0, maxItems).map(job => ({ ...job, board }));
+  },
+
+  toJob(raw): Job {
+    return {
+      jobId: `greenhouse-${raw.id}`,
+      companyName: raw.company_name || titleCase(raw.board),
+      jobTitle: raw.title || "Untitled Role",
+      location: raw.location?.name || undefined,
+      jobUrl: httpUrl(raw.absolute_url),
+      applyUrl: httpUrl(raw.absolute_url),
+      description: htmlToText(decodeEntities(raw.content || '')),
+      scrapedAt: toIsoDate(raw.updated_at),
+      source: 'greenhouse'
+    };
+  }
+};
@@ -0,0 +1,55 @@
+import { Job } from '../../types';
+import { JobSource, JobSourceQuery } from './types';
+import { fetchText, htmlToText, httpUrl, parseCsv, toIsoDate } from './shared';
+
+// Indeed has no public search API; teams export results (JSON or CSV) and host the file.
+// Both the legacy Publisher API field names and the CSV export column names are accepted.
+type IndeedRecord = Record<string, any>;
+
+function pick(record: IndeedRecord, ...keys: string[]): string {
+  for (const key of keys) {
+    const value = record[key];
+    if (value !== undefined && value !== null && String(value).trim() !== '') return String(value).trim();
+  }
+  return '';
+}
+
+export function parseIndeedExport(text: string): IndeedRecord[] {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const data = JSON.parse(trimmed);
+    if (Array.isArray(data)) return data;
+    if (Array.isArray(data.results)) return data.results;
+    if (Array.isArray(data.jobs)) return data.jobs;
+    throw new Error("Indeed export JSON must be an array or contain a `results` array.");
+  }
+  return parseCsv(trimmed);
+}
+
+export const indeedSource: JobSource<IndeedRecord> = {
+  id: 'indeed',
+  label: 'Indeed export (JSON/CSV URL)',
+  queryHint: 'https://example.com/indeed-export.csv',
+
+  async fetchJobs({ searchUrl, maxItems, signal }: JobSourceQuery) {
+    const text = await fetchText(searchUrl, 'Indeed export', signal);
+    return parseIndeedExport(text).slice(0, maxItems);
+  },
+
+  toJob(raw): Job {
+    const jobKey = pick(raw, 'jobkey', 'jobKey', 'job_key', 'Job Key', 'id');
+    const url = httpUrl(pick(raw, 'url', 'URL', 'Job URL', 'link'));
+    const description = pick(raw, 'description', 'Description', 'snippet', 'Snippet');
+    return {
+      jobId: jobKey ? `indeed-${jobKey}` : '',
+      companyName: pick(raw, 'company', 'Company', 'companyName', 'Company Name') || "Unknown Company",
+      jobTitle: pick(raw, 'jobtitle', 'jobTitle', 'title', 'Title', 'Job Title') || "Untitled Role",
+      location: pick(raw, 'formattedLocation', 'location', 'Location') || undefined,
+      jobUrl: url,
+      applyUrl: url,
+      description: /<[a-z][\s\S]*>/i.test(description) ? htmlToText(description) : description,
+      scrapedAt: toIsoDate(pick(raw, 'date', 'Date', 'Posted', 'datePosted') || undefined),
+      source: 'indeed'
+    };
+  }
+};
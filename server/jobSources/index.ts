@@ -0,0 +1,58 @@
+import { Job, JobSourceId, JobSourceInfo } from '../../types';
+import { JobSource, JobSourceQuery } from './types';
+import { apifyLinkedInSource } from './apifyLinkedIn';
+import { greenhouseSource } from './greenhouse';
+import { leverSource } from './lever';
+import { indeedSource } from './indeed';
+import { rssSource } from './rss';
+import { fingerprintJob } from '../jobStore';
+
+export type { JobSource, JobSourceQuery } from './types';
+export { resolveApifyActor, serverApifyTokenAllowed } from './apifyLinkedIn';
+
+export const DEFAULT_JOB_SOURCE: JobSourceId = 'apify-linkedin';
+
+// Most postings one run fetches; every one of them may cost a model call to score.
+export const MAX_JOBS = parseInt(process.env.MAX_JOBS || '100');
+const DEFAULT_MAX_JOBS = 50;
+
+// Validates a requested job count; empty means the default. Throws for anything but a whole
+// number in 1..MAX_JOBS.
+export function parseMaxJobs(value: unknown): number {
+  if (value === undefined || value === null || value === '') return DEFAULT_MAX_JOBS;
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1 || count > MAX_JOBS) throw new Error(`Max jobs must be a whole number from 1 to ${MAX_JOBS}.`);
+  return count;
+}
+
+// Brings a count stored before the limit applied (or since lowered) into 1..MAX_JOBS.
+export const clampMaxJobs = (value: unknown) => Math.max(1, Math.min(MAX_JOBS, Math.floor(Number(value)) || DEFAULT_MAX_JOBS));
+
+const sources: Record<JobSourceId, JobSource> = {
+  'apify-linkedin': apifyLinkedInSource,
+  greenhouse: greenhouseSource,
+  lever: leverSource,
+  indeed: indeedSource,
+  rss: rssSource
+};
+
+export function getJobSource(id: string | undefined): JobSource {
+  const source = sources[(id || DEFAULT_JOB_SOURCE) as JobSourceId];
+  if (!source) throw new Error(`Unknown job source: ${id}`);
+  return source;
+}
+
+export function listJobSources(): JobSourceInfo[] {
+  return Object.values(sources).map(({ id, label, queryHint }) => ({ id, label, queryHint }));
+}
+
+// Fetches raw postings from the selected source and maps them onto `Job`. Postings without an
+// upstream ID get one derived from their fingerprint so it stays stable across runs.
+export async function fetchJobs(sourceId: string | undefined, query: JobSourceQuery): Promise<Job[]> {
+  const source = getJobSource(sourceId);
+  const rawJobs = await source.fetchJobs({ ...query, maxItems: clampMaxJobs(query.maxItems) });
+  return rawJobs.map(raw => {
+    const job = source.toJob(raw);
+    return job.jobId ? job : { ...job, jobId: `job-${fingerprintJob(job).slice(0, 16)}` };
+  });
+}
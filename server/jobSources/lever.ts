@@ -0,0 +1,55 @@
+import { Job } from '../../types';
+import { JobSource, JobSourceQuery } from './types';
+import { fetchJson, htmlToText, httpUrl, titleCase, toIsoDate } from './shared';
+
+interface LeverPosting {
+  id: string;
+  text: string;
+  hostedUrl: string;
+  applyUrl?: string;
+  createdAt?: number;
+  categories?: { location?: string; team?: string; commitment?: string };
+  descriptionPlain?: string;
+  lists?: { text: string; content: string }[]; // content is HTML <li> items
+  additionalPlain?: string;
+}
+
+// Accepts `https://jobs.lever.co/<company>` or the bare company slug.
+export function parseLeverCompany(input: string): string {
+  const trimmed = input.trim();
+  const match = trimmed.match(/lever\.co\/(?:v0\/postings\/)?([^/?#]+)/i);
+  const company = match ? match[1] : trimmed;
+  if (!/^[\w-]+$/.test(company)) throw new Error("Please enter a Lever jobs URL or company slug.");
+  return company;
+}
+
+export const leverSource: JobSource<LeverPosting & { company: string }> = {
+  id: 'lever',
+  label: 'Lever job board',
+  queryHint: 'https://jobs.lever.co/<company>',
+
+  async fetchJobs({ searchUrl, maxItems, signal }: JobSourceQuery) {
+    const company = parseLeverCompany(searchUrl);
+    const postings = await fetchJson<LeverPosting[]>(
+      `https://api.lever.co/v0/postings/${company}?mode=json&limit=${maxItems}`,
+      'Lever',
+      signal
+    );
+    return postings.slice(0, maxItems).map(posting => ({ ...posting, company }));
+  },
+
+  toJob(raw): Job {
+    const sections = (raw.lists || []).map(list => `${list.text}:\n${htmlToText(list.content)}`);
+    return {
+      jobId: `lever-${raw.id}`,
+      companyName: titleCase(raw.company),
+      jobTitle: raw.text || "Untitled Role",
+      location: raw.categories?.location || undefined,
+      jobUrl: httpUrl(raw.hostedUrl),
+      applyUrl: httpUrl(raw.applyUrl) || httpUrl(raw.hostedUrl),
+      description: [raw.descriptionPlain, ...sections, raw.additionalPlain].filter(Boolean).join('\n\n').trim(),
+      scrapedAt: toIsoDate(raw.createdAt),
+      source: 'lever'
+    };
+  }
+};
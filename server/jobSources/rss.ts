@@ -0,0 +1,72 @@
+import { Job } from '../../types';
+import { JobSource, JobSourceQuery } from './types';
+import { decodeEntities, fetchText, htmlToText, httpUrl, toIsoDate } from './shared';
+
+interface RssItem {
+  title: string;
+  link: string;
+  guid: string;
+  description: string;
+  pubDate: string;
+  author: string;
+  company: string;
+  location: string;
+}
+
+function readTag(xml: string, ...tags: string[]): string {
+  for (const tag of tags) {
+    const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'i'));
+    if (match) {
+      const cdata = match[1].match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+      return cdata ? cdata[1].trim() : decodeEntities(match[1].trim());
+    }
+    // Atom links carry the URL in an attribute
+    const selfClosing = xml.match(new RegExp(`<${tag}\\s[^>]*href="([^"]+)"[^>]*/?>`, 'i'));
+    if (selfClosing) return decodeEntities(selfClosing[1]);
+  }
+  return '';
+}
+
+// Parses RSS 2.0 <item> and Atom <entry> elements. Job feeds commonly add <company>/<location>
+// extension tags; when they don't, "Title at Company" titles are split.
+export function parseJobFeed(xml: string): RssItem[] {
+  const blocks = xml.match(/<(item|entry)[\s>][\s\S]*?<\/\1>/gi) || [];
+  return blocks.map(block => ({
+    title: readTag(block, 'title'),
+    link: readTag(block, 'link'),
+    guid: readTag(block, 'guid', 'id'),
+    description: readTag(block, 'content:encoded', 'description', 'content', 'summary'),
+    pubDate: readTag(block, 'pubDate', 'published', 'updated', 'dc:date'),
+    author: readTag(block, 'dc:creator', 'author'),
+    company: readTag(block, 'company', 'job:company', 'hiringOrganization'),
+    location: readTag(block, 'location', 'job:location')
+  }));
+}
+
+export const rssSource: JobSource<RssItem> = {
+  id: 'rss',
+  label: 'RSS / Atom feed',
+  queryHint: 'https://example.com/jobs.rss',
+
+  async fetchJobs({ searchUrl, maxItems, signal }: JobSourceQuery) {
+    const xml = await fetchText(searchUrl, 'RSS feed', signal);
+    return parseJobFeed(xml).slice(0, maxItems);
+  },
+
+  toJob(raw): Job {
+    const split = raw.title.match(/^(.*?)\s+at\s+(.+)$/i);
+    const jobTitle = raw.company || !split ? raw.title : split[1];
+    const companyName = raw.company || (split ? split[2] : '') || raw.author;
+    return {
+      jobId: raw.guid || raw.link || '',
+      companyName: companyName || "Unknown Company",
+      jobTitle: jobTitle || "Untitled Role",
+      location: raw.location || undefined,
+      jobUrl: httpUrl(raw.link),
+      applyUrl: httpUrl(raw.link),
+      description: htmlToText(raw.description),
+      scrapedAt: toIsoDate(raw.pubDate || undefined),
+      source: 'rss'
+    };
+  }
+};
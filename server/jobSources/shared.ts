@@ -0,0 +1,106 @@
+import { fetchPublic } from '../outbound';
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' '
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, code: string) => {
+    if (code[0] === '#') {
+      const n = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(n) ? String.fromCodePoint(n) : match;
+    }
+    return ENTITIES[code.toLowerCase()] ?? match;
+  });
+}
+
+// Flattens an HTML fragment into readable plain text, keeping paragraph and list breaks.
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<li[^>]*>/gi, '\n- ')
+      .replace(/<\/(p|div|h[1-6]|ul|ol|li)>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*\n\s*\n+/g, '\n\n')
+    .trim();
+}
+
+// Returns a YYYY-MM-DD date, or today's date when the input can't be parsed.
+export function toIsoDate(value: string | number | undefined | null): string {
+  const date = value !== undefined && value !== null && value !== '' ? new Date(value) : new Date();
+  return (isNaN(date.getTime()) ? new Date() : date).toISOString().split('T')[0];
+}
+
+// Only absolute http(s) links are kept; anything else (javascript:, data:, relative) becomes ''.
+export function httpUrl(value: unknown): string {
+  if (typeof value !== 'string' || !value.trim()) return '';
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : '';
+  } catch {
+    return '';
+  }
+}
+
+// Upstream error bodies are never included in the message: it ends up in the run status.
+export async function fetchText(url: string, sourceLabel: string, signal?: AbortSignal): Promise<string> {
+  let res;
+  try {
+    res = await fetchPublic(url, { signal });
+  } catch (error: any) {
+    throw new Error(`${sourceLabel} request failed: ${error.message}`);
+  }
+  if (!res.ok) throw new Error(`${sourceLabel} request failed (HTTP ${res.status}).`);
+  return res.text;
+}
+
+export async function fetchJson<T = any>(url: string, sourceLabel: string, signal?: AbortSignal): Promise<T> {
+  const text = await fetchText(url, sourceLabel, signal);
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    throw new Error(`${sourceLabel} returned invalid JSON.`);
+  }
+}
+
+// "acme-corp" -> "Acme Corp". Used when a board slug is the only company name we have.
+export function titleCase(slug: string): string {
+  return slug.replace(/[-_]+/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+}
+
+// Minimal RFC 4180 CSV parser: quoted fields, escaped quotes and embedded newlines.
+// Returns one object per row keyed by the header row.
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (inQuotes) {
+      if (c === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') inQuotes = false;
+      else field += c;
+    } else if (c === '"') {
+      inQuotes = true;
+    } else if (c === ',') {
+      row.push(field); field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); rows.push(row); row = []; field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length) { row.push(field); rows.push(row); }
+
+  const [header, ...body] = rows.filter(r => r.some(cell => cell.trim() !== ''));
+  if (!header) return [];
+  const keys = header.map(h => h.trim());
+  return body.map(cells => Object.fromEntries(keys.map((key, i) => [key, (cells[i] ?? '').trim()])));
+}
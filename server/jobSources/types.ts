@@ -0,0 +1,23 @@
+import { Job, JobSourceId } from '../../types';
+
+export interface JobSourceQuery {
+  // Meaning depends on the source: a LinkedIn search URL, a board URL, a feed URL...
+  searchUrl: string;
+  maxItems: number;
+  apifyToken?: string;
+  apifyActor?: string;
+  // Called with upstream status updates for long-running fetches (e.g. Apify run status).
+  onStatus?: (status: string) => void;
+  // Aborted when the run is cancelled; long-running sources should stop and clean up.
+  signal?: AbortSignal;
+}
+
+// A job source owns both how postings are fetched and how its raw payload maps onto `Job`.
+export interface JobSource<Raw = any> {
+  id: JobSourceId;
+  label: string;
+  // Shown in the UI next to the search URL field.
+  queryHint: string;
+  fetchJobs(query: JobSourceQuery): Promise<Raw[]>;
+  toJob(raw: Raw): Job;
+}
@@ -0,0 +1,96 @@
+import crypto from 'crypto';
+import { DedupeStats, Job } from '../types';
+import { JsonCollection } from './storage';
+
+// Postings remembered per user; those seen least recently beyond this are forgotten.
+const JOB_STORE_LIMIT = parseInt(process.env.JOB_STORE_LIMIT || '5000');
+
+export interface StoredJob extends Job {
+  userId: string;
+  fingerprint: string;
+  contentHash: string;
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+// Keyed by "<userId>:<fingerprint>": what counts as new depends only on the user's own runs.
+const jobs = new JsonCollection<StoredJob>('jobs');
+
+export function sha256(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+function normalizeText(value: string | undefined): string {
+  return (value || '').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+// Query strings on job URLs are mostly tracking parameters, so they are dropped.
+function normalizeUrl(value: string | undefined): string {
+  if (!value) return '';
+  try {
+    const url = new URL(value);
+    return `${url.hostname.replace(/^www\./, '')}${url.pathname.replace(/\/$/, '')}`.toLowerCase();
+  } catch {
+    return normalizeText(value);
+  }
+}
+
+// Stable identity for a posting across runs and sources, independent of upstream IDs.
+export function fingerprintJob(job: Job): string {
+  return sha256([
+    normalizeText(job.companyName),
+    normalizeText(job.jobTitle),
+    normalizeText(job.location),
+    normalizeUrl(job.jobUrl)
+  ].join('|')).slice(0, 32);
+}
+
+export function hashJobContent(job: Job): string {
+  return sha256(`${normalizeText(job.jobTitle)}\n${job.description.trim()}`);
+}
+
+// Records the jobs of a run in the store. Drops in-run duplicates and flags postings that
+// have never been seen before with `isNew`.
+export function recordJobs(userId: string, incoming: Job[]): { jobs: Job[]; stats: DedupeStats } {
+  const now = new Date().toISOString();
+  const seen = new Set<string>();
+  const stats: DedupeStats = { received: incoming.length, duplicates: 0, new: 0, changed: 0, unchanged: 0 };
+  const result: Job[] = [];
+  const writes: [string, StoredJob][] = [];
+
+  for (const job of incoming) {
+    const fingerprint = fingerprintJob(job);
+    if (seen.has(fingerprint)) {
+      stats.duplicates++;
+      continue;
+    }
+    seen.add(fingerprint);
+
+    const contentHash = hashJobContent(job);
+    const key = `${userId}:${fingerprint}`;
+    const existing = jobs.get(key);
+    const firstSeenAt = existing?.firstSeenAt || now;
+
+    if (!existing) stats.new++;
+    else if (existing.contentHash !== contentHash) stats.changed++;
+    else stats.unchanged++;
+
+    // Only the posting itself is stored; match results depend on the CV and live in the score cache
+    const { score, verdict, breakdown, matchedSkills, missingSkills, dealbreakers, isNew, ...posting } = job;
+    writes.push([key, { ...existing, ...posting, userId, fingerprint, contentHash, firstSeenAt, lastSeenAt: now }]);
+    result.push({ ...posting, fingerprint, firstSeenAt, isNew: !existing });
+  }
+
+  jobs.setMany(writes);
+  pruneJobs(userId);
+  return { jobs: result, stats };
+}
+
+// A forgotten posting counts as new again if it turns up later.
+function pruneJobs(userId: string) {
+  const excess = jobs.entries()
+    .filter(([, job]) => job.userId === userId)
+    .sort(([, a], [, b]) => b.lastSeenAt.localeCompare(a.lastSeenAt))
+    .slice(JOB_STORE_LIMIT);
+  jobs.deleteMany(excess.map(([key]) => key));
+}
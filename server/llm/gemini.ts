@@ -0,0 +1,68 @@
+import { GenerateContentResponse, GoogleGenAI, Schema, Type } from '@google/genai';
+import { JsonSchema, LlmCallOptions, LlmProvider, LlmTask } from './types';
+import { parseJsonResponse } from './json';
+
+const TYPE_MAP: Record<JsonSchema['type'], Type> = {
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+  array: Type.ARRAY,
+  object: Type.OBJECT
+};
+
+function toGeminiSchema(schema: JsonSchema): Schema {
+  const base: Schema = { type: TYPE_MAP[schema.type], description: schema.description };
+  if (schema.type === 'array') return { ...base, items: toGeminiSchema(schema.items) };
+  if (schema.type === 'number' || schema.type === 'integer') return { ...base, minimum: schema.minimum, maximum: schema.maximum };
+  if (schema.type === 'object') {
+    return {
+      ...base,
+      properties: Object.fromEntries(Object.entries(schema.properties).map(([k, v]) => [k, toGeminiSchema(v)])),
+      required: schema.required
+    };
+  }
+  return base;
+}
+
+function reportUsage(response: GenerateContentResponse, options?: LlmCallOptions) {
+  const usage = response.usageMetadata;
+  if (usage) options?.onUsage?.({ promptTokens: usage.promptTokenCount || 0, outputTokens: usage.candidatesTokenCount || 0 });
+}
+
+export class GeminiProvider implements LlmProvider {
+  name = 'gemini';
+  private readonly ai: GoogleGenAI;
+
+  constructor(apiKey: string | undefined, private readonly models: Record<LlmTask, string>) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  modelFor(task: LlmTask): string {
+    return this.models[task];
+  }
+
+  async generateJson<T>(task: LlmTask, prompt: string, schema: JsonSchema, options?: LlmCallOptions): Promise<T> {
+    const response = await this.ai.models.generateContent({
+      model: this.modelFor(task),
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: toGeminiSchema(schema),
+        abortSignal: options?.signal
+      }
+    });
+    reportUsage(response, options);
+    return parseJsonResponse<T>(response.text || '');
+  }
+
+  async generateText(task: LlmTask, prompt: string, options?: LlmCallOptions): Promise<string> {
+    const response = await this.ai.models.generateContent({
+      model: this.modelFor(task),
+      contents: prompt,
+      config: { abortSignal: options?.signal }
+    });
+    reportUsage(response, options);
+    return response.text || '';
+  }
+}
@@ -0,0 +1,36 @@
+import { GeminiProvider } from './gemini';
+import { MockProvider } from './mock';
+import { LlmProvider, LlmTask } from './types';
+
+export type { JsonSchema, LlmCallOptions, LlmProvider, LlmTask, TokenUsage } from './types';
+export type { CheckedJsonOptions } from './json';
+export { LlmOutputError, generateCheckedJson, parseJsonResponse, validateJson } from './json';
+export { UsageMeter } from './usage';
+export { WorkQueue, isTransientError } from './workQueue';
+
+const DEFAULT_MODEL = 'gemini-2.5-flash';
+
+// Per-task models: LLM_MODEL_CV_PARSING, LLM_MODEL_SCORING, LLM_MODEL_COVER_LETTER and
+// LLM_MODEL_CV_TAILORING, each falling back to LLM_MODEL and then to the default.
+function modelsFromEnv(): Record<LlmTask, string> {
+  const fallback = process.env.LLM_MODEL || DEFAULT_MODEL;
+  return {
+    cvParsing: process.env.LLM_MODEL_CV_PARSING || fallback,
+    scoring: process.env.LLM_MODEL_SCORING || fallback,
+    coverLetter: process.env.LLM_MODEL_COVER_LETTER || fallback,
+    cvTailoring: process.env.LLM_MODEL_CV_TAILORING || fallback
+  };
+}
+
+// LLM_PROVIDER selects the implementation: `gemini` (default) or `mock`.
+export function createLlmProvider(): LlmProvider {
+  const provider = process.env.LLM_PROVIDER || 'gemini';
+  switch (provider) {
+    case 'gemini':
+      return new GeminiProvider(process.env.API_KEY || process.env.GEMINI_API_KEY, modelsFromEnv());
+    case 'mock':
+      return new MockProvider(process.env.MOCK_LLM_FIXTURES_DIR || undefined);
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${provider}`);
+  }
+}
@@ -0,0 +1,104 @@
+import { JsonSchema, LlmCallOptions, LlmProvider, LlmTask } from './types';
+
+// The model answered, but not with usable JSON. `raw` is kept so the caller can re-ask with it.
+export class LlmOutputError extends Error {
+  constructor(message: string, readonly raw: string) {
+    super(message);
+  }
+}
+
+// Parses model output, fixing the usual slips: code fences, prose around the object and
+// trailing commas.
+export function parseJsonResponse<T = unknown>(text: string): T {
+  try {
+    return JSON.parse(text);
+  } catch {
+    // fall through to repair
+  }
+  let candidate = text.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '');
+  const start = candidate.search(/[{[]/);
+  const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+  if (start >= 0 && end > start) candidate = candidate.slice(start, end + 1);
+  candidate = candidate.replace(/,\s*([}\]])/g, '$1');
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    throw new LlmOutputError('Model response was not valid JSON.', text);
+  }
+}
+
+// Lists where `value` departs from `schema` (missing required fields, wrong types).
+// Empty when it conforms.
+export function validateJson(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  switch (schema.type) {
+    case 'string':
+      return typeof value === 'string' ? [] : [`${path} should be a string`];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path} should be a boolean`];
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return [`${path} should be a number`];
+      if (schema.minimum !== undefined && value < schema.minimum) return [`${path} should be at least ${schema.minimum}`];
+      if (schema.maximum !== undefined && value > schema.maximum) return [`${path} should be at most ${schema.maximum}`];
+      return [];
+    case 'array':
+      if (!Array.isArray(value)) return [`${path} should be an array`];
+      return value.flatMap((item, i) => validateJson(item, schema.items, `${path}[${i}]`));
+    case 'object': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) return [`${path} should be an object`];
+      const record = value as Record<string, unknown>;
+      const missing = (schema.required || []).filter(key => record[key] === undefined || record[key] === null).map(key => `${path}.${key} is required`);
+      const invalid = Object.entries(schema.properties)
+        .filter(([key]) => record[key] !== undefined && record[key] !== null)
+        .flatMap(([key, child]) => validateJson(record[key], child, `${path}.${key}`));
+      return [...missing, ...invalid];
+    }
+  }
+}
+
+export interface CheckedJsonOptions extends LlmCallOptions {
+  // Extra attempts after an unparseable or non-conforming reply (default 1)
+  maxReasks?: number;
+  onReask?: (problems: string[]) => void;
+  // Awaited before every model request, re-asks included, e.g. a WorkQueue's rate limit
+  beforeCall?: () => Promise<void>;
+}
+
+// generateJson plus schema validation. An invalid reply is sent back to the model with the
+// problems listed, so it can correct itself instead of the job being lost.
+export async function generateCheckedJson<T>(
+  llm: LlmProvider,
+  task: LlmTask,
+  prompt: string,
+  schema: JsonSchema,
+  { maxReasks = 1, onReask, beforeCall, ...options }: CheckedJsonOptions = {}
+): Promise<T> {
+  let currentPrompt = prompt;
+  for (let attempt = 0; ; attempt++) {
+    let problems: string[];
+    let raw: string;
+    try {
+      await beforeCall?.();
+      const value = await llm.generateJson<T>(task, currentPrompt, schema, options);
+      problems = validateJson(value, schema);
+      if (problems.length === 0) return value;
+      raw = JSON.stringify(value);
+    } catch (error) {
+      if (!(error instanceof LlmOutputError)) throw error;
+      problems = [error.message];
+      raw = error.raw;
+    }
+
+    if (attempt >= maxReasks) throw new Error(`Model returned invalid output: ${problems.slice(0, 3).join('; ')}`);
+    onReask?.(problems);
+    currentPrompt = `${prompt}
+
+    Your previous reply did not match the required JSON format:
+    ${problems.slice(0, 10).map(p => `- ${p}`).join('\n    ')}
+
+    Previous reply:
+    ${raw.slice(0, 4000)}
+
+    Reply again with only the corrected JSON.`;
+  }
+}
@@ -0,0 +1,59 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { JsonSchema, LlmCallOptions, LlmProvider, LlmTask } from './types';
+
+const DEFAULT_FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+// One file per task (`<task>.json`). The first rule whose `promptContains` strings all occur in
+// the prompt wins; otherwise `default` is returned.
+interface FixtureFile {
+  rules?: { promptContains: string[]; response: unknown }[];
+  default: unknown;
+}
+
+// Deterministic offline provider for CI and local development. Never calls the network.
+export class MockProvider implements LlmProvider {
+  name = 'mock';
+  private readonly fixtures = new Map<LlmTask, FixtureFile>();
+
+  constructor(private readonly fixturesDir: string = DEFAULT_FIXTURES_DIR) {}
+
+  modelFor(task: LlmTask): string {
+    return `mock-${task}`;
+  }
+
+  private load(task: LlmTask): FixtureFile {
+    if (!this.fixtures.has(task)) {
+      const filePath = path.join(this.fixturesDir, `${task}.json`);
+      if (!fs.existsSync(filePath)) throw new Error(`Missing mock LLM fixture: ${filePath}`);
+      this.fixtures.set(task, JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+    }
+    return this.fixtures.get(task)!;
+  }
+
+  private respond(task: LlmTask, prompt: string): unknown {
+    const fixture = this.load(task);
+    const rule = fixture.rules?.find(r => r.promptContains.every(s => prompt.includes(s)));
+    // Return a copy so callers can't mutate the fixture
+    return structuredClone(rule ? rule.response : fixture.default);
+  }
+
+  // Usage is estimated at four characters per token so cost accounting can be exercised offline.
+  private reportUsage(prompt: string, output: string, options?: LlmCallOptions) {
+    options?.onUsage?.({ promptTokens: Math.ceil(prompt.length / 4), outputTokens: Math.ceil(output.length / 4) });
+  }
+
+  async generateJson<T>(task: LlmTask, prompt: string, _schema: JsonSchema, options?: LlmCallOptions): Promise<T> {
+    const response = this.respond(task, prompt);
+    this.reportUsage(prompt, JSON.stringify(response), options);
+    return response as T;
+  }
+
+  async generateText(task: LlmTask, prompt: string, options?: LlmCallOptions): Promise<string> {
+    const response = this.respond(task, prompt);
+    const text = typeof response === 'string' ? response : JSON.stringify(response);
+    this.reportUsage(prompt, text, options);
+    return text;
+  }
+}
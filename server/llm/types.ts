@@ -0,0 +1,30 @@
+// Pipeline steps that call a model. Each can be pointed at a different model.
+export type LlmTask = 'cvParsing' | 'scoring' | 'coverLetter' | 'cvTailoring';
+
+// Provider-neutral subset of JSON Schema used for structured output.
+export type JsonSchema =
+  | { type: 'string' | 'boolean'; description?: string }
+  | { type: 'number' | 'integer'; minimum?: number; maximum?: number; description?: string }
+  | { type: 'array'; items: JsonSchema; description?: string }
+  | { type: 'object'; properties: Record<string, JsonSchema>; required?: string[]; description?: string };
+
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+}
+
+export interface LlmCallOptions {
+  // Called once per model request with the tokens it consumed
+  onUsage?: (usage: TokenUsage) => void;
+  signal?: AbortSignal;
+}
+
+export interface LlmProvider {
+  name: string;
+  // Model used for a task, e.g. for cache keys and logging.
+  modelFor(task: LlmTask): string;
+  // Returns the parsed JSON object matching `schema`. Throws LlmOutputError when the
+  // response isn't JSON even after repair.
+  generateJson<T>(task: LlmTask, prompt: string, schema: JsonSchema, options?: LlmCallOptions): Promise<T>;
+  generateText(task: LlmTask, prompt: string, options?: LlmCallOptions): Promise<string>;
+}
@@ -0,0 +1,43 @@
+import { LlmUsage } from '../../types';
+import { TokenUsage } from './types';
+
+// USD per million tokens [input, output]. Unknown models fall back to LLM_PRICE_INPUT_PER_MTOK and
+// LLM_PRICE_OUTPUT_PER_MTOK, which also override these when set.
+const PRICES_PER_MTOK: Record<string, [number, number]> = {
+  'gemini-2.5-pro': [1.25, 10],
+  'gemini-2.5-flash': [0.30, 2.50],
+  'gemini-2.5-flash-lite': [0.10, 0.40],
+  'gemini-2.0-flash': [0.10, 0.40]
+};
+
+function priceFor(model: string): [number, number] {
+  const input = parseFloat(process.env.LLM_PRICE_INPUT_PER_MTOK || '');
+  const output = parseFloat(process.env.LLM_PRICE_OUTPUT_PER_MTOK || '');
+  const known = PRICES_PER_MTOK[model] || [0, 0];
+  return [isNaN(input) ? known[0] : input, isNaN(output) ? known[1] : output];
+}
+
+// Accumulates token usage and estimated cost for one analysis run.
+export class UsageMeter {
+  private readonly usage: LlmUsage = { requests: 0, retries: 0, promptTokens: 0, outputTokens: 0, totalTokens: 0, estimatedCostUsd: 0 };
+
+  // Returns a callback for LlmCallOptions.onUsage that prices tokens at `model`'s rate.
+  forModel(model: string): (usage: TokenUsage) => void {
+    const [inputPrice, outputPrice] = priceFor(model);
+    return ({ promptTokens, outputTokens }) => {
+      this.usage.requests++;
+      this.usage.promptTokens += promptTokens;
+      this.usage.outputTokens += outputTokens;
+      this.usage.totalTokens += promptTokens + outputTokens;
+      this.usage.estimatedCostUsd += (promptTokens * inputPrice + outputTokens * outputPrice) / 1_000_000;
+    };
+  }
+
+  recordRetry() {
+    this.usage.retries++;
+  }
+
+  totals(): LlmUsage {
+    return { ...this.usage, estimatedCostUsd: Math.round(this.usage.estimatedCostUsd * 1_000_000) / 1_000_000 };
+  }
+}
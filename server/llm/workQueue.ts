@@ -0,0 +1,95 @@
+const cancelled = () => new Error("The analysis was cancelled.");
+
+// Resolves after `ms`, or rejects as soon as `signal` aborts.
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(cancelled());
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(cancelled());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export interface WorkQueueOptions {
+  concurrency: number;
+  // Requests started per rolling minute; 0 disables the limit
+  requestsPerMinute: number;
+  maxRetries: number;
+}
+
+export interface QueuedTaskOptions {
+  signal?: AbortSignal;
+  // Called before each retry with the error that triggered it
+  onRetry?: (error: any, attempt: number) => void;
+}
+
+// Rate limits, overload and network blips are worth retrying; bad requests are not.
+export function isTransientError(error: any): boolean {
+  const status = Number(error?.status ?? error?.code);
+  if (status === 429 || status === 408 || status >= 500) return true;
+  return /\b(429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|DEADLINE_EXCEEDED|ECONNRESET|ETIMEDOUT|fetch failed/i.test(String(error?.message));
+}
+
+// Runs model calls with bounded concurrency and a requests-per-minute budget. Each task starts
+// as soon as a slot is free, so one slow call never holds up the others. A task may make several
+// requests (e.g. re-asks), so it is handed `throttle` and awaits it before each one. Transient
+// failures are retried with exponential backoff and jitter.
+export class WorkQueue {
+  private active = 0;
+  private readonly waiting: (() => void)[] = [];
+  private readonly recentStarts: number[] = [];
+
+  constructor(private readonly options: WorkQueueOptions) {}
+
+  private async acquireSlot() {
+    if (this.active < this.options.concurrency) {
+      this.active++;
+      return;
+    }
+    // The releasing task hands its slot straight over, so `active` stays the same
+    await new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  private releaseSlot() {
+    const next = this.waiting.shift();
+    if (next) next();
+    else this.active--;
+  }
+
+  // Waits until starting another request keeps within the per-minute budget.
+  private async throttle(signal?: AbortSignal) {
+    const limit = this.options.requestsPerMinute;
+    if (limit <= 0) return;
+    for (;;) {
+      const now = Date.now();
+      while (this.recentStarts.length && now - this.recentStarts[0] >= 60000) this.recentStarts.shift();
+      if (this.recentStarts.length < limit) {
+        this.recentStarts.push(now);
+        return;
+      }
+      await sleep(60000 - (now - this.recentStarts[0]) + 10, signal);
+    }
+  }
+
+  async run<T>(task: (throttle: () => Promise<void>) => Promise<T>, { signal, onRetry }: QueuedTaskOptions = {}): Promise<T> {
+    await this.acquireSlot();
+    try {
+      for (let attempt = 0; ; attempt++) {
+        if (signal?.aborted) throw cancelled();
+        try {
+          return await task(() => this.throttle(signal));
+        } catch (error) {
+          if (signal?.aborted || !isTransientError(error) || attempt >= this.options.maxRetries) throw error;
+          onRetry?.(error, attempt + 1);
+          await sleep(Math.min(1000 * 2 ** attempt, 30000) * (0.5 + Math.random() / 2), signal);
+        }
+      }
+    } finally {
+      this.releaseSlot();
+    }
+  }
+}
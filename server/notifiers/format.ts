@@ -0,0 +1,18 @@
+import { SearchDigest } from '../../types';
+
+export function digestSubject(digest: SearchDigest): string {
+  const count = digest.newMatches.length;
+  return `${count} new match${count === 1 ? '' : 'es'} for "${digest.searchName}"`;
+}
+
+// Plain-text body shared by the email notifier and the stub's log output.
+export function digestText(digest: SearchDigest): string {
+  const lines = digest.newMatches.map(job =>
+    `- [${job.score}] ${job.jobTitle} at ${job.companyName}${job.location ? ` (${job.location})` : ''}\n  ${job.applyUrl || job.jobUrl}`
+  );
+  return [
+    `${digestSubject(digest)} (score >= ${digest.threshold}, ${digest.totalScored} jobs scored).`,
+    '',
+    ...lines
+  ].join('\n');
+}
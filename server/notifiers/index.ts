@@ -0,0 +1,42 @@
+import { NotifierConfig } from '../../types';
+import { assertPublicUrl } from '../outbound';
+import { EmailNotifier } from './email';
+import { StubNotifier } from './stub';
+import { Notifier } from './types';
+import { WebhookNotifier } from './webhook';
+
+export type { Notifier } from './types';
+export { StubNotifier } from './stub';
+
+export const NOTIFIER_TYPES: NotifierConfig['type'][] = ['none', 'webhook', 'email'];
+
+// Email digests only go to the address of the account that owns the search, so a saved search
+// can't be used to send mail to anyone else. `to` may be left empty and is filled in here.
+export function validateNotifierConfig(config: unknown, accountEmail: string): NotifierConfig {
+  const c = (config || { type: 'none' }) as NotifierConfig;
+  switch (c.type) {
+    case 'none':
+      return { type: 'none' };
+    case 'webhook':
+      if (!/^https?:\/\//.test(c.url || '')) throw new Error("Webhook notifier needs an http(s) URL.");
+      assertPublicUrl(c.url);
+      return { type: 'webhook', url: c.url };
+    case 'email':
+      if (c.to && c.to.trim().toLowerCase() !== accountEmail.toLowerCase()) {
+        throw new Error(`Email digests can only be sent to your account's address (${accountEmail}).`);
+      }
+      return { type: 'email', to: accountEmail };
+    default:
+      throw new Error(`Unknown notifier type: ${(c as any).type}`);
+  }
+}
+
+// NOTIFIER_PROVIDER=stub routes every delivery to the in-memory stub, for tests and local runs.
+// Returns undefined for searches without a notifier. Email goes to `accountEmail` whatever the
+// stored config says, so searches saved before the restriction can't reach other addresses.
+export function createNotifier(config: NotifierConfig, accountEmail: string | undefined): Notifier | undefined {
+  if (config.type === 'none') return undefined;
+  const target = config.type === 'webhook' ? config.url : accountEmail || '';
+  if (process.env.NOTIFIER_PROVIDER === 'stub') return new StubNotifier(target);
+  return config.type === 'webhook' ? new WebhookNotifier(target) : new EmailNotifier(target);
+}
@@ -0,0 +1,16 @@
+import { SavedSearch, SearchDigest } from '../../types';
+import { Notifier } from './types';
+import { digestText } from './format';
+
+// Records deliveries in memory and logs them instead of sending anything.
+export class StubNotifier implements Notifier {
+  name = 'stub';
+  static readonly sent: { digest: SearchDigest; searchId: string; target: string }[] = [];
+
+  constructor(private readonly target: string = 'stub') {}
+
+  async send(digest: SearchDigest, search: SavedSearch): Promise<void> {
+    StubNotifier.sent.push({ digest, searchId: search.searchId, target: this.target });
+    console.log(`[stub notifier -> ${this.target}]\n${digestText(digest)}`);
+  }
+}
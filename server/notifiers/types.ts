@@ -0,0 +1,7 @@
+import { SavedSearch, SearchDigest } from '../../types';
+
+// Delivers a digest somewhere outside the app. Implementations throw on delivery failure.
+export interface Notifier {
+  name: string;
+  send(digest: SearchDigest, search: SavedSearch): Promise<void>;
+}
@@ -0,0 +1,26 @@
+import { SavedSearch, SearchDigest } from '../../types';
+import { fetchPublic } from '../outbound';
+import { Notifier } from './types';
+import { digestSubject } from './format';
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+// The response body is ignored; this only stops a hostile endpoint from streaming forever
+const WEBHOOK_MAX_RESPONSE_BYTES = 64 * 1024;
+
+// POSTs the digest as JSON. The URL is user-supplied, so it goes through fetchPublic. `text` makes the payload readable by Slack-style incoming webhooks.
+export class WebhookNotifier implements Notifier {
+  name = 'webhook';
+
+  constructor(private readonly url: string) {}
+
+  async send(digest: SearchDigest, search: SavedSearch): Promise<void> {
+    const response = await fetchPublic(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text: digestSubject(digest), search: { searchId: search.searchId, name: search.name }, digest }),
+      timeoutMs: WEBHOOK_TIMEOUT_MS,
+      maxBytes: WEBHOOK_MAX_RESPONSE_BYTES
+    });
+    if (!response.ok) throw new Error(`Webhook responded with ${response.status}`);
+  }
+}
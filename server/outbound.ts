@@ -0,0 +1,134 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import fetch from 'node-fetch';
+
+// Requests to user-supplied URLs (job feeds, digest webhooks) go through fetchPublic, which refuses
+// anything on the server's own machine or network and bounds time and response size.
+const FETCH_TIMEOUT_MS = parseInt(process.env.FETCH_TIMEOUT_SECONDS || '20') * 1000;
+const FETCH_MAX_BYTES = parseInt(process.env.FETCH_MAX_MB || '5') * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+// Hostnames on a private network that may still be fetched, e.g. an intranet job feed
+const PRIVATE_HOSTS = (process.env.FETCH_PRIVATE_HOSTS || '').split(',').map(h => h.trim().toLowerCase()).filter(Boolean);
+
+function isPrivateIPv4(address: string): boolean {
+  const [a, b, c] = address.split('.').map(Number);
+  return a === 0 || a === 10 || a === 127 || a >= 224 ||
+    (a === 100 && b >= 64 && b < 128) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b < 32) ||
+    (a === 192 && b === 168) ||
+    (a === 192 && b === 0 && c === 0) ||
+    (a === 198 && (b === 18 || b === 19));
+}
+
+// The IPv4 address inside an IPv4-mapped (::ffff:a.b.c.d) or NAT64 (64:ff9b::a.b.c.d) address.
+function embeddedIPv4(address: string): string | undefined {
+  const match = /^(?:::ffff:|64:ff9b::)(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/.exec(address);
+  if (!match) return undefined;
+  if (match[1]) return match[1];
+  const high = parseInt(match[2], 16);
+  const low = parseInt(match[3], 16);
+  return [high >> 8, high & 255, low >> 8, low & 255].join('.');
+}
+
+// Loopback, private, link-local, carrier-grade NAT, multicast and unspecified addresses.
+export function isPrivateAddress(address: string): boolean {
+  if (net.isIPv4(address)) return isPrivateIPv4(address);
+  const ip = address.toLowerCase().replace(/^\[|\]$/g, '');
+  const v4 = embeddedIPv4(ip);
+  if (v4) return isPrivateIPv4(v4);
+  return ip.startsWith('::') || /^f[cd]/.test(ip) || /^fe[89ab]/.test(ip) || ip.startsWith('ff');
+}
+
+const isAllowedPrivateHost = (hostname: string) => PRIVATE_HOSTS.includes(hostname.toLowerCase());
+
+// Checked when the socket connects, so names that resolve (or re-resolve) to a private address
+// are refused too, including after redirects.
+function publicLookup(hostname: string, options: any, callback: (...args: any[]) => void) {
+  dns.lookup(hostname, { ...options, all: true }, (error: NodeJS.ErrnoException | null, addresses: dns.LookupAddress[]) => {
+    if (error) return callback(error);
+    if (!isAllowedPrivateHost(hostname) && addresses.some(a => isPrivateAddress(a.address))) {
+      return callback(new Error(`${hostname} resolves to a private network address.`));
+    }
+    if (options.all) callback(null, addresses);
+    else callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+const httpAgent = new http.Agent({ lookup: publicLookup as any });
+const httpsAgent = new https.Agent({ lookup: publicLookup as any });
+
+// Parses and checks a URL before any request is made. Throws with a message fit for the user.
+export function assertPublicUrl(value: string): URL {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error("Please enter a full http(s) URL.");
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error("Only http and https URLs are supported.");
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host) && isPrivateAddress(host) && !isAllowedPrivateHost(host)) {
+    throw new Error("URLs on private or local networks are not allowed.");
+  }
+  return url;
+}
+
+export interface PublicFetchOptions {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  maxBytes?: number;
+}
+
+export interface PublicResponse {
+  status: number;
+  ok: boolean;
+  text: string;
+}
+
+// Fetches a user-supplied URL. Redirects are followed by hand so every hop is checked again.
+export async function fetchPublic(value: string, options: PublicFetchOptions = {}): Promise<PublicResponse> {
+  const timeoutMs = options.timeoutMs ?? FETCH_TIMEOUT_MS;
+  const maxBytes = options.maxBytes ?? FETCH_MAX_BYTES;
+  const signal = AbortSignal.any([AbortSignal.timeout(timeoutMs), ...(options.signal ? [options.signal] : [])]);
+  let { method = 'GET', body } = options;
+  let target = value;
+
+  try {
+    for (let redirects = 0; ; redirects++) {
+      const url = assertPublicUrl(target);
+      const res = await fetch(url, {
+        method,
+        headers: options.headers,
+        body,
+        signal: signal as any,
+        redirect: 'manual',
+        size: maxBytes,
+        agent: url.protocol === 'https:' ? httpsAgent : httpAgent
+      });
+      const location = res.headers.get('location');
+      if (res.status >= 300 && res.status < 400 && location) {
+        if (redirects >= MAX_REDIRECTS) throw new Error("Too many redirects.");
+        if (res.status === 303) {
+          method = 'GET';
+          body = undefined;
+        }
+        target = new URL(location, url).toString();
+        continue;
+      }
+      return { status: res.status, ok: res.ok, text: await res.text() };
+    }
+  } catch (error: any) {
+    if (error.name === 'AbortError') {
+      throw new Error(options.signal?.aborted ? "The request was cancelled." : `No response within ${Math.round(timeoutMs / 1000)} seconds.`);
+    }
+    if (error.type === 'max-size') throw new Error(`The response is larger than ${Math.round(maxBytes / 1024 / 1024)} MB.`);
+    // node-fetch wraps connection errors as "request to <url> failed, reason: ..."
+    throw new Error(error.message.replace(/^request to \S+ failed, reason: /, ''));
+  }
+}
@@ -0,0 +1,151 @@
+import { FilteredJob, Job, PrefilterReport, PrefilterRules } from '../types';
+
+export const DEFAULT_PREFILTER_RULES: PrefilterRules = {
+  includeKeywords: [],
+  excludeKeywords: [],
+  blockedCompanies: [],
+  excludeTitlePatterns: [],
+  languages: []
+};
+
+// A few very common function words per language; enough to tell postings apart cheaply.
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'with', 'you', 'for', 'our', 'are', 'will', 'your', 'this'],
+  de: ['und', 'der', 'die', 'das', 'mit', 'für', 'wir', 'sie', 'ist', 'ein'],
+  fr: ['les', 'et', 'des', 'pour', 'vous', 'nous', 'une', 'est', 'dans', 'avec'],
+  es: ['el', 'los', 'las', 'para', 'con', 'que', 'una', 'del', 'por', 'como'],
+  nl: ['het', 'een', 'van', 'voor', 'met', 'wij', 'je', 'zijn', 'ons', 'op'],
+  it: ['il', 'della', 'per', 'con', 'che', 'una', 'sono', 'nel', 'gli', 'del'],
+  pt: ['os', 'para', 'com', 'uma', 'que', 'não', 'dos', 'das', 'você', 'nossa']
+};
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const MAX_TERM_LENGTH = 100;
+const MAX_TERMS_PER_LIST = 50;
+
+const wholeWord = (pattern: string) => new RegExp(`(^|[^\\p{L}\\p{N}])${pattern}($|[^\\p{L}\\p{N}])`, 'iu');
+
+// Terms match as whole words (so "Intern" doesn't match "International"). A `*` at the start or
+// end of a term matches the rest of the word, e.g. "intern*". Rules run on the shared server
+// against every posting, so regular expressions are not accepted: these patterns match in
+// linear time whatever the input.
+function toMatcher(term: string): RegExp {
+  if (/^\/.+\/$/.test(term)) {
+    throw new Error(`Regular expressions are not supported in filters ("${term}"). Use plain words, with * as a wildcard, e.g. intern*.`);
+  }
+  if (term.length > MAX_TERM_LENGTH) throw new Error(`Filter terms can be at most ${MAX_TERM_LENGTH} characters.`);
+  const match = /^(\*?)([^*]+)(\*?)$/.exec(term);
+  if (!match) throw new Error(`"${term}": * can only be used at the start or end of a word.`);
+  const [, leading, word, trailing] = match;
+  const rest = '[\\p{L}\\p{N}]*';
+  return wholeWord(`${leading ? rest : ''}${escapeRegExp(word)}${trailing ? rest : ''}`);
+}
+
+function firstMatch(terms: string[], text: string): string | undefined {
+  return terms.find(term => toMatcher(term).test(text));
+}
+
+// Returns an ISO 639-1 code, or undefined when the text is too short to tell.
+export function detectLanguage(text: string): string | undefined {
+  const words = text.toLowerCase().match(/\p{L}+/gu) || [];
+  if (words.length < 30) return undefined;
+  const counts = new Map<string, number>();
+  for (const word of words) counts.set(word, (counts.get(word) || 0) + 1);
+
+  let best: string | undefined;
+  let bestHits = 0;
+  for (const [lang, stopwords] of Object.entries(STOPWORDS)) {
+    const hits = stopwords.reduce((sum, w) => sum + (counts.get(w) || 0), 0);
+    if (hits > bestHits) {
+      best = lang;
+      bestHits = hits;
+    }
+  }
+  return bestHits >= 3 ? best : undefined;
+}
+
+// Share (0-100) of the candidate's skills that appear in the posting.
+export function lexicalOverlap(skills: string[], job: Job): number {
+  if (skills.length === 0) return 0;
+  const text = `${job.jobTitle}\n${job.description}`;
+  const matched = skills.filter(skill => skill.trim() && wholeWord(escapeRegExp(skill.trim())).test(text)).length;
+  return Math.round((matched / skills.length) * 100);
+}
+
+// Accepts the `filters` form field (JSON) and fills in defaults.
+export function parsePrefilterRules(input: unknown): PrefilterRules {
+  if (!input) return DEFAULT_PREFILTER_RULES;
+  const raw = typeof input === 'string' ? JSON.parse(input) : input;
+  const list = (value: unknown) => {
+    const terms = Array.isArray(value) ? value.map(v => String(v).trim()).filter(Boolean) : [];
+    if (terms.length > MAX_TERMS_PER_LIST) throw new Error(`Each filter list can hold at most ${MAX_TERMS_PER_LIST} entries.`);
+    return terms;
+  };
+  const topK = parseInt(raw.topK);
+
+  const rules: PrefilterRules = {
+    includeKeywords: list(raw.includeKeywords),
+    excludeKeywords: list(raw.excludeKeywords),
+    blockedCompanies: list(raw.blockedCompanies),
+    excludeTitlePatterns: list(raw.excludeTitlePatterns),
+    languages: list(raw.languages).map(l => l.toLowerCase()),
+    topK: topK > 0 ? topK : undefined
+  };
+  // Surface bad patterns up front rather than halfway through a run
+  [...rules.includeKeywords, ...rules.excludeKeywords, ...rules.excludeTitlePatterns].forEach(toMatcher);
+  return rules;
+}
+
+function rejectReason(job: Job, rules: PrefilterRules): Omit<FilteredJob, 'job'> | null {
+  const company = job.companyName.toLowerCase().trim();
+  const blocked = rules.blockedCompanies.find(c => c.toLowerCase() === company);
+  if (blocked) return { rule: 'blocked-company', reason: `Company "${job.companyName}" is blocked` };
+
+  const titlePattern = firstMatch(rules.excludeTitlePatterns, job.jobTitle);
+  if (titlePattern) return { rule: 'title-pattern', reason: `Title matches excluded pattern "${titlePattern}"` };
+
+  const text = `${job.jobTitle}\n${job.description}`;
+  const excluded = firstMatch(rules.excludeKeywords, text);
+  if (excluded) return { rule: 'exclude-keyword', reason: `Contains excluded keyword "${excluded}"` };
+
+  if (rules.includeKeywords.length > 0 && !firstMatch(rules.includeKeywords, text)) {
+    return { rule: 'include-keyword', reason: `Contains none of: ${rules.includeKeywords.join(', ')}` };
+  }
+
+  if (rules.languages.length > 0) {
+    const language = detectLanguage(job.description);
+    if (language && !rules.languages.includes(language)) {
+      return { rule: 'language', reason: `Posting language "${language}" is not one of: ${rules.languages.join(', ')}` };
+    }
+  }
+
+  return null;
+}
+
+// Rule-based stage between fetching and LLM scoring. Rejected jobs are reported with the rule
+// that removed them; survivors are ranked by lexical overlap with the CV skills and cut to top-K.
+export function prefilterJobs(jobs: Job[], rules: PrefilterRules, skills: string[]): { jobs: Job[]; report: PrefilterReport } {
+  const filtered: FilteredJob[] = [];
+  const candidates: Job[] = [];
+
+  for (const job of jobs) {
+    const rejection = rejectReason(job, rules);
+    if (rejection) filtered.push({ job, ...rejection });
+    else candidates.push({ ...job, lexicalScore: lexicalOverlap(skills, job) });
+  }
+
+  candidates.sort((a, b) => (b.lexicalScore || 0) - (a.lexicalScore || 0));
+
+  const passed = rules.topK ? candidates.slice(0, rules.topK) : candidates;
+  for (const job of candidates.slice(passed.length)) {
+    filtered.push({ job, rule: 'top-k', reason: `Ranked below the top ${rules.topK} by skill overlap (${job.lexicalScore}%)` });
+  }
+
+  return {
+    jobs: passed,
+    report: { received: jobs.length, passed: passed.length, filtered }
+  };
+}
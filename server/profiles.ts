@@ -0,0 +1,44 @@
+import { v4 as uuidv4 } from 'uuid';
+import { CandidateProfile, SavedProfile } from '../types';
+import { OwnedCollection } from './storage';
+import { normalizeProfile } from './cvParser';
+
+const profiles = new OwnedCollection<SavedProfile>('profiles');
+
+export function listProfiles(userId: string): SavedProfile[] {
+  return profiles.allFor(userId).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export function getProfile(userId: string, profileId: string): SavedProfile | undefined {
+  return profiles.getFor(profileId, userId);
+}
+
+// Returns the profile with every field present: runs describe a saved profile to the model field
+// by field, so a missing list would fail every job scored against it.
+function validate(name: unknown, profile: unknown): CandidateProfile {
+  if (typeof name !== 'string' || !name.trim()) throw new Error("Profile name is required.");
+  const p = profile as CandidateProfile;
+  if (!p || !Array.isArray(p.skills) || typeof p.profileSummary !== 'string' || !Array.isArray(p.experienceHighlights)) {
+    throw new Error("Profile must include skills, profileSummary and experienceHighlights.");
+  }
+  return normalizeProfile(p);
+}
+
+export function createProfile(userId: string, name: string, input: CandidateProfile): SavedProfile {
+  const profile = validate(name, input);
+  const now = new Date().toISOString();
+  const saved: SavedProfile = { profileId: uuidv4(), userId, name: name.trim(), profile, createdAt: now, updatedAt: now };
+  return profiles.set(saved.profileId, saved);
+}
+
+// Returns undefined when the profile doesn't exist.
+export function updateProfile(userId: string, profileId: string, name: string, input: CandidateProfile): SavedProfile | undefined {
+  const existing = profiles.getFor(profileId, userId);
+  if (!existing) return undefined;
+  const profile = validate(name, input);
+  return profiles.set(profileId, { ...existing, name: name.trim(), profile, updatedAt: new Date().toISOString() });
+}
+
+export function deleteProfile(userId: string, profileId: string): boolean {
+  return !!profiles.getFor(profileId, userId) && profiles.delete(profileId);
+}
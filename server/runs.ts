@@ -0,0 +1,117 @@
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import { AnalysisRun, AnalyzedResponse, CandidateProfile, Job, RunEvent, RunProgress } from '../types';
+
+// Finished runs are kept in memory for this long so clients can reconnect and fetch results.
+const RUN_RETENTION_MS = parseInt(process.env.RUN_RETENTION_SECONDS || '3600') * 1000;
+
+// Runs nobody is watching any more are cancelled after this long, so closing the tab doesn't
+// leave an Apify run burning credits. Runs that never had a watcher (scheduled ones) are unaffected.
+const RUN_ABANDON_MS = parseInt(process.env.RUN_ABANDON_SECONDS || '60') * 1000;
+
+const runs = new Map<string, AnalysisRun>();
+const controllers = new Map<string, AbortController>();
+const events = new EventEmitter();
+events.setMaxListeners(0);
+
+// Callbacks handed to the pipeline so each stage can report without knowing about runs.
+export interface ProgressReporter {
+  progress: (progress: RunProgress) => void;
+  profile: (profile: CandidateProfile) => void;
+  jobScored: (job: Job) => void;
+}
+
+export function createRun(userId: string): AnalysisRun {
+  const now = new Date().toISOString();
+  const run: AnalysisRun = {
+    runId: uuidv4(),
+    userId,
+    progress: { stage: 'queued', message: 'Waiting to start...' },
+    createdAt: now,
+    updatedAt: now,
+    jobs: []
+  };
+  runs.set(run.runId, run);
+  controllers.set(run.runId, new AbortController());
+  return run;
+}
+
+// Undefined unless the run exists and belongs to `userId`.
+export function getRun(userId: string, runId: string): AnalysisRun | undefined {
+  const run = runs.get(runId);
+  return run?.userId === userId ? run : undefined;
+}
+
+export function isFinished(run: AnalysisRun): boolean {
+  return run.progress.stage === 'done' || run.progress.stage === 'failed';
+}
+
+// Aborted when the run is cancelled. Pipeline stages pass it on to anything long-running.
+export function runSignal(run: AnalysisRun): AbortSignal {
+  return controllers.get(run.runId)!.signal;
+}
+
+// Returns false when the run has already finished.
+export function cancelRun(run: AnalysisRun): boolean {
+  if (isFinished(run)) return false;
+  console.log(`Cancelling analysis run ${run.runId}`);
+  controllers.get(run.runId)?.abort();
+  return true;
+}
+
+function emit(run: AnalysisRun, event: RunEvent) {
+  run.updatedAt = new Date().toISOString();
+  events.emit(run.runId, event);
+}
+
+export function createReporter(run: AnalysisRun): ProgressReporter {
+  return {
+    progress: (progress) => {
+      run.progress = progress;
+      emit(run, { type: 'progress', progress });
+    },
+    profile: (profile) => {
+      run.profile = profile;
+      emit(run, { type: 'profile', profile });
+    },
+    jobScored: (job) => {
+      run.jobs.push(job);
+      emit(run, { type: 'job', job });
+    }
+  };
+}
+
+export function completeRun(run: AnalysisRun, result: AnalyzedResponse) {
+  run.result = result;
+  run.jobs = result.jobs;
+  run.progress = { stage: 'done', message: `Done. ${result.jobs.length} jobs scored.` };
+  emit(run, { type: 'done', result });
+  controllers.delete(run.runId);
+  scheduleEviction(run.runId);
+}
+
+export function failRun(run: AnalysisRun, error: string) {
+  run.error = error;
+  run.progress = { stage: 'failed', message: error };
+  emit(run, { type: 'failed', error });
+  controllers.delete(run.runId);
+  scheduleEviction(run.runId);
+}
+
+// Returns an unsubscribe function. Listeners receive every event emitted after subscribing.
+export function subscribe(runId: string, listener: (event: RunEvent) => void): () => void {
+  events.on(runId, listener);
+  return () => {
+    events.off(runId, listener);
+    if (events.listenerCount(runId) === 0) setTimeout(() => cancelIfAbandoned(runId), RUN_ABANDON_MS).unref();
+  };
+}
+
+function cancelIfAbandoned(runId: string) {
+  const run = runs.get(runId);
+  if (run && !isFinished(run) && events.listenerCount(runId) === 0) cancelRun(run);
+}
+
+function scheduleEviction(runId: string) {
+  setTimeout(() => runs.delete(runId), RUN_RETENTION_MS).unref();
+}
@@ -0,0 +1,129 @@
+import { CronExpressionParser } from 'cron-parser';
+import { v4 as uuidv4 } from 'uuid';
+import { SavedSearch, SavedSearchInput, SearchDigest } from '../types';
+import { getJobSource, parseMaxJobs } from './jobSources';
+import { parsePrefilterRules } from './prefilter';
+import { getProfile } from './profiles';
+import { validateNotifierConfig } from './notifiers';
+import { getUser } from './auth';
+import { getCredential } from './credentials';
+import { OwnedCollection } from './storage';
+
+const searches = new OwnedCollection<SavedSearch>('searches');
+const digests = new OwnedCollection<SearchDigest>('digests');
+
+// Digests kept per search; older ones are dropped when a new one is recorded.
+const MAX_DIGESTS_PER_SEARCH = parseInt(process.env.MAX_DIGESTS_PER_SEARCH || '30');
+
+// Next run after `from`, or undefined for on-demand searches. Throws on an invalid expression.
+export function nextRunAfter(schedule: string, from: Date = new Date()): string | undefined {
+  if (!schedule.trim()) return undefined;
+  try {
+    return CronExpressionParser.parse(schedule, { currentDate: from }).next().toISOString() || undefined;
+  } catch {
+    throw new Error(`Invalid cron expression: ${schedule}`);
+  }
+}
+
+function validate(userId: string, input: SavedSearchInput): SavedSearchInput {
+  if (typeof input?.name !== 'string' || !input.name.trim()) throw new Error("Search name is required.");
+  if (!getProfile(userId, input.profileId)) throw new Error("Saved searches need a saved profile.");
+  if (input.credentialId && !getCredential(userId, input.credentialId)) throw new Error("Saved Apify credential not found.");
+  const source = getJobSource(input.source);
+  if (!input.searchUrl?.trim()) throw new Error("Search URL is required.");
+  const schedule = String(input.schedule || '').trim();
+  nextRunAfter(schedule);
+  return {
+    name: input.name.trim(),
+    source: source.id,
+    searchUrl: input.searchUrl.trim(),
+    maxJobs: parseMaxJobs(input.maxJobs),
+    credentialId: input.credentialId || undefined,
+    filters: parsePrefilterRules(input.filters),
+    profileId: input.profileId,
+    threshold: Math.max(0, Math.min(100, Number(input.threshold) || 0)),
+    schedule,
+    enabled: input.enabled !== false,
+    notifier: validateNotifierConfig(input.notifier, getUser(userId)?.email || '')
+  };
+}
+
+export function listSearches(userId: string): SavedSearch[] {
+  return searches.allFor(userId).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function getSearch(userId: string, searchId: string): SavedSearch | undefined {
+  return searches.getFor(searchId, userId);
+}
+
+// Enabled searches of every user whose next run is due; for the scheduler.
+export function dueSearches(now = Date.now()): SavedSearch[] {
+  return searches.all().filter(s => s.enabled && s.nextRunAt && Date.parse(s.nextRunAt) <= now);
+}
+
+export function createSearch(userId: string, input: SavedSearchInput): SavedSearch {
+  const fields = validate(userId, input);
+  const now = new Date().toISOString();
+  const search: SavedSearch = {
+    searchId: uuidv4(),
+    userId,
+    ...fields,
+    filters: fields.filters!,
+    lastJobKeys: [],
+    nextRunAt: fields.enabled ? nextRunAfter(fields.schedule) : undefined,
+    createdAt: now,
+    updatedAt: now
+  };
+  return searches.set(search.searchId, search);
+}
+
+// Returns undefined when the search doesn't exist. Changing the schedule reschedules the next run.
+export function updateSearch(userId: string, searchId: string, input: SavedSearchInput): SavedSearch | undefined {
+  const existing = searches.getFor(searchId, userId);
+  if (!existing) return undefined;
+  const fields = validate(userId, input);
+  return searches.set(searchId, {
+    ...existing,
+    ...fields,
+    filters: fields.filters!,
+    nextRunAt: fields.enabled ? nextRunAfter(fields.schedule) : undefined,
+    updatedAt: new Date().toISOString()
+  });
+}
+
+// Bookkeeping after a scheduled or manual run; not part of the public CRUD surface.
+export function recordSearchRun(searchId: string, result: { jobKeys?: string[]; error?: string }) {
+  const existing = searches.get(searchId);
+  if (!existing) return;
+  const now = new Date();
+  searches.set(searchId, {
+    ...existing,
+    lastJobKeys: result.jobKeys ?? existing.lastJobKeys,
+    lastError: result.error,
+    lastRunAt: now.toISOString(),
+    nextRunAt: existing.enabled ? nextRunAfter(existing.schedule, now) : undefined
+  });
+}
+
+export function deleteSearch(userId: string, searchId: string): boolean {
+  if (!searches.getFor(searchId, userId)) return false;
+  searches.delete(searchId);
+  digests.allFor(userId).filter(d => d.searchId === searchId).forEach(d => digests.delete(d.digestId));
+  return true;
+}
+
+export function listDigests(userId: string, searchId?: string): SearchDigest[] {
+  return digests.allFor(userId)
+    .filter(d => !searchId || d.searchId === searchId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function getDigest(userId: string, digestId: string): SearchDigest | undefined {
+  return digests.getFor(digestId, userId);
+}
+
+export function saveDigest(digest: SearchDigest): SearchDigest {
+  digests.set(digest.digestId, digest);
+  listDigests(digest.userId!, digest.searchId).slice(MAX_DIGESTS_PER_SEARCH).forEach(d => digests.delete(d.digestId));
+  return digest;
+}
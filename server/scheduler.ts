@@ -0,0 +1,91 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AnalyzedResponse, Job, SavedSearch, SearchDigest } from '../types';
+import { getUser } from './auth';
+import { createNotifier } from './notifiers';
+import { dueSearches, recordSearchRun, saveDigest } from './savedSearches';
+
+const TICK_MS = parseInt(process.env.SCHEDULER_TICK_SECONDS || '60') * 1000;
+
+// Runs the analysis pipeline for a saved search. Provided by the server so the scheduler
+// doesn't depend on how runs are created.
+export type SearchRunner = (search: SavedSearch) => Promise<{ runId: string; result: AnalyzedResponse }>;
+
+const running = new Set<string>();
+
+const jobKey = (job: Job) => job.fingerprint || job.jobId;
+
+// Matches at or above the threshold whose posting wasn't scored in the previous run.
+export function buildDigest(search: SavedSearch, runId: string, result: AnalyzedResponse): SearchDigest {
+  const previous = new Set(search.lastJobKeys);
+  const newMatches = result.jobs
+    .filter(job => (job.score || 0) >= search.threshold && !previous.has(jobKey(job)))
+    .sort((a, b) => (b.score || 0) - (a.score || 0));
+
+  return {
+    digestId: uuidv4(),
+    userId: search.userId,
+    searchId: search.searchId,
+    searchName: search.name,
+    runId,
+    threshold: search.threshold,
+    newMatches,
+    totalScored: result.jobs.length,
+    createdAt: new Date().toISOString()
+  };
+}
+
+// Runs one saved search, stores its digest and delivers it when there is something new.
+// Concurrent runs of the same search are rejected.
+export async function runSavedSearch(search: SavedSearch, runSearch: SearchRunner): Promise<SearchDigest> {
+  const { searchId } = search;
+  if (running.has(searchId)) throw new Error(`"${search.name}" is already running.`);
+
+  running.add(searchId);
+  try {
+    const { runId, result } = await runSearch(search);
+    const digest = buildDigest(search, runId, result);
+
+    const notifier = createNotifier(search.notifier, search.userId ? getUser(search.userId)?.email : undefined);
+    if (notifier && digest.newMatches.length > 0) {
+      try {
+        await notifier.send(digest, search);
+        digest.delivery = { notifier: notifier.name, at: new Date().toISOString() };
+      } catch (error: any) {
+        console.error(`Digest delivery failed for "${search.name}":`, error);
+        digest.delivery = { notifier: notifier.name, at: new Date().toISOString(), error: error.message };
+      }
+    }
+
+    saveDigest(digest);
+    recordSearchRun(searchId, { jobKeys: result.jobs.map(jobKey) });
+    console.log(`Saved search "${search.name}": ${digest.newMatches.length} new matches`);
+    return digest;
+  } catch (error: any) {
+    recordSearchRun(searchId, { error: error.message });
+    throw error;
+  } finally {
+    running.delete(searchId);
+  }
+}
+
+export function isSearchRunning(searchId: string): boolean {
+  return running.has(searchId);
+}
+
+// Every tick, runs the due searches one after another so scheduled runs never pile up.
+export function startScheduler(runSearch: SearchRunner) {
+  let busy = false;
+  const tick = async () => {
+    if (busy) return;
+    busy = true;
+    try {
+      for (const search of dueSearches()) {
+        await runSavedSearch(search, runSearch)
+          .catch(error => console.error(`Scheduled search "${search.name}" failed:`, error.message));
+      }
+    } finally {
+      busy = false;
+    }
+  };
+  setInterval(tick, TICK_MS).unref();
+}
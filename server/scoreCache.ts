@@ -0,0 +1,80 @@
+import { CandidateProfile, JobMatch } from '../types';
+import { JsonCollection } from './storage';
+import { sha256 } from './jobStore';
+
+// Entries older than this are ignored, and dropped from the file on the next write.
+const CACHE_TTL_MS = parseInt(process.env.SCORE_CACHE_TTL_DAYS || '30') * 24 * 60 * 60 * 1000;
+// Parsed CVs are personal data, so they are kept for much less time than scores.
+const PROFILE_CACHE_TTL_MS = parseInt(process.env.PROFILE_CACHE_TTL_HOURS || '24') * 60 * 60 * 1000;
+// Beyond this many entries per cache the oldest are dropped.
+const CACHE_MAX_ENTRIES = parseInt(process.env.SCORE_CACHE_MAX_ENTRIES || '20000');
+// Writes within this window are saved together; each save rewrites the whole file.
+const FLUSH_DELAY_MS = 1000;
+
+interface CacheEntry<T> {
+  value: T;
+  cachedAt: string;
+}
+
+// Persistent cache for model outputs. Keys are hashes of everything that affects the output
+// (inputs, prompt version and model), so a hit is always safe to reuse.
+export class ResultCache<T> {
+  private readonly entries: JsonCollection<CacheEntry<T>>;
+  private readonly pending = new Map<string, CacheEntry<T>>();
+  private flushTimer?: NodeJS.Timeout;
+  private pruned = false;
+
+  constructor(name: string, private readonly ttlMs = CACHE_TTL_MS) {
+    this.entries = new JsonCollection<CacheEntry<T>>(name);
+  }
+
+  key(...parts: unknown[]): string {
+    return sha256(JSON.stringify(parts));
+  }
+
+  get(key: string): T | undefined {
+    if (!this.pruned) this.prune();
+    const entry = this.pending.get(key) || this.entries.get(key);
+    if (entry && Date.now() - new Date(entry.cachedAt).getTime() < this.ttlMs) return entry.value;
+    return undefined;
+  }
+
+  // Buffered; saved by flush() at most FLUSH_DELAY_MS later.
+  set(key: string, value: T) {
+    this.pending.set(key, { value, cachedAt: new Date().toISOString() });
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), FLUSH_DELAY_MS);
+      this.flushTimer.unref();
+    }
+  }
+
+  flush() {
+    clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
+    if (this.pending.size === 0) return;
+    this.entries.setMany([...this.pending]);
+    this.pending.clear();
+    this.prune();
+  }
+
+  // Drops expired entries, then the oldest beyond CACHE_MAX_ENTRIES.
+  private prune() {
+    this.pruned = true;
+    const now = Date.now();
+    const all = this.entries.entries();
+    const expired = all.filter(([, e]) => !(now - new Date(e.cachedAt).getTime() < this.ttlMs));
+    const live = all.filter(([, e]) => now - new Date(e.cachedAt).getTime() < this.ttlMs);
+    const excess = live.length > CACHE_MAX_ENTRIES
+      ? live.sort(([, a], [, b]) => b.cachedAt.localeCompare(a.cachedAt)).slice(CACHE_MAX_ENTRIES)
+      : [];
+    this.entries.deleteMany([...expired, ...excess].map(([id]) => id));
+  }
+}
+
+// Bump when the CV extraction prompt or schema changes.
+export const CV_PROMPT_VERSION = 'cv-v2';
+// Bump when createScoringPrompt or the scoring schema changes.
+export const SCORING_PROMPT_VERSION = 'score-v4';
+
+export const profileCache = new ResultCache<CandidateProfile>('profile-cache', PROFILE_CACHE_TTL_MS);
+export const scoreCache = new ResultCache<JobMatch>('score-cache');
@@ -0,0 +1,85 @@
+import { CandidateProfile, Job, JobMatch } from '../types';
+import { CheckedJsonOptions, JsonSchema, LlmProvider, generateCheckedJson } from './llm';
+import { describeCandidate } from './cvParser';
+import { UNTRUSTED_CONTENT_RULES, clampScore, fenceUntrusted, untrustedLine } from './promptSafety';
+
+// No minimum/maximum: an out-of-range score is still a usable answer, so it is clamped below
+// rather than failing validation.
+const PERCENT: JsonSchema = { type: 'number', description: '0-100' };
+
+export const JOB_MATCH_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    score: PERCENT,
+    verdict: { type: 'string' },
+    breakdown: {
+      type: 'object',
+      properties: {
+        skills: PERCENT,
+        seniority: PERCENT,
+        domain: PERCENT,
+        location: PERCENT
+      },
+      required: ['skills', 'seniority', 'domain', 'location']
+    },
+    matchedSkills: { type: 'array', items: { type: 'string' } },
+    missingSkills: { type: 'array', items: { type: 'string' } },
+    dealbreakers: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['score', 'verdict', 'breakdown', 'matchedSkills', 'missingSkills', 'dealbreakers']
+};
+
+// Every field taken from the posting is sanitised and fenced.
+export const createScoringPrompt = (profile: CandidateProfile, job: Job) => `
+    You are a recruiter. Compare this candidate's profile to the job description.
+    ${UNTRUSTED_CONTENT_RULES}
+
+    CANDIDATE:
+    ${describeCandidate(profile)}
+
+    JOB TITLE: ${untrustedLine('job_title', job.jobTitle)}
+    JOB LOCATION: ${job.location?.trim() ? untrustedLine('job_location', job.location) : 'Not specified'}
+    JOB DESCRIPTION:
+    ${fenceUntrusted('job_description', job.description, 3000)}
+
+    Rubric:
+    - 90-100: Perfect match (skills, seniority, industry).
+    - 70-89: Good match (missing minor skills).
+    - 50-69: Potential match (transferable skills).
+    - <50: Poor match.
+
+    Also rate each dimension from 0-100:
+    - skills: overlap between the candidate's skills and the required skills.
+    - seniority: fit between the candidate's level and the role's level.
+    - domain: relevance of the candidate's industry/domain experience.
+    - location: fit of location, relocation and remote requirements.
+
+    Return JSON:
+    {
+      "score": number (0-100),
+      "verdict": string (2-4 sentences explaining the score),
+      "breakdown": { "skills": number, "seniority": number, "domain": number, "location": number },
+      "matchedSkills": string[] (required skills the candidate has),
+      "missingSkills": string[] (required skills the candidate lacks; empty if none),
+      "dealbreakers": string[] (hard requirements the candidate clearly cannot meet; empty if none)
+    }
+  `;
+
+// Asks the model to score one prompt. Every score comes back as a whole number in 0-100,
+// whatever the model (or a posting steering it) answered.
+export async function requestJobMatch(llm: LlmProvider, prompt: string, options: CheckedJsonOptions = {}): Promise<JobMatch> {
+  const raw = await generateCheckedJson<JobMatch>(llm, 'scoring', prompt, JOB_MATCH_SCHEMA, options);
+  return {
+    score: clampScore(raw.score),
+    verdict: raw.verdict,
+    breakdown: {
+      skills: clampScore(raw.breakdown.skills),
+      seniority: clampScore(raw.breakdown.seniority),
+      domain: clampScore(raw.breakdown.domain),
+      location: clampScore(raw.breakdown.location)
+    },
+    matchedSkills: raw.matchedSkills || [],
+    missingSkills: raw.missingSkills || [],
+    dealbreakers: raw.dealbreakers || []
+  };
+}
@@ -0,0 +1,113 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+export const DATA_DIR = process.env.DATA_DIR || path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'data');
+
+if (!fs.existsSync(DATA_DIR)) fs.mkdirSync(DATA_DIR, { recursive: true });
+
+// A keyed collection persisted as one JSON file under DATA_DIR. Reads are served from memory;
+// every write rewrites the file via a temp file + rename so a crash never leaves it half-written.
+export class JsonCollection<T> {
+  private readonly filePath: string;
+  private records: Record<string, T> | null = null;
+
+  constructor(readonly name: string) {
+    this.filePath = path.join(DATA_DIR, `${name}.json`);
+  }
+
+  private load(): Record<string, T> {
+    if (!this.records) {
+      this.records = fs.existsSync(this.filePath)
+        ? JSON.parse(fs.readFileSync(this.filePath, 'utf-8'))
+        : {};
+    }
+    return this.records!;
+  }
+
+  private save() {
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(this.records, null, 2));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+
+  get(id: string): T | undefined {
+    return this.load()[id];
+  }
+
+  entries(): [string, T][] {
+    return Object.entries(this.load());
+  }
+
+  all(): T[] {
+    return Object.values(this.load());
+  }
+
+  set(id: string, value: T): T {
+    this.load()[id] = value;
+    this.save();
+    return value;
+  }
+
+  // Applies several writes with a single save.
+  setMany(entries: [string, T][]) {
+    const records = this.load();
+    for (const [id, value] of entries) records[id] = value;
+    this.save();
+  }
+
+  delete(id: string): boolean {
+    const records = this.load();
+    if (!(id in records)) return false;
+    delete records[id];
+    this.save();
+    return true;
+  }
+
+  // Removes several records with a single save; returns how many existed.
+  deleteMany(ids: string[]): number {
+    const records = this.load();
+    const present = ids.filter(id => id in records);
+    if (present.length === 0) return 0;
+    for (const id of present) delete records[id];
+    this.save();
+    return present.length;
+  }
+}
+
+// A collection whose records belong to one user. Lookups through getFor/allFor never return
+// another user's records.
+export class OwnedCollection<T extends { userId?: string }> extends JsonCollection<T> {
+  private static readonly instances: OwnedCollection<any>[] = [];
+
+  constructor(name: string) {
+    super(name);
+    OwnedCollection.instances.push(this);
+  }
+
+  allFor(userId: string): T[] {
+    return this.all().filter(record => record.userId === userId);
+  }
+
+  getFor(id: string, userId: string): T | undefined {
+    const record = this.get(id);
+    return record?.userId === userId ? record : undefined;
+  }
+
+  // Records written before accounts existed have no owner, and nobody can see them until an
+  // administrator hands them to an account. Returns how many records each collection gave up.
+  static adoptUnowned(userId: string): Record<string, number> {
+    const adopted: Record<string, number> = {};
+    for (const collection of OwnedCollection.instances) {
+      const unowned = collection.entries().filter(([, record]) => !record.userId);
+      if (unowned.length === 0) continue;
+      collection.setMany(unowned.map(([id, record]) => [id, { ...record, userId }]));
+      adopted[collection.name] = unowned.length;
+    }
+    return adopted;
+  }
+
+  static countUnowned(): number {
+    return OwnedCollection.instances.reduce((count, collection) => count + collection.all().filter(record => !record.userId).length, 0);
+  }
+}
@@ -0,0 +1,102 @@
+import { CandidateProfile, Job, TailoredCv } from '../types';
+import { JsonSchema, LlmProvider, UsageMeter, generateCheckedJson } from './llm';
+import { describeCandidate } from './cvParser';
+import { UNTRUSTED_CONTENT_RULES, fenceUntrusted, untrustedLine } from './promptSafety';
+import { renderCvText } from './export';
+import { diffLines } from './textDiff';
+
+interface TailoringResponse {
+  profileSummary: string;
+  skills: string[];
+  emphasisedSkills: string[];
+  workHistory: { index: number; bullets: string[] }[];
+}
+
+const TAILORING_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    profileSummary: { type: 'string' },
+    skills: { type: 'array', items: { type: 'string' }, description: 'The candidate skills, reordered' },
+    emphasisedSkills: { type: 'array', items: { type: 'string' } },
+    workHistory: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          index: { type: 'integer', description: 'Index of the role in the original work history' },
+          bullets: { type: 'array', items: { type: 'string' } }
+        },
+        required: ['index', 'bullets']
+      }
+    }
+  },
+  required: ['profileSummary', 'skills', 'emphasisedSkills', 'workHistory']
+};
+
+const createTailoringPrompt = (job: Job, profile: CandidateProfile) => `
+  Tailor this candidate's CV to the job below.
+
+  CANDIDATE:
+    ${describeCandidate(profile, profile.workHistory.length)}
+
+  WORK HISTORY (by index):
+  ${profile.workHistory.map((w, i) => `  [${i}] ${w.title} at ${w.employer}\n${w.bullets.map(b => `      - ${b}`).join('\n')}`).join('\n')}
+
+  ${UNTRUSTED_CONTENT_RULES}
+
+  JOB TITLE: ${untrustedLine('job_title', job.jobTitle)}
+  COMPANY: ${untrustedLine('company_name', job.companyName)}
+  JOB DESCRIPTION:
+  ${fenceUntrusted('job_description', job.description, 6000)}
+
+  Rules:
+  - profileSummary: rewrite the summary to lead with what this job needs, in at most three sentences.
+  - skills: return the candidate's existing skills, most relevant to the job first. Do not add skills.
+  - emphasisedSkills: the candidate skills this job asks for, most important first.
+  - workHistory: for every role, return its index and its bullets reordered and rephrased to
+    emphasise the job's required skills. Keep the same number of bullets or fewer.
+  - Never invent experience, employers, metrics, technologies or responsibilities that the
+    original bullets do not state. Rephrasing must stay factually equivalent.
+`;
+
+// Guards against the model drifting from the source CV: unknown skills are dropped, omitted
+// ones are kept at the end, and roles the model skipped or padded keep their original bullets.
+function applyTailoring(profile: CandidateProfile, raw: TailoringResponse): { profile: CandidateProfile; emphasisedSkills: string[] } {
+  const known = new Map(profile.skills.map(s => [s.toLowerCase().trim(), s]));
+  const pick = (skills: string[] = []) =>
+    [...new Set(skills.map(s => known.get(s.toLowerCase().trim())).filter((s): s is string => !!s))];
+
+  const skills = pick(raw.skills);
+  const tailoredSkills = [...skills, ...profile.skills.filter(s => !skills.includes(s))];
+
+  const workHistory = profile.workHistory.map((role, i) => {
+    const bullets = raw.workHistory?.find(w => w.index === i)?.bullets?.map(b => b.trim()).filter(Boolean);
+    const usable = bullets && bullets.length > 0 && bullets.length <= role.bullets.length;
+    return usable ? { ...role, bullets } : role;
+  });
+
+  return {
+    profile: {
+      ...profile,
+      profileSummary: raw.profileSummary?.trim() || profile.profileSummary,
+      skills: tailoredSkills,
+      workHistory
+    },
+    emphasisedSkills: pick(raw.emphasisedSkills)
+  };
+}
+
+export async function tailorCv(llm: LlmProvider, job: Job, profile: CandidateProfile, usage?: UsageMeter): Promise<TailoredCv> {
+  const raw = await generateCheckedJson<TailoringResponse>(
+    llm,
+    'cvTailoring',
+    createTailoringPrompt(job, profile),
+    TAILORING_SCHEMA,
+    { onUsage: usage?.forModel(llm.modelFor('cvTailoring')), onReask: () => usage?.recordRetry() }
+  );
+  const tailored = applyTailoring(profile, raw);
+  return {
+    ...tailored,
+    diff: diffLines(renderCvText(profile), renderCvText(tailored.profile))
+  };
+}
@@ -0,0 +1,112 @@
+import fs from 'fs';
+import multer from 'multer';
+import { ApiError, ApiErrorCode, UploadErrorDetails } from '../types';
+import { MAX_UNZIPPED_BYTES, ZipTooLargeError, loadZip } from './extraction/zip';
+
+// Uploads larger than this are cut off by multer before they reach the disk in full.
+export const MAX_UPLOAD_BYTES = parseInt(process.env.MAX_UPLOAD_MB || '5') * 1024 * 1024;
+
+export type CvFileType = 'pdf' | 'docx' | 'odt' | 'rtf' | 'html' | 'markdown' | 'text' | 'linkedin-export';
+
+const ACCEPTED_TYPES: CvFileType[] = ['pdf', 'docx', 'odt', 'rtf', 'html', 'markdown', 'text', 'linkedin-export'];
+
+// An uploaded CV whose type has been checked against its contents.
+export interface CvUpload {
+  path: string;
+  fileName: string;
+  type: CvFileType;
+}
+
+export class UploadError extends Error {
+  constructor(message: string, readonly status: number, readonly code: ApiErrorCode, readonly details: UploadErrorDetails = {}) {
+    super(message);
+  }
+
+  toJSON(): ApiError {
+    return { error: this.message, code: this.code, details: this.details };
+  }
+}
+
+const PDF_MAGIC = Buffer.from('%PDF-');
+const ZIP_MAGIC = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+// Compound File Binary: legacy .doc, .xls and friends
+const OLE_MAGIC = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+
+function isUtf8Text(buffer: Buffer): boolean {
+  if (buffer.includes(0)) return false;
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function detectZipType(buffer: Buffer): Promise<CvFileType | string> {
+  const zip = await loadZip(buffer).catch(error => {
+    if (error instanceof ZipTooLargeError) throw error;
+    return null;
+  });
+  if (!zip) return 'zip';
+  if (zip.file('word/document.xml')) return 'docx';
+  if ((await zip.file('mimetype')?.async('string'))?.trim() === 'application/vnd.oasis.opendocument.text') return 'odt';
+  // LinkedIn's "Get a copy of your data" archive: one CSV per profile section
+  if (zip.file(/(^|\/)(Profile|Positions)\.csv$/i).length > 0) return 'linkedin-export';
+  return 'zip';
+}
+
+// Works out what a file is from its bytes. Returns a CvFileType, or a label for what was found instead.
+// The file name only decides between plain text and Markdown, which look the same byte for byte.
+async function detectType(buffer: Buffer, fileName: string): Promise<CvFileType | string> {
+  // Some generators put a few bytes of junk before the header; PDF readers tolerate that too
+  if (buffer.subarray(0, 1024).includes(PDF_MAGIC)) return 'pdf';
+  if (buffer.subarray(0, OLE_MAGIC.length).equals(OLE_MAGIC)) return 'doc';
+  if (buffer.subarray(0, ZIP_MAGIC.length).equals(ZIP_MAGIC)) return detectZipType(buffer);
+  if (buffer.subarray(0, 5).toString('latin1') === '{\\rtf') return 'rtf';
+  if (!isUtf8Text(buffer)) return 'binary';
+
+  const head = buffer.subarray(0, 1024).toString('utf-8').replace(/^\uFEFF/, '').trimStart().toLowerCase();
+  if (/^(<!doctype html|(<\?xml[^>]*>\s*)?<html[\s>])/.test(head)) return 'html';
+  return /\.(md|markdown)$/i.test(fileName) ? 'markdown' : 'text';
+}
+
+// Checks an upload's contents and returns its real type. Throws UploadError for anything we can't read.
+export async function sniffCvFile(file: { path: string; originalname: string; size: number }): Promise<CvUpload> {
+  const fileName = file.originalname;
+  if (file.size === 0) throw new UploadError("The uploaded CV is empty.", 400, 'empty_file', { fileName, sizeBytes: 0 });
+
+  const detectedType = await detectType(fs.readFileSync(file.path), fileName).catch(error => {
+    if (!(error instanceof ZipTooLargeError)) throw error;
+    throw new UploadError(
+      `The CV unpacks to more than ${MAX_UNZIPPED_BYTES / 1024 / 1024}MB.`,
+      413,
+      'file_too_large',
+      { fileName, sizeBytes: error.unzippedBytes, maxBytes: MAX_UNZIPPED_BYTES }
+    );
+  });
+  if (!ACCEPTED_TYPES.includes(detectedType as CvFileType)) {
+    const hint = detectedType === 'doc' ? " Legacy .doc files aren't supported; save it as .docx or PDF." : '';
+    throw new UploadError(
+      `Unsupported CV format. Upload a PDF, Word (.docx), OpenDocument, RTF, HTML, Markdown or plain-text file, or a LinkedIn data export.${hint}`,
+      415,
+      'unsupported_file_type',
+      { fileName, detectedType, acceptedTypes: ACCEPTED_TYPES }
+    );
+  }
+  return { path: file.path, fileName, type: detectedType as CvFileType };
+}
+
+// Express middleware accepting a single CV in `field`. Multer failures become UploadError responses.
+export function cvUploadMiddleware(dest: string, field: string) {
+  const handler = multer({ dest, limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 } }).single(field);
+
+  return (req: any, res: any, next: (error?: any) => void) => {
+    handler(req, res, (error: any) => {
+      if (!error) return next();
+      const uploadError = error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE'
+        ? new UploadError(`The CV is larger than ${MAX_UPLOAD_BYTES / 1024 / 1024}MB.`, 413, 'file_too_large', { maxBytes: MAX_UPLOAD_BYTES })
+        : new UploadError(error.message || "The upload could not be read.", 400, 'invalid_upload');
+      res.status(uploadError.status).json(uploadError.toJSON());
+    });
+  };
+}
@@ -0,0 +1,32 @@
+// API Base URL - assumes the Node server is running on port 3000
+export const API_BASE_URL = 'http://localhost:3000/api';
+
+let onUnauthorized: (() => void) | undefined;
+
+// Called whenever the server answers 401, i.e. the session has expired or was signed out.
+export function setUnauthorizedHandler(handler: (() => void) | undefined) {
+  onUnauthorized = handler;
+}
+
+// fetch against the API with the session cookie attached.
+export async function apiFetch(path: string, init?: RequestInit): Promise<Response> {
+  const response = await fetch(`${API_BASE_URL}${path}`, { ...init, credentials: 'include' });
+  if (response.status === 401) onUnauthorized?.();
+  return response;
+}
+
+// JSON request helper that turns `{ error }` responses into thrown Errors.
+export async function requestJson<T = any>(path: string, init?: RequestInit & { json?: unknown }): Promise<T> {
+  const { json, ...rest } = init || {};
+  const response = await apiFetch(path, {
+    ...rest,
+    headers: json !== undefined ? { 'Content-Type': 'application/json', ...rest.headers } : rest.headers,
+    body: json !== undefined ? JSON.stringify(json) : rest.body,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `Request failed (${response.status})`);
+  }
+  return response.status === 204 ? (undefined as T) : response.json();
+}
@@ -0,0 +1,144 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// A local stand-in for the Apify API. Each test scripts the responses through `handle`.
+type Reply = { status?: number; body?: unknown; headers?: Record<string, string>; delayMs?: number };
+let handle: (method: string, url: URL) => Reply;
+let requests: string[] = [];
+let authorization: string | undefined;
+let server: http.Server;
+let ApifyClient: typeof import('../server/jobSources/apifyClient').ApifyClient;
+
+const RUN = { id: 'run1', status: 'READY', defaultDatasetId: 'ds1' };
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    const url = new URL(req.url!, 'http://localhost');
+    requests.push(`${req.method} ${url.pathname}${url.search}`);
+    authorization = req.headers.authorization;
+    const { status = 200, body = {}, headers = {}, delayMs = 0 } = handle(req.method!, url);
+    setTimeout(() => {
+      res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+      res.end(JSON.stringify(body));
+    }, delayMs);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  vi.stubEnv('APIFY_BASE_URL', `http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+  vi.stubEnv('APIFY_POLL_INTERVAL_SECONDS', '0');
+  vi.stubEnv('APIFY_RUN_TIMEOUT_SECONDS', '1');
+  vi.stubEnv('APIFY_MAX_RETRIES', '2');
+  ({ ApifyClient } = await import('../server/jobSources/apifyClient'));
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests = [];
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+// Starts, finishes after `polls` status checks and serves `count` items.
+function actor(count: number, polls = 1): (method: string, url: URL) => Reply {
+  let checks = 0;
+  return (method, url) => {
+    if (method === 'POST' && url.pathname === '/acts/owner~actor/runs') return { status: 201, body: { data: RUN } };
+    if (url.pathname === '/actor-runs/run1') return { body: { data: { ...RUN, status: ++checks >= polls ? 'SUCCEEDED' : 'RUNNING' } } };
+    if (url.pathname === '/actor-runs/run1/abort') return { body: { data: { ...RUN, status: 'ABORTED' } } };
+    if (url.pathname === '/datasets/ds1/items') {
+      const offset = Number(url.searchParams.get('offset'));
+      const limit = Number(url.searchParams.get('limit'));
+      return { body: Array.from({ length: Math.max(0, Math.min(limit, count - offset)) }, (_, i) => ({ n: offset + i })) };
+    }
+    return { status: 404, body: { error: 'not found' } };
+  };
+}
+
+describe('ApifyClient', () => {
+  it('sends the token and reads the dataset page by page', async () => {
+    handle = actor(520, 2);
+    const statuses: string[] = [];
+    const items = await new ApifyClient('secret').runActor('owner~actor', { q: 1 }, { maxItems: 600, onStatus: s => statuses.push(s) });
+
+    expect(authorization).toBe('Bearer secret');
+    expect(items).toHaveLength(520);
+    expect(items[519]).toEqual({ n: 519 });
+    expect(statuses).toEqual(['READY', 'RUNNING', 'SUCCEEDED']);
+    expect(requests.filter(r => r.startsWith('GET /datasets'))).toEqual([
+      'GET /datasets/ds1/items?clean=true&offset=0&limit=250',
+      'GET /datasets/ds1/items?clean=true&offset=250&limit=250',
+      'GET /datasets/ds1/items?clean=true&offset=500&limit=100'
+    ]);
+  });
+
+  it('stops at maxItems', async () => {
+    handle = actor(1000);
+    expect(await new ApifyClient('secret').runActor('owner~actor', {}, { maxItems: 10 })).toHaveLength(10);
+  });
+
+  it('retries 429 and 5xx responses, honouring Retry-After', async () => {
+    const script = [429, 503];
+    const inner = actor(3);
+    handle = (method, url) => {
+      if (method === 'POST' && url.pathname.endsWith('/runs') && script.length) {
+        return { status: script.shift(), body: { error: 'busy' }, headers: { 'Retry-After': '0.05' } };
+      }
+      return inner(method, url);
+    };
+    const started = Date.now();
+    expect(await new ApifyClient('secret').runActor('owner~actor', {}, { maxItems: 10 })).toHaveLength(3);
+    expect(requests.filter(r => r === 'POST /acts/owner~actor/runs')).toHaveLength(3);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(100);
+  });
+
+  it('gives up after APIFY_MAX_RETRIES', async () => {
+    handle = () => ({ status: 500, body: { error: 'down' }, headers: { 'Retry-After': '0.01' } });
+    await expect(new ApifyClient('secret').startRun('owner~actor', {})).rejects.toThrow(/Apify request failed \(HTTP 500\)/);
+    expect(requests).toHaveLength(3);
+  });
+
+  it('does not retry other client errors', async () => {
+    handle = () => ({ status: 401, body: { error: 'bad token' } });
+    await expect(new ApifyClient('wrong').startRun('owner~actor', {})).rejects.toThrow(/\(HTTP 401\)/);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('keeps the upstream error body out of the message', async () => {
+    handle = () => ({ status: 400, body: { error: { message: 'Input is invalid: token apify_api_XYZ' } } });
+    const error = await new ApifyClient('secret').startRun('owner~actor', {}).catch(e => e);
+    expect(error.message).toBe('Apify request failed (HTTP 400).');
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Input is invalid'));
+  });
+
+  it('reads the results within the same deadline as the run', async () => {
+    const inner = actor(3);
+    handle = (method, url) => url.pathname === '/datasets/ds1/items' ? { ...inner(method, url), delayMs: 3000 } : inner(method, url);
+    const started = Date.now();
+    await expect(new ApifyClient('secret').runActor('owner~actor', {}, { maxItems: 10 })).rejects.toThrow(/could not be read within 1s/);
+    expect(Date.now() - started).toBeLessThan(2000);
+  });
+
+  it('aborts the Apify run when it does not finish in time', async () => {
+    handle = actor(3, Infinity);
+    await expect(new ApifyClient('secret').runActor('owner~actor', {}, { maxItems: 10 })).rejects.toThrow(/did not finish within 1s/);
+    expect(requests.at(-1)).toBe('POST /actor-runs/run1/abort');
+  });
+
+  it('aborts the Apify run when the caller cancels', async () => {
+    const controller = new AbortController();
+    const inner = actor(3, Infinity);
+    handle = (method, url) => {
+      if (url.pathname === '/actor-runs/run1' && method === 'GET') controller.abort();
+      return inner(method, url);
+    };
+    await expect(new ApifyClient('secret').runActor('owner~actor', {}, { maxItems: 10, signal: controller.signal }))
+      .rejects.toThrow('The analysis was cancelled.');
+    expect(requests.at(-1)).toBe('POST /actor-runs/run1/abort');
+    expect(requests.some(r => r.startsWith('GET /datasets'))).toBe(false);
+  });
+});
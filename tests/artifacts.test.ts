@@ -0,0 +1,84 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+const DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'jobscout-artifacts-'));
+const ARTIFACT_DIR = path.join(DATA_DIR, 'artifacts');
+let artifacts: typeof import('../server/artifacts');
+
+beforeAll(async () => {
+  vi.stubEnv('DATA_DIR', DATA_DIR);
+  vi.stubEnv('DOWNLOAD_SIGNING_SECRET', 'test secret');
+  artifacts = await import('../server/artifacts');
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  fs.rmSync(DATA_DIR, { recursive: true, force: true });
+});
+
+const save = (ttlSeconds?: number, userId = 'user-1') =>
+  artifacts.saveArtifact(Buffer.from('%PDF-1.4'), { userId, fileName: 'cover.pdf', mimeType: 'application/pdf', ttlSeconds });
+
+// The id, expires and signature a signed link carries
+function linkParts(artifact: import('../server/artifacts').Artifact) {
+  const url = new URL(artifacts.signedDownloadUrl(artifact, 'http://localhost'));
+  return { artifactId: url.pathname.split('/').pop()!, expires: url.searchParams.get('expires')!, signature: url.searchParams.get('signature')! };
+}
+
+function downloadError(artifactId: string, expires: string, signature: string, userId = 'user-1') {
+  try {
+    artifacts.resolveDownload(artifactId, expires, signature, userId);
+  } catch (error) {
+    expect(error).toBeInstanceOf(artifacts.DownloadError);
+    return error as InstanceType<typeof artifacts.DownloadError>;
+  }
+  throw new Error('Expected the download to be refused.');
+}
+
+describe('signed download links', () => {
+  it('resolve for their owner', async () => {
+    const artifact = await save();
+    const { artifactId, expires, signature } = linkParts(artifact);
+    const { filePath } = artifacts.resolveDownload(artifactId, expires, signature, 'user-1');
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe('%PDF-1.4');
+  });
+
+  it('are refused with 403 when the signature or expiry was changed', async () => {
+    const { artifactId, expires, signature } = linkParts(await save());
+    const flipped = (signature[0] === 'a' ? 'b' : 'a') + signature.slice(1);
+    expect(downloadError(artifactId, expires, flipped).status).toBe(403);
+    expect(downloadError(artifactId, String(Number(expires) + 3600), signature).status).toBe(403);
+    expect(downloadError(artifactId, expires, '').status).toBe(403);
+  });
+
+  it('are refused with 410 once expired', async () => {
+    const { artifactId, expires, signature } = linkParts(await save(-60));
+    expect(downloadError(artifactId, expires, signature).status).toBe(410);
+  });
+
+  it("are refused with 404 for another user's artifact", async () => {
+    const { artifactId, expires, signature } = linkParts(await save());
+    expect(downloadError(artifactId, expires, signature, 'user-2').status).toBe(404);
+  });
+});
+
+describe('sweepArtifacts', () => {
+  it('removes expired artifacts and orphan files, and keeps live and pinned ones', async () => {
+    await artifacts.sweepArtifacts();
+    const live = await save();
+    const expired = await save(-60);
+    const pinned = await save(-60);
+    artifacts.pinArtifact(pinned.artifactId, true);
+    fs.writeFileSync(path.join(ARTIFACT_DIR, 'orphan'), 'left behind by a crash');
+
+    expect(await artifacts.sweepArtifacts()).toBe(2);
+    const files = fs.readdirSync(ARTIFACT_DIR);
+    expect(files).toEqual(expect.arrayContaining([live.artifactId, pinned.artifactId]));
+    expect(files).not.toContain(expired.artifactId);
+    expect(files).not.toContain('orphan');
+    expect(artifacts.getArtifact(expired.artifactId)).toBeUndefined();
+    expect(artifacts.getArtifact(pinned.artifactId)).toBeDefined();
+  });
+});
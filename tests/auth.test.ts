@@ -0,0 +1,96 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+const DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'jobscout-auth-'));
+let auth: typeof import('../server/auth');
+let profiles: typeof import('../server/profiles');
+
+beforeAll(async () => {
+  vi.stubEnv('DATA_DIR', DATA_DIR);
+  vi.stubEnv('ALLOW_SIGNUP', 'false');
+  // A profile saved before accounts existed
+  fs.writeFileSync(path.join(DATA_DIR, 'profiles.json'), JSON.stringify({
+    legacy: { profileId: 'legacy', name: 'Old CV', profile: {}, createdAt: '2023-01-01', updatedAt: '2023-01-01' }
+  }));
+  auth = await import('../server/auth');
+  profiles = await import('../server/profiles');
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  fs.rmSync(DATA_DIR, { recursive: true, force: true });
+});
+
+const outcomes = (results: PromiseSettledResult<unknown>[]) =>
+  results.map(r => r.status === 'fulfilled' ? 'ok' : (r.reason as InstanceType<typeof auth.AuthError>).status).sort();
+
+describe('registerUser', () => {
+  it('lets only one of two concurrent sign-ups become the first account', async () => {
+    const results = await Promise.allSettled([
+      auth.registerUser('first@example.com', 'password-1', 'First'),
+      auth.registerUser('second@example.com', 'password-2', 'Second')
+    ]);
+    // Sign-up is closed, so whichever finishes hashing second is no longer the first user
+    expect(outcomes(results)).toEqual([403, 'ok']);
+  });
+
+  it('creates one account when the same email signs up twice at once', async () => {
+    vi.stubEnv('ALLOW_SIGNUP', 'true');
+    const results = await Promise.allSettled([
+      auth.registerUser('twice@example.com', 'password-1', ''),
+      auth.registerUser('twice@example.com', 'password-2', '')
+    ]);
+    expect(outcomes(results)).toEqual([409, 'ok']);
+    vi.stubEnv('ALLOW_SIGNUP', 'false');
+  });
+});
+
+describe('authenticate', () => {
+  it('locks an email after repeated failures and forgets them after the window', async () => {
+    vi.stubEnv('ALLOW_SIGNUP', 'true');
+    const email = 'locked@example.com', password = 'password-3';
+    await auth.registerUser(email, password, '');
+    vi.stubEnv('ALLOW_SIGNUP', 'false');
+    vi.useFakeTimers({ toFake: ['Date'] });
+
+    for (let i = 0; i < 10; i++) await expect(auth.authenticate(email, 'wrong')).rejects.toMatchObject({ status: 401 });
+    await expect(auth.authenticate(email, password)).rejects.toMatchObject({ status: 429 });
+
+    vi.setSystemTime(Date.now() + 16 * 60 * 1000);
+    await expect(auth.authenticate(email, password)).resolves.toMatchObject({ email });
+    vi.useRealTimers();
+  });
+});
+
+describe('readSessionToken', () => {
+  const request = (cookie: string) => ({ headers: { cookie } });
+
+  it('reads the session cookie among others', () => {
+    expect(auth.readSessionToken(request(`theme=dark; ${auth.SESSION_COOKIE}=abc%3D%3D`))).toBe('abc==');
+  });
+
+  it('treats a malformed cookie as no session', () => {
+    expect(auth.readSessionToken(request(`${auth.SESSION_COOKIE}=%E0%A4%A`))).toBeUndefined();
+  });
+});
+
+describe('data saved before accounts existed', () => {
+  it('goes only to the account ADOPT_UNOWNED_DATA_TO names, not to whoever signs up', async () => {
+    vi.stubEnv('ALLOW_SIGNUP', 'true');
+    const log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const someone = await auth.registerUser('someone@example.com', 'password-4', '');
+    expect(profiles.getProfile(someone.userId, 'legacy')).toBeUndefined();
+
+    vi.stubEnv('ADOPT_UNOWNED_DATA_TO', 'Owner@example.com');
+    const owner = await auth.registerUser('owner@example.com', 'password-5', '');
+    expect(profiles.getProfile(owner.userId, 'legacy')?.name).toBe('Old CV');
+    expect(log).toHaveBeenCalledWith('Gave 1 unowned profiles records to owner@example.com.');
+
+    log.mockRestore();
+    vi.stubEnv('ADOPT_UNOWNED_DATA_TO', '');
+    vi.stubEnv('ALLOW_SIGNUP', 'false');
+  });
+});
@@ -0,0 +1,63 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+const DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'jobscout-credentials-'));
+const FILE = path.join(DATA_DIR, 'credentials.json');
+const TOKEN = 'apify_api_SECRETTOKEN1234';
+
+// A fresh copy of the module, reading the credentials file and key as they are now
+async function load() {
+  vi.resetModules();
+  return import('../server/credentials');
+}
+
+beforeAll(() => {
+  vi.stubEnv('DATA_DIR', DATA_DIR);
+  vi.stubEnv('CREDENTIALS_SECRET', 'first secret');
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  fs.rmSync(DATA_DIR, { recursive: true, force: true });
+});
+
+describe('stored Apify credentials', () => {
+  let credentialId: string;
+
+  it('round-trips the token and stores only ciphertext', async () => {
+    const credentials = await load();
+    const created = credentials.createCredential('user-1', { label: 'Main', token: TOKEN });
+    credentialId = created.credentialId;
+
+    expect(created).not.toHaveProperty('encryptedToken');
+    expect(created.tokenHint).toBe('1234');
+    expect(fs.readFileSync(FILE, 'utf-8')).not.toContain('SECRETTOKEN');
+    expect((await load()).resolveCredential('user-1', credentialId).token).toBe(TOKEN);
+  });
+
+  it("doesn't resolve another user's credential", async () => {
+    const credentials = await load();
+    expect(() => credentials.resolveCredential('user-2', credentialId)).toThrow(/not found/);
+  });
+
+  it('fails cleanly under a different key', async () => {
+    vi.stubEnv('CREDENTIALS_SECRET', 'second secret');
+    const credentials = await load();
+    expect(() => credentials.resolveCredential('user-1', credentialId)).toThrow(/can't be decrypted; the encryption key has changed/);
+    vi.stubEnv('CREDENTIALS_SECRET', 'first secret');
+  });
+
+  it('fails cleanly when the ciphertext was tampered with', async () => {
+    const stored = JSON.parse(fs.readFileSync(FILE, 'utf-8'));
+    const [iv, tag, ciphertext] = stored[credentialId].encryptedToken.split('.');
+    const flipped = Buffer.from(ciphertext, 'base64');
+    flipped[0] ^= 1;
+    stored[credentialId].encryptedToken = [iv, tag, flipped.toString('base64')].join('.');
+    fs.writeFileSync(FILE, JSON.stringify(stored));
+
+    const credentials = await load();
+    expect(() => credentials.resolveCredential('user-1', credentialId)).toThrow(/can't be decrypted/);
+  });
+});
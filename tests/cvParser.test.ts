@@ -0,0 +1,113 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { CandidateProfile } from '../types';
+import { LlmProvider, WorkQueue } from '../server/llm';
+
+const DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'jobscout-cvparser-'));
+let cvParser: typeof import('../server/cvParser');
+
+beforeAll(async () => {
+  vi.stubEnv('DATA_DIR', DATA_DIR);
+  cvParser = await import('../server/cvParser');
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  fs.rmSync(DATA_DIR, { recursive: true, force: true });
+});
+
+const profile = (fields: Partial<CandidateProfile>): CandidateProfile => cvParser.normalizeProfile(fields);
+
+describe('chunkCvText', () => {
+  it('keeps a short CV in one chunk', () => {
+    expect(cvParser.chunkCvText('Jane Doe\n\nEngineer', 100)).toEqual(['Jane Doe\n\nEngineer']);
+  });
+
+  it('packs paragraphs up to the size and starts a new chunk at a paragraph break', () => {
+    const text = ['a'.repeat(40), 'b'.repeat(40), 'c'.repeat(40)].join('\n\n');
+
+    expect(cvParser.chunkCvText(text, 82)).toEqual([`${'a'.repeat(40)}\n\n${'b'.repeat(40)}`, 'c'.repeat(40)]);
+    expect(cvParser.chunkCvText(text, 81)).toEqual(['a'.repeat(40), 'b'.repeat(40), 'c'.repeat(40)]);
+  });
+
+  it('hard-splits a paragraph longer than the size', () => {
+    expect(cvParser.chunkCvText('x'.repeat(250), 100)).toEqual(['x'.repeat(100), 'x'.repeat(100), 'x'.repeat(50)]);
+  });
+
+  it('returns one empty chunk for empty text', () => {
+    expect(cvParser.chunkCvText('', 100)).toEqual(['']);
+  });
+});
+
+describe('mergeProfiles', () => {
+  it('de-duplicates lists across chunks, ignoring case', () => {
+    const merged = cvParser.mergeProfiles([
+      profile({
+        skills: ['TypeScript', 'React'],
+        workHistory: [{ title: 'Engineer', employer: 'Acme', startDate: '2020', bullets: ['Built things'] }],
+        education: [{ institution: 'MIT', degree: 'BSc' }],
+        languages: [{ language: 'English' }]
+      }),
+      profile({
+        skills: ['typescript', 'Node.js'],
+        workHistory: [
+          { title: 'engineer', employer: 'ACME', startDate: '2020', bullets: [] },
+          { title: 'Engineer', employer: 'Acme', startDate: '2017', bullets: [] }
+        ],
+        education: [{ institution: 'MIT', degree: 'MSc' }],
+        languages: [{ language: 'english', proficiency: 'native' }]
+      })
+    ]);
+
+    expect(merged.skills).toEqual(['TypeScript', 'React', 'Node.js']);
+    expect(merged.workHistory.map(w => w.startDate)).toEqual(['2020', '2017']);
+    expect(merged.workHistory[0].bullets).toEqual(['Built things']);
+    expect(merged.education.map(e => e.degree)).toEqual(['BSc', 'MSc']);
+    expect(merged.languages).toEqual([{ language: 'English' }]);
+  });
+
+  it('takes contact fields and summary from the first chunk that has them', () => {
+    const merged = cvParser.mergeProfiles([
+      profile({ contact: { name: 'Jane Doe', email: '' }, totalYearsExperience: 3, seniority: 'mid' }),
+      profile({ contact: { name: 'J. Doe', email: 'jane@example.com' }, profileSummary: 'Engineer.', totalYearsExperience: 8, seniority: 'senior' })
+    ]);
+
+    expect(merged.contact).toEqual({ name: 'Jane Doe', email: 'jane@example.com' });
+    expect(merged.profileSummary).toBe('Engineer.');
+    expect(merged.totalYearsExperience).toBe(8);
+    expect(merged.seniority).toBe('senior');
+  });
+});
+
+// Every field the schema requires; the content doesn't matter here
+const PARSED = {
+  contact: { name: 'Jane Doe' }, skills: [], profileSummary: '', experienceHighlights: [], workHistory: [],
+  education: [], certifications: [], languages: [], totalYearsExperience: 5, seniority: 'senior'
+};
+
+describe('parseCv', () => {
+  it('sends the chunks of a long CV through the queue', async () => {
+    let running = 0;
+    let mostRunning = 0;
+    const llm = {
+      name: 'fake',
+      modelFor: () => 'fake-model',
+      generateJson: async () => {
+        mostRunning = Math.max(mostRunning, ++running);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        running--;
+        return { ...PARSED, skills: [`skill ${mostRunning}`] };
+      },
+      generateText: async () => ''
+    } as unknown as LlmProvider;
+    const queue = new WorkQueue({ concurrency: 1, requestsPerMinute: 600, maxRetries: 0 });
+    const text = Array.from({ length: 3 }, (_, i) => `${i}`.repeat(6000)).join('\n\n');
+
+    const parsed = await cvParser.parseCv(llm, text, queue);
+
+    expect(mostRunning).toBe(1);
+    expect(parsed.skills).toEqual(['skill 1']);
+  });
+});
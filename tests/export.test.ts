@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { CandidateProfile, Job } from '../types';
+import { buildLetterDocument, getTheme } from '../server/export';
+import { renderCvHtml } from '../server/export/cv';
+import { escapeHtml } from '../server/export/escape';
+import { renderLetterHtml } from '../server/export/html';
+
+// Text that would run script or break out of an attribute if it reached the HTML unescaped
+const PAYLOADS = [
+  '<script>alert(1)</script>',
+  '<img src=x onerror=alert(1)>',
+  '"><svg onload=alert(1)>',
+  "' onmouseover='alert(1)",
+  '</style><script>alert(1)</script>',
+  '<!--<iframe src="javascript:alert(1)">-->'
+];
+
+// Nothing a payload adds may survive as markup: no new tags, comments or attribute breaks.
+function expectInert(html: string) {
+  for (const payload of PAYLOADS) expect(html).not.toContain(payload);
+  expect(html).not.toMatch(/<(script|img|svg|iframe)\b/i);
+  expect(html).not.toMatch(/<!--/);
+  expect(html).not.toMatch(/["'] ?on\w+=/i);
+}
+
+const payload = (i: number) => PAYLOADS[i % PAYLOADS.length];
+
+describe('escapeHtml', () => {
+  it('escapes every character that can open a tag or close an attribute', () => {
+    expect(escapeHtml(`<a href="x" title='y'>&</a>`)).toBe('&lt;a href=&quot;x&quot; title=&#39;y&#39;&gt;&amp;&lt;/a&gt;');
+    expect(escapeHtml(null)).toBe('');
+    expect(escapeHtml(42)).toBe('42');
+  });
+});
+
+describe('letter HTML', () => {
+  it('renders scraped, CV and model text inertly', () => {
+    const job = { jobTitle: payload(0), companyName: payload(1) } as Job;
+    const contact = { name: payload(2), email: payload(3), phone: payload(4), website: payload(5) };
+    const letter = PAYLOADS.join('\n\n') + '\n\n' + PAYLOADS.map(p => `- ${p}`).join('\n');
+    const html = renderLetterHtml(buildLetterDocument(letter, job, contact), getTheme('classic'));
+
+    expectInert(html);
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+  });
+});
+
+describe('CV HTML', () => {
+  it('renders every profile field inertly', () => {
+    const profile: CandidateProfile = {
+      contact: { name: payload(0), email: payload(1), phone: payload(2), location: payload(3), linkedin: payload(4), website: payload(5) },
+      profileSummary: payload(1),
+      skills: PAYLOADS,
+      experienceHighlights: PAYLOADS,
+      workHistory: [{ title: payload(2), employer: payload(3), startDate: payload(4), endDate: payload(5), bullets: PAYLOADS }],
+      education: [{ institution: payload(0), degree: payload(1), field: payload(2), startDate: payload(3) }],
+      certifications: [{ name: payload(4), issuer: payload(5), date: payload(0) }],
+      languages: [{ language: payload(1), proficiency: payload(2) }],
+      totalYearsExperience: 5,
+      seniority: 'senior'
+    };
+
+    expectInert(renderCvHtml(profile, getTheme('classic')));
+  });
+});
@@ -0,0 +1,101 @@
+import JSZip from 'jszip';
+import { beforeAll, afterAll, describe, expect, it, vi } from 'vitest';
+
+let zip: typeof import('../server/extraction/zip');
+let office: typeof import('../server/extraction/office');
+let linkedin: typeof import('../server/extraction/linkedin');
+let markup: typeof import('../server/extraction/markup');
+let rtf: typeof import('../server/extraction/rtf');
+
+beforeAll(async () => {
+  vi.stubEnv('MAX_UNZIPPED_MB', '1');
+  zip = await import('../server/extraction/zip');
+  office = await import('../server/extraction/office');
+  linkedin = await import('../server/extraction/linkedin');
+  markup = await import('../server/extraction/markup');
+  rtf = await import('../server/extraction/rtf');
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+});
+
+// Rewrites every size an entry declares (local header and central directory) to `size`,
+// as a zip bomb would to slip past a check of the declared sizes.
+function forgeSizes(buffer: Buffer, size: number): Buffer {
+  for (let i = buffer.indexOf(Buffer.from([0x50, 0x4b, 0x03, 0x04])); i >= 0; i = buffer.indexOf(Buffer.from([0x50, 0x4b, 0x03, 0x04]), i + 4)) {
+    buffer.writeUInt32LE(size, i + 22);
+  }
+  for (let i = buffer.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02])); i >= 0; i = buffer.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]), i + 4)) {
+    buffer.writeUInt32LE(size, i + 24);
+  }
+  return buffer;
+}
+
+async function archive(files: Record<string, string>): Promise<Buffer> {
+  const archive = new JSZip();
+  for (const [name, content] of Object.entries(files)) archive.file(name, content);
+  return archive.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+describe('zip limits', () => {
+  // 3 MB of XML against a 1 MB cap, compressed to a few KB and declaring 100 bytes
+  const bomb = (name: string) => archive({ [name]: `<office:body>${'a'.repeat(3 * 1024 * 1024)}` }).then(b => forgeSizes(b, 100));
+
+  it('stops inflating at the cap when an archive lies about its sizes', async () => {
+    const buffer = await bomb('content.xml');
+    expect(zip.declaredUnzippedSize(buffer)).toBe(100);
+
+    const error = await zip.loadZip(buffer).then(() => undefined, e => e);
+    expect(error).toBeInstanceOf(zip.ZipTooLargeError);
+    expect(error.unzippedBytes).toBeGreaterThan(1024 * 1024);
+    expect(error.unzippedBytes).toBeLessThan(3 * 1024 * 1024);
+  });
+
+  it('caps OpenDocument and Word extraction the same way', async () => {
+    await expect(office.extractOdt(await bomb('content.xml'))).rejects.toBeInstanceOf(zip.ZipTooLargeError);
+    await expect(office.extractDocx(await bomb('word/document.xml'))).rejects.toBeInstanceOf(zip.ZipTooLargeError);
+  });
+
+  it('reads archives within the cap', async () => {
+    const loaded = await zip.loadZip(await archive({ 'a/b.txt': 'hello' }));
+    expect(await loaded.file('a/b.txt')?.async('string')).toBe('hello');
+  });
+});
+
+describe('format extractors', () => {
+  it('reads RTF text, skipping metadata groups and decoding escapes', async () => {
+    const source = String.raw`{\rtf1\ansi{\fonttbl{\f0 Arial;}}{\info{\title Secret}}Jane D\'f6e\par Caf\u233?\tab Berlin\par\bullet  React}`;
+    expect(await rtf.extractRtf(Buffer.from(source, 'latin1'))).toBe('Jane Döe\nCafé\tBerlin\n• React');
+  });
+
+  it('reads OpenDocument paragraphs, lists and tables', async () => {
+    const content = '<office:document-content><office:meta>ignored</office:meta><office:body><office:text>' +
+      '<text:h>Jane Doe</text:h><text:p>Engineer &amp; lead</text:p>' +
+      '<text:list><text:list-item><text:p>React</text:p></text:list-item></text:list>' +
+      '<table:table><table:table-row><table:table-cell>2020</table:table-cell><table:table-cell>Acme</table:table-cell></table:table-row></table:table>' +
+      '</office:text></office:body></office:document-content>';
+    const text = await office.extractOdt(await archive({ mimetype: 'application/vnd.oasis.opendocument.text', 'content.xml': content }));
+    expect(text).toBe('Jane Doe\nEngineer & lead\n- React\n2020\tAcme\t\n');
+  });
+
+  it('strips Markdown syntax but keeps headings, bullets and links', async () => {
+    const source = '# Jane Doe\n\n**Senior** engineer, see [portfolio](https://jane.dev)\n\n* React\n* `Node.js`\n';
+    expect(await markup.extractMarkdown(Buffer.from(source))).toBe('Jane Doe\nSenior engineer, see portfolio (https://jane.dev)\n\n- React\n- Node.js\n');
+  });
+
+  it('lays out a LinkedIn data export like a CV', async () => {
+    const text = await linkedin.extractLinkedInExport(await archive({
+      'Profile.csv': '\uFEFFFirst Name,Last Name,Headline,Summary\nJane,Doe,Engineer,"Builds things, mostly"\n',
+      'Email Addresses.csv': 'Email Address,Primary\nold@example.com,No\njane@example.com,Yes\n',
+      'Positions.csv': 'Company Name,Title,Started On,Finished On\nAcme,Lead,Jan 2020,\n',
+      'Skills.csv': 'Name\nReact\nNode.js\n'
+    }));
+    expect(text).toBe([
+      'Jane Doe', 'Engineer', 'jane@example.com',
+      '', 'SUMMARY', 'Builds things, mostly',
+      '', 'EXPERIENCE', '', 'Lead, Acme (Jan 2020 – Present)',
+      '', 'SKILLS', 'React, Node.js'
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,94 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { AnalysisRun, AnalyzedResponse, CandidateProfile, Job } from '../types';
+
+const DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'jobscout-history-'));
+let history: typeof import('../server/history');
+
+const PROFILE: CandidateProfile = {
+  contact: { name: 'Jane Doe', email: 'jane@example.com', phone: '+49 30 1234567' },
+  skills: ['TypeScript'],
+  profileSummary: 'Full-stack engineer.',
+  experienceHighlights: [],
+  workHistory: [{ title: 'Engineer', employer: 'Initrode', startDate: '2020', current: true, bullets: [] }],
+  education: [],
+  certifications: [],
+  languages: [],
+  totalYearsExperience: 5,
+  seniority: 'senior'
+};
+
+const INPUTS = { source: 'apify-linkedin' as const, searchUrl: 'https://www.linkedin.com/jobs/search?keywords=react', maxJobs: 50 };
+
+const job = (id: string, score?: number): Job =>
+  ({ jobId: `${id}-${score}`, fingerprint: id, jobTitle: id, companyName: 'Acme', jobUrl: '', description: '', scrapedAt: '2024-01-01', score });
+
+let runs = 0;
+function record(result: Partial<AnalyzedResponse>) {
+  const run: AnalysisRun = {
+    runId: `run-${++runs}`,
+    userId: 'user-1',
+    progress: { stage: 'done', message: '' },
+    createdAt: `2024-01-0${runs}T00:00:00.000Z`,
+    updatedAt: '',
+    jobs: [],
+    result: { ...PROFILE, jobs: [], failedJobs: [], ...result }
+  };
+  return history.recordAnalysis(run, INPUTS);
+}
+
+beforeAll(async () => {
+  // History written before profiles were left out
+  fs.writeFileSync(path.join(DATA_DIR, 'analyses.json'), JSON.stringify({
+    old: { analysisId: 'old', userId: 'user-1', createdAt: '2023-01-01', finishedAt: '2023-01-01', status: 'done', inputs: INPUTS, jobCount: 0, result: { ...PROFILE, jobs: [], failedJobs: [] } }
+  }));
+  vi.stubEnv('DATA_DIR', DATA_DIR);
+  history = await import('../server/history');
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  fs.rmSync(DATA_DIR, { recursive: true, force: true });
+});
+
+describe('analysis history', () => {
+  it('keeps the results of a run but not the candidate profile', () => {
+    const { analysisId } = record({ jobs: [job('a', 80)], profileId: 'profile-1' });
+    const stored = fs.readFileSync(path.join(DATA_DIR, 'analyses.json'), 'utf-8');
+
+    expect(history.getAnalysis('user-1', analysisId)?.result).toEqual({ jobs: [job('a', 80)], failedJobs: [], profileId: 'profile-1' });
+    expect(stored).not.toMatch(/Jane Doe|jane@example\.com|1234567|Initrode/);
+  });
+
+  it('strips profiles from history written before they were left out', () => {
+    expect(history.getAnalysis('user-1', 'old')?.result).toEqual({ jobs: [], failedJobs: [] });
+  });
+});
+
+describe('compareAnalyses', () => {
+  it('labels jobs filtered out or failed in the other run instead of calling them new or gone', () => {
+    const base = record({
+      jobs: [job('same', 50), job('moved', 60), job('filtered-later', 70), job('failed-later', 40), job('gone', 30)],
+      prefilter: { received: 6, passed: 5, filtered: [{ job: job('filtered-earlier'), rule: 'exclude-keyword', reason: 'Mentions "PHP"' }] }
+    });
+    const target = record({
+      jobs: [job('same', 50), job('moved', 75), job('filtered-earlier', 65), job('new', 90)],
+      prefilter: { received: 6, passed: 5, filtered: [{ job: job('filtered-later'), rule: 'blocked-company', reason: 'Blocked company' }] },
+      failedJobs: [{ job: job('failed-later'), reason: 'Model timed out' }]
+    });
+
+    const comparison = history.compareAnalyses('user-1', target.analysisId, base.analysisId)!;
+
+    expect(comparison.appeared.map(j => j.jobTitle)).toEqual(['new']);
+    expect(comparison.disappeared.map(j => j.jobTitle)).toEqual(['gone']);
+    expect(comparison.changed.map(c => [c.job.jobTitle, c.previousScore, c.score])).toEqual([['moved', 60, 75]]);
+    expect(comparison.unchanged).toBe(1);
+    expect(comparison.unscored.map(({ job, run, status, reason }) => [job.jobTitle, job.score, run, status, reason])).toEqual([
+      ['filtered-later', 70, 'target', 'filtered', 'Blocked company'],
+      ['failed-later', 40, 'target', 'failed', 'Model timed out'],
+      ['filtered-earlier', 65, 'base', 'filtered', 'Mentions "PHP"']
+    ]);
+  });
+});
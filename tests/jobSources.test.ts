@@ -0,0 +1,159 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, it, vi } from 'vitest';
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'jobSources');
+const fixture = (name: string) => fs.readFileSync(path.join(FIXTURES, name), 'utf-8');
+
+// Recorded payloads, served by URL so the adapters run their real fetch and parse code offline
+const RESPONSES: Record<string, string> = {
+  'https://boards-api.greenhouse.io/v1/boards/acme/jobs?content=true': 'greenhouse.json',
+  'https://api.lever.co/v0/postings/globex?mode=json&limit=10': 'lever.json',
+  'https://remote.example.com/jobs.rss': 'feed.rss',
+  'https://careers.example.org/jobs.atom': 'feed.atom',
+  'https://files.example.com/indeed.csv': 'indeed.csv',
+  'https://files.example.com/indeed.json': 'indeed.json'
+};
+
+vi.mock('../server/outbound', () => ({
+  fetchPublic: vi.fn(async (url: string) => RESPONSES[url]
+    ? { status: 200, ok: true, text: fixture(RESPONSES[url]) }
+    : { status: 500, ok: false, text: 'internal secret: db password hunter2' })
+}));
+
+const { fetchJobs, getJobSource } = await import('../server/jobSources');
+
+const query = (searchUrl: string) => ({ searchUrl, maxItems: 10 });
+
+describe('job source adapters', () => {
+  it('maps a Greenhouse board', async () => {
+    const jobs = await fetchJobs('greenhouse', query('https://boards.greenhouse.io/acme'));
+    expect(jobs).toHaveLength(2);
+    expect(jobs[0]).toMatchObject({
+      jobId: 'greenhouse-4012345006',
+      companyName: 'Acme Corp',
+      jobTitle: 'Senior Frontend Engineer',
+      location: 'Berlin, Germany',
+      jobUrl: 'https://boards.greenhouse.io/acme/jobs/4012345006',
+      scrapedAt: '2024-03-11',
+      source: 'greenhouse'
+    });
+    expect(jobs[0].description).toBe('We build developer tools.\n\n- React & TypeScript\n\n- 5+ years');
+    // No company name in the payload: falls back to the board slug
+    expect(jobs[1].companyName).toBe('Acme');
+  });
+
+  it('maps Lever postings with their lists', async () => {
+    const [job] = await fetchJobs('lever', query('https://jobs.lever.co/globex'));
+    expect(job).toMatchObject({
+      jobId: 'lever-6f1c2d3e-0000-4a5b-9c8d-112233445566',
+      companyName: 'Globex',
+      jobTitle: 'Backend Engineer',
+      location: 'London',
+      applyUrl: 'https://jobs.lever.co/globex/6f1c2d3e-0000-4a5b-9c8d-112233445566/apply',
+      source: 'lever'
+    });
+    expect(job.description).toMatch(/^Join the platform team[\s\S]*Requirements:\n- Go or Rust\s+- Kubernetes/);
+    expect(job.description).toContain('We offer visa sponsorship.');
+  });
+
+  it('maps RSS items, splitting "Title at Company"', async () => {
+    const jobs = await fetchJobs('rss', query('https://remote.example.com/jobs.rss'));
+    expect(jobs[0]).toMatchObject({
+      jobId: 'job-8812',
+      jobTitle: 'Data Engineer',
+      companyName: 'Initech',
+      jobUrl: 'https://remote.example.com/jobs/data-engineer-initech',
+      description: 'Build pipelines with Python & Airflow.',
+      scrapedAt: '2024-03-04'
+    });
+    expect(jobs[1]).toMatchObject({ jobTitle: 'QA Analyst', companyName: 'Umbrella', location: 'Lisbon' });
+  });
+
+  it('maps Atom entries', async () => {
+    const [job] = await fetchJobs('rss', query('https://careers.example.org/jobs.atom'));
+    expect(job).toMatchObject({
+      jobTitle: 'Site Reliability Engineer',
+      companyName: 'Hooli',
+      jobUrl: 'https://careers.example.org/sre-hooli',
+      description: 'On-call, Terraform and Prometheus.'
+    });
+  });
+
+  it('maps Indeed CSV and JSON exports', async () => {
+    const csv = await fetchJobs('indeed', query('https://files.example.com/indeed.csv'));
+    expect(csv[0]).toMatchObject({
+      jobTitle: 'Machine Learning Engineer',
+      companyName: 'Stark Industries',
+      location: 'New York, NY',
+      description: 'Train and ship models. "PyTorch" required.',
+      scrapedAt: '2024-03-01'
+    });
+    expect(csv[1].description).toBe('Help customers.');
+    // No upstream key: the ID is derived from the fingerprint and stays stable
+    expect(csv[0].jobId).toMatch(/^job-[0-9a-f]{16}$/);
+
+    const [json] = await fetchJobs('indeed', query('https://files.example.com/indeed.json'));
+    expect(json).toMatchObject({ jobId: 'indeed-f6e5d4c3b2', jobTitle: 'DevOps Engineer', location: 'Austin, TX', description: 'CI/CD and AWS.' });
+  });
+
+  it('maps Apify LinkedIn items', () => {
+    const [raw] = JSON.parse(fixture('apify-linkedin.json'));
+    expect(getJobSource('apify-linkedin').toJob(raw)).toMatchObject({
+      jobId: '3861234567',
+      companyName: 'Vandelay Industries',
+      jobUrl: 'https://www.linkedin.com/jobs/view/3861234567',
+      description: 'Node.js, React and PostgreSQL.',
+      scrapedAt: '2024-03-05'
+    });
+  });
+
+  it('drops links that are not http(s)', async () => {
+    const rss = await fetchJobs('rss', query('https://remote.example.com/jobs.rss'));
+    const greenhouse = await fetchJobs('greenhouse', query('https://boards.greenhouse.io/acme'));
+    const indeed = await fetchJobs('indeed', query('https://files.example.com/indeed.csv'));
+    const apify = getJobSource('apify-linkedin').toJob(JSON.parse(fixture('apify-linkedin.json'))[0]);
+
+    for (const job of [rss[1], greenhouse[1], indeed[1]]) {
+      expect(job.jobUrl).toBe('');
+      expect(job.applyUrl).toBe('');
+    }
+    // A bad apply link falls back to the posting's own link
+    expect(apify.applyUrl).toBe('https://www.linkedin.com/jobs/view/3861234567');
+  });
+
+  it('does not put upstream error bodies into the error', async () => {
+    await expect(fetchJobs('rss', query('https://remote.example.com/missing.rss')))
+      .rejects.toThrow('RSS feed request failed (HTTP 500).');
+    await expect(fetchJobs('rss', query('https://remote.example.com/missing.rss')))
+      .rejects.not.toThrow(/hunter2/);
+  });
+});
+
+describe('Apify token fallback', () => {
+  const linkedIn = { searchUrl: 'https://www.linkedin.com/jobs/search?keywords=react', maxItems: 10 };
+
+  it("doesn't use the server's token unless ALLOW_SERVER_APIFY_TOKEN is set", async () => {
+    vi.stubEnv('APIFY_API_TOKEN', 'server-token');
+    await expect(fetchJobs('apify-linkedin', linkedIn)).rejects.toThrow(/need an Apify credential/);
+    vi.unstubAllEnvs();
+  });
+
+  it("uses the server's token when allowed", async () => {
+    vi.stubEnv('APIFY_API_TOKEN', 'server-token');
+    vi.stubEnv('ALLOW_SERVER_APIFY_TOKEN', 'true');
+    // Past the token check, the search URL is validated next
+    await expect(fetchJobs('apify-linkedin', { ...linkedIn, searchUrl: 'https://example.com' })).rejects.toThrow(/valid LinkedIn search URL/);
+    vi.unstubAllEnvs();
+  });
+});
+
+describe('job counts', () => {
+  it('parses requested counts strictly and clamps stored ones', async () => {
+    const { clampMaxJobs, parseMaxJobs } = await import('../server/jobSources');
+    expect(parseMaxJobs(undefined)).toBe(50);
+    expect(parseMaxJobs('20')).toBe(20);
+    for (const value of [-1, 0, 101, 'abc', 1.5]) expect(() => parseMaxJobs(value)).toThrow(/1 to 100/);
+    expect([clampMaxJobs(-10), clampMaxJobs(5000), clampMaxJobs('abc'), clampMaxJobs(30)]).toEqual([1, 100, 50, 30]);
+  });
+});
@@ -0,0 +1,125 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { Job } from '../types';
+
+const DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'jobscout-jobs-'));
+let jobStore: typeof import('../server/jobStore');
+
+beforeAll(async () => {
+  vi.stubEnv('DATA_DIR', DATA_DIR);
+  vi.stubEnv('JOB_STORE_LIMIT', '3');
+  jobStore = await import('../server/jobStore');
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  fs.rmSync(DATA_DIR, { recursive: true, force: true });
+});
+
+const job = (jobTitle: string, fields: Partial<Job> = {}): Job => ({
+  jobId: jobTitle,
+  companyName: 'Acme',
+  jobTitle,
+  location: 'Berlin',
+  jobUrl: `https://acme.example.com/jobs/${encodeURIComponent(jobTitle)}`,
+  description: `${jobTitle} wanted.`,
+  scrapedAt: '2024-01-01',
+  ...fields
+});
+
+const storedKeys = () => Object.keys(JSON.parse(fs.readFileSync(path.join(DATA_DIR, 'jobs.json'), 'utf-8')));
+
+describe('fingerprintJob', () => {
+  it('ignores case, spacing, www, tracking parameters and trailing slashes', () => {
+    const fingerprint = jobStore.fingerprintJob(job('Engineer', { jobUrl: 'https://acme.example.com/jobs/1' }));
+
+    expect(jobStore.fingerprintJob(job('  ENGINEER ', {
+      companyName: 'acme',
+      location: 'berlin ',
+      jobUrl: 'https://www.acme.example.com/jobs/1/?utm_source=feed'
+    }))).toBe(fingerprint);
+  });
+
+  it('tells apart postings that differ in company, title, location or URL', () => {
+    const base = job('Engineer');
+    const fingerprints = [
+      base,
+      { ...base, companyName: 'Globex' },
+      { ...base, jobTitle: 'Designer' },
+      { ...base, location: 'Paris' },
+      { ...base, jobUrl: 'https://acme.example.com/jobs/2' }
+    ].map(jobStore.fingerprintJob);
+
+    expect(new Set(fingerprints).size).toBe(5);
+  });
+
+  it('does not depend on the upstream ID or description', () => {
+    expect(jobStore.fingerprintJob(job('Engineer', { jobId: 'a', description: 'Old' })))
+      .toBe(jobStore.fingerprintJob(job('Engineer', { jobId: 'b', description: 'New' })));
+  });
+});
+
+describe('recordJobs', () => {
+  it('counts new, changed and unchanged postings against the previous runs', () => {
+    const first = jobStore.recordJobs('counts', [job('Engineer'), job('Designer')]);
+    expect(first.stats).toEqual({ received: 2, duplicates: 0, new: 2, changed: 0, unchanged: 0 });
+    expect(first.jobs.map(j => j.isNew)).toEqual([true, true]);
+
+    const second = jobStore.recordJobs('counts', [
+      job('Engineer'),
+      job('Designer', { description: 'Designer wanted, now remote.' }),
+      job('Manager')
+    ]);
+    expect(second.stats).toEqual({ received: 3, duplicates: 0, new: 1, changed: 1, unchanged: 1 });
+    expect(second.jobs.map(j => j.isNew)).toEqual([false, false, true]);
+    expect(second.jobs[0].firstSeenAt).toBe(first.jobs[0].firstSeenAt);
+  });
+
+  it('drops duplicates within one run and keeps the first', () => {
+    const { jobs, stats } = jobStore.recordJobs('duplicates', [
+      job('Engineer', { jobId: 'rss-1', source: 'rss' }),
+      job('engineer', { jobId: 'greenhouse-1', source: 'greenhouse' }),
+      job('Designer')
+    ]);
+
+    expect(stats).toEqual({ received: 3, duplicates: 1, new: 2, changed: 0, unchanged: 0 });
+    expect(jobs.map(j => j.jobId)).toEqual(['rss-1', 'Designer']);
+  });
+
+  it('keeps what is new separate per user', () => {
+    jobStore.recordJobs('user-a', [job('Engineer')]);
+    expect(jobStore.recordJobs('user-b', [job('Engineer')]).stats.new).toBe(1);
+  });
+
+  it('does not store match results', () => {
+    jobStore.recordJobs('results', [job('Engineer', { score: 90, verdict: 'Strong match', matchedSkills: ['Go'] })]);
+    const stored = JSON.parse(fs.readFileSync(path.join(DATA_DIR, 'jobs.json'), 'utf-8'));
+    const record = Object.entries(stored).find(([key]) => key.startsWith('results:'))![1];
+
+    expect(record).not.toHaveProperty('score');
+    expect(record).not.toHaveProperty('verdict');
+    expect(record).not.toHaveProperty('matchedSkills');
+  });
+
+  it('forgets the postings seen least recently beyond the limit', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    jobStore.recordJobs('limit', [job('A'), job('B')]);
+    vi.setSystemTime(new Date('2024-01-02T00:00:00Z'));
+    jobStore.recordJobs('limit', [job('A'), job('C'), job('D')]);
+
+    const kept = storedKeys().filter(key => key.startsWith('limit:'));
+    expect(kept).toHaveLength(3);
+    expect(kept).not.toContain(`limit:${jobStore.fingerprintJob(job('B'))}`);
+    expect(storedKeys().some(key => key.startsWith('counts:'))).toBe(true);
+
+    vi.setSystemTime(new Date('2024-01-03T00:00:00Z'));
+    expect(jobStore.recordJobs('limit', [job('B')]).jobs[0].isNew).toBe(true);
+  });
+});
@@ -0,0 +1,35 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SavedSearch, SearchDigest } from '../types';
+import { createNotifier, StubNotifier, validateNotifierConfig } from '../server/notifiers';
+
+const digest = { searchName: 'Frontend', newMatches: [], threshold: 70, totalScored: 0 } as unknown as SearchDigest;
+const search = { searchId: 's1', name: 'Frontend' } as SavedSearch;
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('notifier config', () => {
+  it('rejects webhooks on private networks', () => {
+    expect(() => validateNotifierConfig({ type: 'webhook', url: 'http://127.0.0.1:8080/hook' }, 'me@example.com')).toThrow(/private or local/);
+    expect(() => validateNotifierConfig({ type: 'webhook', url: 'http://169.254.169.254/latest' }, 'me@example.com')).toThrow(/private or local/);
+    expect(validateNotifierConfig({ type: 'webhook', url: 'https://hooks.example.com/x' }, 'me@example.com')).toEqual({ type: 'webhook', url: 'https://hooks.example.com/x' });
+  });
+
+  it('only sends email to the account address', () => {
+    expect(() => validateNotifierConfig({ type: 'email', to: 'someone@else.com' }, 'me@example.com')).toThrow(/your account's address/);
+    expect(validateNotifierConfig({ type: 'email', to: 'ME@example.com' }, 'me@example.com')).toEqual({ type: 'email', to: 'me@example.com' });
+    expect(validateNotifierConfig({ type: 'email' }, 'me@example.com')).toEqual({ type: 'email', to: 'me@example.com' });
+  });
+
+  it('delivers stored email configs to the account address', async () => {
+    vi.stubEnv('NOTIFIER_PROVIDER', 'stub');
+    await createNotifier({ type: 'email', to: 'someone@else.com' }, 'me@example.com')!.send(digest, search);
+    expect(StubNotifier.sent.at(-1)?.target).toBe('me@example.com');
+  });
+
+  it('refuses to post to a webhook on a private address', async () => {
+    const notifier = createNotifier({ type: 'webhook', url: 'http://127.0.0.1:9/hook' }, 'me@example.com')!;
+    await expect(notifier.send(digest, search)).rejects.toThrow(/private or local/);
+  });
+});
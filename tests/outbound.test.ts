@@ -0,0 +1,94 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+describe('isPrivateAddress', async () => {
+  const { isPrivateAddress } = await import('../server/outbound');
+
+  it.each([
+    '127.0.0.1', '10.1.2.3', '172.16.0.1', '172.31.255.255', '192.168.1.1', '169.254.169.254',
+    '100.64.0.1', '0.0.0.0', '224.0.0.1', '::1', '::', 'fe80::1', 'fd00::1', '::ffff:127.0.0.1', '::ffff:7f00:1', '64:ff9b::a9fe:a9fe'
+  ])('treats %s as private', (address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(['93.184.216.34', '172.32.0.1', '8.8.8.8', '2606:4700:4700::1111', '::ffff:8.8.8.8'])('treats %s as public', (address) => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+});
+
+describe('fetchPublic', () => {
+  let server: http.Server;
+  let port: number;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      if (req.url === '/slow') return setTimeout(() => res.end('late'), 2000);
+      if (req.url === '/big') return res.end('x'.repeat(64 * 1024));
+      if (req.url === '/redirect-private') {
+        res.writeHead(302, { Location: `http://127.0.0.1:${port}/secret` });
+        return res.end();
+      }
+      res.end('internal secret');
+    });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(() => new Promise(resolve => server.close(resolve)));
+
+  it('refuses private, loopback and link-local targets', async () => {
+    const { fetchPublic } = await import('../server/outbound');
+    for (const url of [
+      `http://127.0.0.1:${port}/`,
+      `http://[::1]:${port}/`,
+      'http://169.254.169.254/latest/meta-data/',
+      'http://10.0.0.5/',
+      `http://localhost:${port}/`
+    ]) {
+      await expect(fetchPublic(url), url).rejects.toThrow(/private/);
+    }
+  });
+
+  it('refuses other schemes', async () => {
+    const { fetchPublic } = await import('../server/outbound');
+    await expect(fetchPublic('file:///etc/passwd')).rejects.toThrow('Only http and https URLs are supported.');
+    await expect(fetchPublic('javascript:alert(1)')).rejects.toThrow('Only http and https URLs are supported.');
+  });
+
+  describe('with localhost allowed', () => {
+    let fetchPublic: typeof import('../server/outbound').fetchPublic;
+
+    beforeAll(async () => {
+      vi.resetModules();
+      vi.stubEnv('FETCH_PRIVATE_HOSTS', 'localhost');
+      ({ fetchPublic } = await import('../server/outbound'));
+    });
+
+    afterAll(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('fetches allow-listed hosts', async () => {
+      await expect(fetchPublic(`http://localhost:${port}/`)).resolves.toMatchObject({ status: 200, text: 'internal secret' });
+    });
+
+    it('checks every redirect hop', async () => {
+      await expect(fetchPublic(`http://localhost:${port}/redirect-private`)).rejects.toThrow(/private/);
+    });
+
+    it('times out', async () => {
+      await expect(fetchPublic(`http://localhost:${port}/slow`, { timeoutMs: 200 })).rejects.toThrow('No response within 0 seconds.');
+    });
+
+    it('stops when cancelled', async () => {
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 100);
+      await expect(fetchPublic(`http://localhost:${port}/slow`, { signal: controller.signal })).rejects.toThrow('The request was cancelled.');
+    });
+
+    it('caps the response size', async () => {
+      await expect(fetchPublic(`http://localhost:${port}/big`, { maxBytes: 1024 })).rejects.toThrow(/larger than/);
+    });
+  });
+});
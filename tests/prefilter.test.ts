@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { Job } from '../types';
+import { lexicalOverlap, parsePrefilterRules, prefilterJobs } from '../server/prefilter';
+
+const job = (jobTitle: string, description = ''): Job => ({
+  jobId: jobTitle,
+  jobTitle,
+  companyName: 'Acme',
+  location: '',
+  description,
+  jobUrl: '',
+  applyUrl: ''
+} as Job);
+
+const titlesKept = (titles: string[], excludeTitlePatterns: string[]) =>
+  prefilterJobs(titles.map(t => job(t)), parsePrefilterRules({ excludeTitlePatterns }), []).jobs.map(j => j.jobTitle);
+
+describe('prefilter terms', () => {
+  it('matches whole words, case-insensitively', () => {
+    expect(titlesKept(['Intern', 'International Sales', 'Senior Engineer'], ['intern'])).toEqual(['International Sales', 'Senior Engineer']);
+  });
+
+  it('treats a leading or trailing * as the rest of the word', () => {
+    expect(titlesKept(['Internship', 'Intern', 'Engineer'], ['intern*'])).toEqual(['Engineer']);
+    expect(titlesKept(['DevOps Engineer', 'Ops Lead', 'Operator'], ['*ops'])).toEqual(['Operator']);
+  });
+
+  it('treats other characters literally', () => {
+    expect(titlesKept(['C++ Developer', 'C Developer'], ['c++'])).toEqual(['C Developer']);
+  });
+
+  it('rejects regular expressions, inner wildcards and oversized input', () => {
+    expect(() => parsePrefilterRules({ excludeKeywords: ['/(a+)+$/'] })).toThrow(/Regular expressions are not supported/);
+    expect(() => parsePrefilterRules({ excludeKeywords: ['a*b'] })).toThrow(/start or end of a word/);
+    expect(() => parsePrefilterRules({ excludeKeywords: ['x'.repeat(101)] })).toThrow(/at most 100 characters/);
+    expect(() => parsePrefilterRules({ includeKeywords: Array.from({ length: 51 }, (_, i) => `w${i}`) })).toThrow(/at most 50 entries/);
+  });
+
+  it('stays fast on adversarial postings', () => {
+    const rules = parsePrefilterRules({ excludeKeywords: ['*a*', '*aab', 'aab*'] });
+    const started = Date.now();
+    prefilterJobs([job('a'.repeat(50000), 'a'.repeat(50000) + '!')], rules, []);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('matches CV skills literally', () => {
+    expect(lexicalOverlap(['/usr/', 'Node.js'], job('Engineer', 'Node.js services, files under /usr/ on Linux'))).toBe(100);
+  });
+});
@@ -0,0 +1,64 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { CandidateProfile } from '../types';
+
+const DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'jobscout-profiles-'));
+let profiles: typeof import('../server/profiles');
+let describeCandidate: typeof import('../server/cvParser').describeCandidate;
+
+beforeAll(async () => {
+  vi.stubEnv('DATA_DIR', DATA_DIR);
+  profiles = await import('../server/profiles');
+  ({ describeCandidate } = await import('../server/cvParser'));
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  fs.rmSync(DATA_DIR, { recursive: true, force: true });
+});
+
+// What an older client or a hand-written import might send: only the fields the form requires
+const PARTIAL = { skills: ['TypeScript'], profileSummary: 'Engineer.', experienceHighlights: [] } as unknown as CandidateProfile;
+
+describe('saved profiles', () => {
+  it('fills in every missing field of a partial profile before saving it', () => {
+    const saved = profiles.createProfile('user-1', 'Partial', PARTIAL);
+
+    expect(profiles.getProfile('user-1', saved.profileId)!.profile).toEqual({
+      contact: { name: '' },
+      skills: ['TypeScript'],
+      profileSummary: 'Engineer.',
+      experienceHighlights: [],
+      workHistory: [],
+      education: [],
+      certifications: [],
+      languages: [],
+      totalYearsExperience: 0,
+      seniority: 'mid'
+    });
+    expect(() => describeCandidate(saved.profile)).not.toThrow();
+  });
+
+  it('replaces fields of the wrong type on update', () => {
+    const { profileId } = profiles.createProfile('user-1', 'Broken', PARTIAL);
+    const updated = profiles.updateProfile('user-1', profileId, 'Broken', {
+      ...PARTIAL,
+      contact: 'Jane',
+      workHistory: [{ title: 'Lead', employer: 'Acme' }, null],
+      languages: 'English',
+      seniority: 'wizard'
+    } as unknown as CandidateProfile)!;
+
+    expect(updated.profile.contact).toEqual({ name: '' });
+    expect(updated.profile.workHistory).toEqual([{ title: 'Lead', employer: 'Acme', bullets: [] }]);
+    expect(updated.profile.languages).toEqual([]);
+    expect(updated.profile.seniority).toBe('mid');
+    expect(describeCandidate(updated.profile)).toContain('Lead at Acme');
+  });
+
+  it('still requires the fields the form always sends', () => {
+    expect(() => profiles.createProfile('user-1', 'Empty', {} as CandidateProfile)).toThrow(/skills, profileSummary and experienceHighlights/);
+  });
+});
@@ -0,0 +1,126 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { describe, expect, it, vi } from 'vitest';
+import { CandidateProfile, Job } from '../types';
+import { MockProvider } from '../server/llm/mock';
+import { generateCoverLetterDraft, DEFAULT_COVER_LETTER_OPTIONS } from '../server/coverLetters';
+import { detectPromptInjection } from '../server/promptSafety';
+import { createScoringPrompt, requestJobMatch } from '../server/scoring';
+import { tailorCv } from '../server/tailoredCv';
+
+const FIXTURES = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'promptInjection');
+
+interface Posting {
+  name: string;
+  job: Pick<Job, 'jobTitle' | 'companyName' | 'location' | 'description'>;
+  flags: string[];
+}
+
+const postings: Posting[] = JSON.parse(fs.readFileSync(path.join(FIXTURES, 'postings.json'), 'utf-8'));
+const toJob = (posting: Posting): Job => ({ jobId: posting.name, jobUrl: '', scrapedAt: '2024-01-01', ...posting.job });
+
+const PROFILE: CandidateProfile = {
+  contact: { name: 'Jane Doe', location: 'Berlin' },
+  skills: ['TypeScript', 'React', 'Node.js'],
+  profileSummary: 'Full-stack engineer.',
+  experienceHighlights: [],
+  workHistory: [
+    { title: 'Senior Engineer', employer: 'Initrode', startDate: '2020', current: true, bullets: ['Built dashboards', 'Ran the API'] },
+    { title: 'Engineer', employer: 'Vandelay', startDate: '2017', endDate: '2020', bullets: ['Shipped features'] }
+  ],
+  education: [],
+  certifications: [],
+  languages: [],
+  totalYearsExperience: 7,
+  seniority: 'senior'
+};
+
+// Records every prompt the pipeline sends, answering from the default mock fixtures.
+class RecordingProvider extends MockProvider {
+  readonly prompts: string[] = [];
+
+  async generateJson<T>(...args: Parameters<MockProvider['generateJson']>): Promise<T> {
+    this.prompts.push(args[1]);
+    return super.generateJson<T>(...args);
+  }
+
+  async generateText(...args: Parameters<MockProvider['generateText']>): Promise<string> {
+    this.prompts.push(args[1]);
+    return super.generateText(...args);
+  }
+}
+
+// Fenced spans removed, so what's left is the part of the prompt the model should trust.
+const outsideFences = (prompt: string) => prompt.replace(/<untrusted_(\w+)>[\s\S]*?<\/untrusted_\1>/g, '<fenced>');
+
+// The same posting with every scraped field replaced by a placeholder.
+const neutral = (job: Job): Job => ({ ...job, jobTitle: 'x', companyName: 'x', location: job.location?.trim() ? 'x' : '', description: 'x' });
+
+// Nothing from the posting may reach the prompt outside a fence, or any markup survive inside one.
+function expectFenced(prompt: string, neutralPrompt: string) {
+  expect(outsideFences(prompt)).toBe(outsideFences(neutralPrompt));
+  expect(prompt).not.toMatch(/<\|im_start\|>|\u200b|<!--/);
+}
+
+describe('prompt injection fixtures', () => {
+  it.each(postings)('flags a posting that $name', posting => {
+    expect(detectPromptInjection(toJob(posting))).toEqual(expect.arrayContaining(posting.flags));
+  });
+
+  it('does not flag an ordinary posting', () => {
+    const job = toJob({ name: 'plain', flags: [], job: {
+      jobTitle: 'Frontend Engineer', companyName: 'Acme', location: 'Berlin',
+      description: 'You will build our design system in React and TypeScript, and review code with the team. We score every applicant fairly.'
+    } });
+    expect(detectPromptInjection(job)).toEqual([]);
+  });
+
+  it.each(postings)('fences every field of a posting that $name in the scoring prompt', posting => {
+    const prompt = createScoringPrompt(PROFILE, toJob(posting));
+    expectFenced(prompt, createScoringPrompt(PROFILE, neutral(toJob(posting))));
+    // A forged closing tag can't end the fence early
+    expect(prompt.match(/<\/untrusted_job_title>/g)).toHaveLength(1);
+  });
+
+  it('fences every field in the cover letter and tailoring prompts', async () => {
+    const llm = new RecordingProvider();
+    for (const job of postings.flatMap(posting => [toJob(posting), neutral(toJob(posting))])) {
+      await generateCoverLetterDraft(llm, job, PROFILE, DEFAULT_COVER_LETTER_OPTIONS);
+      await tailorCv(llm, job, PROFILE);
+    }
+    // Prompts come in fours: letter and tailoring for the posting, then for its neutral twin
+    expect(llm.prompts).toHaveLength(postings.length * 4);
+    for (let i = 0; i < llm.prompts.length; i += 4) {
+      expectFenced(llm.prompts[i], llm.prompts[i + 2]);
+      expectFenced(llm.prompts[i + 1], llm.prompts[i + 3]);
+    }
+  });
+});
+
+describe('scores steered by a posting', () => {
+  // Fixture answers are what a model talked into it might return: 150, -30, 1e9...
+  const llm = new MockProvider(path.join(FIXTURES, 'llm'));
+
+  it.each(postings)('stay whole numbers within 0-100 for a posting that $name', async posting => {
+    const onReask = vi.fn();
+    const match = await requestJobMatch(llm, createScoringPrompt(PROFILE, toJob(posting)), { onReask });
+
+    expect(onReask).not.toHaveBeenCalled();
+    for (const value of [match.score, ...Object.values(match.breakdown)]) {
+      expect(Number.isInteger(value)).toBe(true);
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThanOrEqual(100);
+    }
+  });
+
+  it('clamps rather than rejects out-of-range answers', async () => {
+    const match = await requestJobMatch(llm, createScoringPrompt(PROFILE, toJob(postings[0])));
+    expect(match.score).toBe(100);
+    expect(match.breakdown).toEqual({ skills: 100, seniority: 0, domain: 100, location: 100 });
+
+    const low = await requestJobMatch(llm, 'no rule matches this prompt');
+    expect(low.score).toBe(0);
+    expect(low.breakdown).toEqual({ skills: 0, seniority: 0, domain: 50, location: 100 });
+  });
+});
@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AnalyzedResponse, RunEvent } from '../types';
+import { cancelRun, completeRun, createReporter, createRun, failRun, getRun, runSignal, subscribe } from '../server/runs';
+
+// The defaults: RUN_ABANDON_SECONDS=60, RUN_RETENTION_SECONDS=3600
+const ABANDON_MS = 60 * 1000;
+const RETENTION_MS = 3600 * 1000;
+
+const RESULT = { jobs: [], failedJobs: [] } as unknown as AnalyzedResponse;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('getRun', () => {
+  it("does not return another user's run", () => {
+    const run = createRun('user-a');
+
+    expect(getRun('user-a', run.runId)).toBe(run);
+    expect(getRun('user-b', run.runId)).toBeUndefined();
+    expect(getRun('user-a', 'missing')).toBeUndefined();
+  });
+});
+
+describe('subscribe', () => {
+  it('delivers the events emitted after subscribing until unsubscribed', () => {
+    const run = createRun('user-a');
+    const reporter = createReporter(run);
+    const received: RunEvent[] = [];
+
+    reporter.progress({ stage: 'scraping', message: 'Before' });
+    const unsubscribe = subscribe(run.runId, event => received.push(event));
+    reporter.progress({ stage: 'scoring', message: 'During' });
+    unsubscribe();
+    reporter.progress({ stage: 'scoring', message: 'After' });
+
+    expect(received).toEqual([{ type: 'progress', progress: { stage: 'scoring', message: 'During' } }]);
+  });
+
+  it('cancels a run once its last watcher has been gone for the abandon delay', () => {
+    const run = createRun('user-a');
+    subscribe(run.runId, () => {})();
+
+    vi.advanceTimersByTime(ABANDON_MS - 1);
+    expect(runSignal(run).aborted).toBe(false);
+
+    vi.advanceTimersByTime(1);
+    expect(runSignal(run).aborted).toBe(true);
+  });
+
+  it('keeps a run going when a watcher reconnects within the delay', () => {
+    const run = createRun('user-a');
+    subscribe(run.runId, () => {})();
+    vi.advanceTimersByTime(ABANDON_MS / 2);
+    const unsubscribe = subscribe(run.runId, () => {});
+
+    vi.advanceTimersByTime(ABANDON_MS);
+    expect(runSignal(run).aborted).toBe(false);
+    unsubscribe();
+  });
+
+  it('leaves runs nobody ever watched alone', () => {
+    const run = createRun('user-a');
+    vi.advanceTimersByTime(ABANDON_MS * 2);
+    expect(runSignal(run).aborted).toBe(false);
+  });
+});
+
+describe('finished runs', () => {
+  it('are kept for the retention period, then evicted', () => {
+    const run = createRun('user-a');
+    completeRun(run, RESULT);
+
+    vi.advanceTimersByTime(RETENTION_MS - 1);
+    expect(getRun('user-a', run.runId)).toBe(run);
+
+    vi.advanceTimersByTime(1);
+    expect(getRun('user-a', run.runId)).toBeUndefined();
+  });
+
+  it('are evicted after failing too', () => {
+    const run = createRun('user-a');
+    failRun(run, 'Apify run failed.');
+
+    vi.advanceTimersByTime(RETENTION_MS);
+    expect(getRun('user-a', run.runId)).toBeUndefined();
+  });
+
+  it('cannot be cancelled', () => {
+    const run = createRun('user-a');
+    completeRun(run, RESULT);
+    expect(cancelRun(run)).toBe(false);
+  });
+});
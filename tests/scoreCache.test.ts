@@ -0,0 +1,64 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+const DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'jobscout-cache-'));
+let ResultCache: typeof import('../server/scoreCache').ResultCache;
+
+beforeAll(async () => {
+  vi.stubEnv('DATA_DIR', DATA_DIR);
+  vi.stubEnv('SCORE_CACHE_MAX_ENTRIES', '3');
+  ({ ResultCache } = await import('../server/scoreCache'));
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  fs.rmSync(DATA_DIR, { recursive: true, force: true });
+});
+
+const readFile = (name: string) => JSON.parse(fs.readFileSync(path.join(DATA_DIR, `${name}.json`), 'utf-8'));
+
+describe('ResultCache', () => {
+  it('keys on every part', () => {
+    const cache = new ResultCache<number>('keys');
+    expect(cache.key('prompt A', 'v1', 'model')).not.toBe(cache.key('prompt B', 'v1', 'model'));
+    expect(cache.key('prompt A', 'v1', 'model')).toBe(cache.key('prompt A', 'v1', 'model'));
+  });
+
+  it('batches writes into one save', () => {
+    const cache = new ResultCache<number>('batched');
+    const writes = vi.spyOn(fs, 'writeFileSync');
+    for (let i = 0; i < 3; i++) cache.set(`k${i}`, i);
+    expect(cache.get('k1')).toBe(1);
+    expect(writes).not.toHaveBeenCalled();
+
+    cache.flush();
+    expect(writes).toHaveBeenCalledTimes(1);
+    expect(Object.keys(readFile('batched'))).toHaveLength(3);
+    writes.mockRestore();
+  });
+
+  it('drops expired entries and caps the size', () => {
+    const old = new Date(Date.now() - 365 * 24 * 3600 * 1000).toISOString();
+    fs.writeFileSync(path.join(DATA_DIR, 'pruned.json'), JSON.stringify({
+      stale: { value: 1, cachedAt: old }
+    }));
+    const cache = new ResultCache<number>('pruned');
+    expect(cache.get('stale')).toBeUndefined();
+    expect(readFile('pruned')).toEqual({});
+
+    for (let i = 0; i < 5; i++) cache.set(`k${i}`, i);
+    cache.flush();
+    expect(Object.keys(readFile('pruned'))).toHaveLength(3);
+  });
+
+  it('keeps entries only as long as its own TTL', () => {
+    const twoDaysAgo = new Date(Date.now() - 2 * 24 * 3600 * 1000).toISOString();
+    fs.writeFileSync(path.join(DATA_DIR, 'short.json'), JSON.stringify({
+      profile: { value: 1, cachedAt: twoDaysAgo }
+    }));
+    expect(new ResultCache<number>('short', 24 * 3600 * 1000).get('profile')).toBeUndefined();
+    expect(readFile('short')).toEqual({});
+  });
+});
@@ -0,0 +1,254 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import JSZip from 'jszip';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { AnalysisRun, CandidateProfile, CoverLetterBatch, Job } from '../types';
+
+const DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'jobscout-server-'));
+let server: typeof import('../server').server;
+let baseUrl: string;
+
+const PROFILE: CandidateProfile = {
+  contact: { name: 'Jane Doe' },
+  skills: ['TypeScript'],
+  profileSummary: 'Full-stack engineer.',
+  experienceHighlights: [],
+  workHistory: [],
+  education: [],
+  certifications: [],
+  languages: [],
+  totalYearsExperience: 5,
+  seniority: 'senior'
+};
+
+beforeAll(async () => {
+  vi.stubEnv('DATA_DIR', DATA_DIR);
+  vi.stubEnv('PORT', '0');
+  vi.stubEnv('LLM_PROVIDER', 'mock');
+  vi.stubEnv('ALLOW_SIGNUP', 'true');
+  ({ server } = await import('../server'));
+  if (!server.listening) await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+  vi.unstubAllEnvs();
+  fs.rmSync(DATA_DIR, { recursive: true, force: true });
+});
+
+// Calls the API as the account holding `cookie`; JSON bodies in and out.
+async function api(cookie: string, method: string, route: string, body?: unknown) {
+  const response = await fetch(`${baseUrl}${route}`, {
+    method,
+    headers: { cookie, ...(body ? { 'Content-Type': 'application/json' } : {}) },
+    body: body ? JSON.stringify(body) : undefined
+  });
+  const text = await response.text();
+  return { status: response.status, headers: response.headers, text, body: text && response.headers.get('content-type')?.includes('json') ? JSON.parse(text) : undefined };
+}
+
+let accounts = 0;
+async function signUp(): Promise<string> {
+  const response = await fetch(`${baseUrl}/api/auth/register`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email: `user${++accounts}@example.com`, password: 'correct horse battery', name: '' })
+  });
+  expect(response.status).toBe(201);
+  return response.headers.get('set-cookie')!.split(';')[0];
+}
+
+const userIdOf = async (cookie: string): Promise<string> => (await api(cookie, 'GET', '/api/auth/me')).body.userId;
+
+const job = (jobId: string, fields: Partial<Job> = {}): Job => ({
+  jobId,
+  companyName: 'Acme',
+  jobTitle: `Engineer ${jobId}`,
+  jobUrl: `https://acme.example.com/jobs/${jobId}`,
+  description: 'Build APIs.',
+  scrapedAt: '2024-01-01',
+  ...fields
+});
+
+describe('max jobs', () => {
+  const search = { source: 'greenhouse', searchUrl: 'https://boards.greenhouse.io/acme' };
+
+  it.each([-5, 0, 1000, 'abc', 2.5])('rejects %s for an analysis', async maxJobs => {
+    const cookie = await signUp();
+    const { body: profile } = await api(cookie, 'POST', '/api/profiles', { name: 'Main', profile: PROFILE });
+    const response = await api(cookie, 'POST', '/api/analyze', { ...search, profileId: profile.profileId, maxJobs });
+    expect(response.status).toBe(400);
+    expect(response.body.error).toMatch(/Max jobs must be a whole number from 1 to 100/);
+  });
+
+  it('rejects out-of-range counts for a saved search and keeps valid ones', async () => {
+    const cookie = await signUp();
+    const { body: profile } = await api(cookie, 'POST', '/api/profiles', { name: 'Main', profile: PROFILE });
+    const input = { ...search, name: 'Acme', profileId: profile.profileId, schedule: '' };
+
+    for (const maxJobs of [-5, 101, 'abc']) {
+      expect((await api(cookie, 'POST', '/api/searches', { ...input, maxJobs })).status).toBe(400);
+    }
+    const created = await api(cookie, 'POST', '/api/searches', { ...input, maxJobs: 20 });
+    expect(created.status).toBe(201);
+    expect(created.body.maxJobs).toBe(20);
+    expect((await api(cookie, 'PUT', `/api/searches/${created.body.searchId}`, { ...input, maxJobs: -1 })).status).toBe(400);
+  });
+});
+
+describe('sessions', () => {
+  it('answers a malformed session cookie with 401, not 500', async () => {
+    const { SESSION_COOKIE } = await import('../server/auth');
+    expect((await api(`${SESSION_COOKIE}=%E0%A4%A`, 'GET', '/api/profiles')).status).toBe(401);
+  });
+});
+
+describe('cover letter batches', () => {
+  // A finished run in the caller's history; it is no longer in memory, so the profile is sent along
+  async function finishedRun(cookie: string, jobs: Job[]): Promise<string> {
+    const { recordAnalysis } = await import('../server/history');
+    const runId = `run-${++accounts}`;
+    const now = new Date().toISOString();
+    const run: AnalysisRun = {
+      runId,
+      userId: await userIdOf(cookie),
+      progress: { stage: 'done', message: 'Done.' },
+      createdAt: now,
+      updatedAt: now,
+      jobs,
+      result: { ...PROFILE, jobs, failedJobs: [] }
+    };
+    recordAnalysis(run, { source: 'greenhouse', searchUrl: 'https://boards.greenhouse.io/acme', maxJobs: 10 });
+    return runId;
+  }
+
+  async function waitForBatch(cookie: string, batchId: string): Promise<CoverLetterBatch> {
+    for (let i = 0; i < 100; i++) {
+      const { body } = await api(cookie, 'GET', `/api/cover-letters/batch/${batchId}`);
+      if (body.status !== 'running') return body;
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+    throw new Error('Batch did not finish.');
+  }
+
+  it('bundles one letter per job with a CSV index into a zip', async () => {
+    const cookie = await signUp();
+    const jobs = [job('1', { score: 91, applyUrl: 'https://acme.example.com/apply/1' }), job('2', { companyName: 'Globex, Inc.', score: 80 })];
+    const runId = await finishedRun(cookie, jobs);
+
+    const started = await api(cookie, 'POST', '/api/cover-letters/batch', { runId, jobIds: ['2', '1'], profile: PROFILE, format: 'txt' });
+    expect(started.status).toBe(202);
+    const batch = await waitForBatch(cookie, started.body.batchId);
+    expect(batch.status).toBe('done');
+    expect(batch.items.map(item => item.status)).toEqual(['done', 'done']);
+
+    const zipUrl = new URL(batch.zipUrl!);
+    const download = await fetch(`${baseUrl}${zipUrl.pathname}${zipUrl.search}`, { headers: { cookie } });
+    expect(download.status).toBe(200);
+    const zip = await JSZip.loadAsync(Buffer.from(await download.arrayBuffer()));
+
+    expect(Object.keys(zip.files).sort()).toEqual(['01_Globex-Inc_Engineer-2.txt', '02_Acme_Engineer-1.txt', 'index.csv']);
+    expect(await zip.file('index.csv')!.async('string')).toBe([
+      'company,title,score,apply_url,file,error',
+      '"Globex, Inc.",Engineer 2,80,https://acme.example.com/jobs/2,01_Globex-Inc_Engineer-2.txt,',
+      'Acme,Engineer 1,91,https://acme.example.com/apply/1,02_Acme_Engineer-1.txt,',
+      ''
+    ].join('\r\n'));
+  });
+
+  it("refuses another user's run and jobs that are not part of the run", async () => {
+    const owner = await signUp();
+    const other = await signUp();
+    const runId = await finishedRun(owner, [job('1')]);
+
+    expect((await api(other, 'POST', '/api/cover-letters/batch', { runId, jobIds: ['1'], profile: PROFILE })).status).toBe(404);
+    const foreignJob = await api(owner, 'POST', '/api/cover-letters/batch', { runId, jobIds: ['1', '99'], profile: PROFILE });
+    expect(foreignJob.status).toBe(400);
+    expect(foreignJob.body.error).toBe('Some jobs are not part of this run.');
+  });
+
+  it('does not show a batch or its zip to another user', async () => {
+    const owner = await signUp();
+    const other = await signUp();
+    const runId = await finishedRun(owner, [job('1')]);
+    const { body } = await api(owner, 'POST', '/api/cover-letters/batch', { runId, jobIds: ['1'], profile: PROFILE, format: 'txt' });
+    const batch = await waitForBatch(owner, body.batchId);
+
+    expect((await api(other, 'GET', `/api/cover-letters/batch/${batch.batchId}`)).status).toBe(404);
+    expect((await api(other, 'GET', `/api/cover-letters/batch/${batch.batchId}/events`)).status).toBe(404);
+    const zipUrl = new URL(batch.zipUrl!);
+    expect((await fetch(`${baseUrl}${zipUrl.pathname}${zipUrl.search}`, { headers: { cookie: other } })).status).toBe(404);
+  });
+});
+
+describe('applications', () => {
+  it('tracks a job through create, read, update and delete', async () => {
+    const cookie = await signUp();
+
+    const created = await api(cookie, 'POST', '/api/applications', { job: job('1') });
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ status: 'saved', notes: '', artifacts: [] });
+    const route = `/api/applications/${created.body.applicationId}`;
+    expect((await api(cookie, 'POST', '/api/applications', { job: job('1') })).status).toBe(409);
+
+    const updated = await api(cookie, 'PATCH', route, { status: 'applied', notes: 'Sent via the careers page', reminderAt: '2020-01-01T00:00:00Z' });
+    expect(updated.status).toBe(200);
+    expect(updated.body.history.map((h: { status: string }) => h.status)).toEqual(['saved', 'applied']);
+    expect((await api(cookie, 'GET', route)).body).toMatchObject({ status: 'applied', notes: 'Sent via the careers page' });
+    expect((await api(cookie, 'GET', '/api/applications/reminders')).body.map((a: { applicationId: string }) => a.applicationId))
+      .toEqual([created.body.applicationId]);
+
+    expect((await api(cookie, 'PATCH', route, { reminderAt: null })).body).not.toHaveProperty('reminderAt');
+    expect((await api(cookie, 'GET', '/api/applications/reminders')).body).toEqual([]);
+
+    expect((await api(cookie, 'DELETE', route)).status).toBe(204);
+    expect((await api(cookie, 'GET', route)).status).toBe(404);
+    expect((await api(cookie, 'GET', '/api/applications')).body).toEqual([]);
+  });
+
+  it('rejects unknown statuses, bad dates and incomplete jobs', async () => {
+    const cookie = await signUp();
+    expect((await api(cookie, 'POST', '/api/applications', { job: { jobId: '1' } })).status).toBe(400);
+    expect((await api(cookie, 'POST', '/api/applications', { job: job('1'), status: 'ghosted' })).status).toBe(400);
+
+    const { body } = await api(cookie, 'POST', '/api/applications', { job: job('1') });
+    expect((await api(cookie, 'PATCH', `/api/applications/${body.applicationId}`, { status: 'ghosted' })).status).toBe(400);
+    expect((await api(cookie, 'PATCH', `/api/applications/${body.applicationId}`, { reminderAt: 'someday' })).status).toBe(400);
+  });
+
+  it("keeps each account's applications to itself", async () => {
+    const owner = await signUp();
+    const other = await signUp();
+    const { body } = await api(owner, 'POST', '/api/applications', { job: job('1'), status: 'interviewing' });
+    await api(owner, 'PATCH', `/api/applications/${body.applicationId}`, { reminderAt: '2020-01-01T00:00:00Z' });
+    const route = `/api/applications/${body.applicationId}`;
+
+    expect((await api(other, 'GET', route)).status).toBe(404);
+    expect((await api(other, 'PATCH', route, { status: 'rejected' })).status).toBe(404);
+    expect((await api(other, 'DELETE', route)).status).toBe(404);
+    expect((await api(other, 'GET', '/api/applications')).body).toEqual([]);
+    expect((await api(other, 'GET', '/api/applications/reminders')).body).toEqual([]);
+    // The same posting can be tracked by several accounts
+    expect((await api(other, 'POST', '/api/applications', { job: job('1') })).status).toBe(201);
+
+    expect((await api(owner, 'GET', route)).body.status).toBe('interviewing');
+  });
+
+  it("links a rendered letter only to the caller's own application", async () => {
+    const owner = await signUp();
+    const other = await signUp();
+    const { body } = await api(owner, 'POST', '/api/applications', { job: job('1') });
+    const route = `/api/applications/${body.applicationId}`;
+    const letter = { job: job('1'), text: 'Dear Acme,', format: 'txt', applicationId: body.applicationId };
+
+    expect((await api(other, 'POST', '/api/cover-letters/render', letter)).status).toBe(200);
+    expect((await api(owner, 'GET', route)).body.artifacts).toEqual([]);
+
+    const rendered = await api(owner, 'POST', '/api/cover-letters/render', letter);
+    const { artifacts } = (await api(owner, 'GET', route)).body;
+    expect(artifacts).toEqual([expect.objectContaining({ artifactId: rendered.body.artifactId, kind: 'coverLetter', url: expect.any(String) })]);
+  });
+});
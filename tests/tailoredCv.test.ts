@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { CandidateProfile, Job } from '../types';
+import { LlmCallOptions, LlmProvider, UsageMeter } from '../server/llm';
+import { tailorCv } from '../server/tailoredCv';
+
+const PROFILE: CandidateProfile = {
+  contact: { name: 'Jane Doe' },
+  skills: ['TypeScript', 'React', 'Node.js'],
+  profileSummary: 'Full-stack engineer.',
+  experienceHighlights: [],
+  workHistory: [{ title: 'Engineer', employer: 'Initrode', startDate: '2020', bullets: ['Built dashboards', 'Ran the API'] }],
+  education: [],
+  certifications: [],
+  languages: [],
+  totalYearsExperience: 5,
+  seniority: 'senior'
+};
+
+const JOB = { jobId: '1', jobTitle: 'Backend Engineer', companyName: 'Acme', jobUrl: '', description: 'Node.js APIs.', scrapedAt: '2024-01-01' } as Job;
+
+// Replies with each of `replies` in turn, reporting 100 prompt and 10 output tokens per request.
+function provider(...replies: unknown[]): { llm: LlmProvider; prompts: string[] } {
+  const prompts: string[] = [];
+  const llm = {
+    name: 'fake',
+    modelFor: () => 'fake-model',
+    generateJson: async (_task: string, prompt: string, _schema: unknown, options: LlmCallOptions = {}) => {
+      prompts.push(prompt);
+      options.onUsage?.({ promptTokens: 100, outputTokens: 10 });
+      return replies[prompts.length - 1];
+    },
+    generateText: async () => ''
+  } as unknown as LlmProvider;
+  return { llm, prompts };
+}
+
+const VALID = {
+  profileSummary: 'Backend engineer.',
+  skills: ['Node.js', 'Rust', 'TypeScript'],
+  emphasisedSkills: ['Node.js'],
+  workHistory: [{ index: 0, bullets: ['Ran the API', 'Built dashboards'] }]
+};
+
+describe('tailorCv', () => {
+  it('re-asks when the reply does not match the schema', async () => {
+    const { llm, prompts } = provider({ profileSummary: 'Backend engineer.' }, VALID);
+
+    const tailored = await tailorCv(llm, JOB, PROFILE);
+
+    expect(prompts).toHaveLength(2);
+    expect(prompts[1]).toContain('did not match the required JSON format');
+    expect(tailored.profile.profileSummary).toBe('Backend engineer.');
+  });
+
+  it('fails once the re-ask is invalid too', async () => {
+    const { llm } = provider({}, {});
+    await expect(tailorCv(llm, JOB, PROFILE)).rejects.toThrow('Model returned invalid output');
+  });
+
+  it('reports tokens and re-asks to the usage meter', async () => {
+    const { llm } = provider({}, VALID);
+    const usage = new UsageMeter();
+
+    await tailorCv(llm, JOB, PROFILE, usage);
+
+    expect(usage.totals()).toMatchObject({ requests: 2, retries: 1, promptTokens: 200, outputTokens: 20, totalTokens: 220 });
+  });
+
+  it('keeps to the skills and roles of the original CV', async () => {
+    const { llm } = provider(VALID);
+
+    const tailored = await tailorCv(llm, JOB, PROFILE);
+
+    expect(tailored.profile.skills).toEqual(['Node.js', 'TypeScript', 'React']);
+    expect(tailored.profile.workHistory[0].bullets).toEqual(['Ran the API', 'Built dashboards']);
+    expect(tailored.diff.some(line => line.type === 'added')).toBe(true);
+  });
+});
@@ -0,0 +1,98 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import JSZip from 'jszip';
+import { afterAll, describe, expect, it } from 'vitest';
+import { extractHtml } from '../server/extraction/markup';
+import { extractDocx } from '../server/extraction/office';
+import { UploadError, sniffCvFile } from '../server/uploads';
+
+const DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'jobscout-uploads-'));
+
+afterAll(() => {
+  fs.rmSync(DIR, { recursive: true, force: true });
+});
+
+// Writes `content` to disk as an upload named `originalname`, the way multer leaves it.
+function upload(originalname: string, content: Buffer | string) {
+  const file = path.join(DIR, `${Math.random().toString(36).slice(2)}`);
+  fs.writeFileSync(file, content);
+  return { path: file, originalname, size: fs.statSync(file).size };
+}
+
+async function rejection(file: ReturnType<typeof upload>): Promise<UploadError> {
+  const error = await sniffCvFile(file).then(() => undefined, e => e);
+  expect(error).toBeInstanceOf(UploadError);
+  return error;
+}
+
+// The first bytes of a Windows executable: "MZ" header, DOS stub and a PE signature
+const EXECUTABLE = Buffer.concat([
+  Buffer.from([0x4d, 0x5a, 0x90, 0x00, 0x03, 0x00, 0x00, 0x00, 0x04, 0x00, 0x00, 0x00, 0xff, 0xff, 0x00, 0x00]),
+  Buffer.from('This program cannot be run in DOS mode.\r\n'),
+  Buffer.from([0x50, 0x45, 0x00, 0x00, 0x4c, 0x01])
+]);
+
+const HTML_PAYLOAD = '<!DOCTYPE html><html><head><title>Jane</title><script>fetch("/api/credentials")</script></head>' +
+  '<body><h1>Jane Doe</h1><img src=x onerror="alert(1)"><p>Senior engineer</p><script>alert(1)</script></body></html>';
+
+describe('sniffCvFile', () => {
+  it('rejects an executable renamed to a CV extension', async () => {
+    for (const name of ['cv.pdf', 'cv.docx', 'cv.txt']) {
+      const error = await rejection(upload(name, EXECUTABLE));
+      expect(error.status).toBe(415);
+      expect(error.code).toBe('unsupported_file_type');
+      expect(error.details.detectedType).toBe('binary');
+    }
+  });
+
+  it('rejects a zip that is not a document', async () => {
+    const zip = new JSZip();
+    zip.file('setup.exe', EXECUTABLE);
+    const error = await rejection(upload('cv.docx', await zip.generateAsync({ type: 'nodebuffer' })));
+    expect(error.details.detectedType).toBe('zip');
+  });
+
+  it('rejects archives that declare more content than MAX_UNZIPPED_MB before inflating them', async () => {
+    const zip = new JSZip();
+    zip.file('word/document.xml', '<w:document/>');
+    const buffer = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+    // Rewrite the declared uncompressed size in the central directory, as a zip bomb would have it
+    const entry = buffer.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]));
+    buffer.writeUInt32LE(2 * 1024 * 1024 * 1024, entry + 24);
+
+    const error = await rejection(upload('cv.docx', buffer));
+    expect(error.status).toBe(413);
+    expect(error.code).toBe('file_too_large');
+    expect(error.details.sizeBytes).toBeGreaterThan(2 * 1024 * 1024 * 1024);
+    await expect(extractDocx(buffer)).rejects.toThrow(/unpacks to more than/);
+  });
+
+  it('accepts a small docx', async () => {
+    const zip = new JSZip();
+    zip.file('word/document.xml', '<w:document/>');
+    expect((await sniffCvFile(upload('cv.docx', await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' })))).type).toBe('docx');
+  });
+
+  it('rejects legacy Word files with a hint', async () => {
+    const error = await rejection(upload('cv.doc', Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1, 0, 0, 0, 0])));
+    expect(error.message).toMatch(/Legacy \.doc files aren't supported/);
+  });
+
+  it('rejects empty files', async () => {
+    expect((await rejection(upload('cv.pdf', ''))).code).toBe('empty_file');
+  });
+
+  it('types an HTML file renamed to .pdf by its contents, and reads it as text only', async () => {
+    const file = upload('cv.pdf', HTML_PAYLOAD);
+    expect((await sniffCvFile(file)).type).toBe('html');
+
+    const text = await extractHtml(fs.readFileSync(file.path));
+    expect(text).toContain('Jane Doe');
+    expect(text).not.toMatch(/<|alert|fetch/);
+  });
+
+  it('does not treat an HTML file renamed to .docx as Word', async () => {
+    expect((await sniffCvFile(upload('cv.docx', HTML_PAYLOAD))).type).toBe('html');
+  });
+});
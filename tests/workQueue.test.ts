@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { JsonSchema, LlmProvider, WorkQueue, generateCheckedJson } from '../server/llm';
+
+const SCHEMA: JsonSchema = { type: 'object', properties: { score: { type: 'number' } }, required: ['score'] };
+
+// Answers without the required field until the `validOn`-th call.
+function provider(validOn: number): { llm: LlmProvider; calls: number[] } {
+  const calls: number[] = [];
+  const llm = {
+    name: 'fake',
+    modelFor: () => 'fake-model',
+    generateJson: async () => {
+      calls.push(Date.now());
+      return calls.length >= validOn ? { score: 80 } : {};
+    },
+    generateText: async () => ''
+  } as unknown as LlmProvider;
+  return { llm, calls };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('WorkQueue', () => {
+  it('counts re-asks against the per-minute budget', async () => {
+    const queue = new WorkQueue({ concurrency: 5, requestsPerMinute: 2, maxRetries: 0 });
+    const { llm, calls } = provider(3);
+    const result = queue.run(throttle => generateCheckedJson(llm, 'scoring', 'prompt', SCHEMA, { maxReasks: 2, beforeCall: throttle }));
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(calls).toHaveLength(2);
+
+    await vi.advanceTimersByTimeAsync(60000);
+    await expect(result).resolves.toEqual({ score: 80 });
+    expect(calls).toHaveLength(3);
+    expect(calls[2] - calls[0]).toBeGreaterThanOrEqual(60000);
+  });
+
+  it('shares the budget between tasks', async () => {
+    const queue = new WorkQueue({ concurrency: 5, requestsPerMinute: 3, maxRetries: 0 });
+    const first = provider(2);
+    const second = provider(2);
+    const run = (llm: LlmProvider) => queue.run(throttle => generateCheckedJson(llm, 'scoring', 'prompt', SCHEMA, { beforeCall: throttle }));
+    const results = Promise.all([run(first.llm), run(second.llm)]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(first.calls.length + second.calls.length).toBe(3);
+
+    await vi.advanceTimersByTimeAsync(60000);
+    await results;
+    expect(first.calls.length + second.calls.length).toBe(4);
+  });
+
+  it('stops waiting out a retry backoff as soon as the run is cancelled', async () => {
+    const queue = new WorkQueue({ concurrency: 1, requestsPerMinute: 0, maxRetries: 5 });
+    const controller = new AbortController();
+    const task = vi.fn(async () => { throw Object.assign(new Error('overloaded'), { status: 503 }); });
+    const result = queue.run(task, { signal: controller.signal });
+    const settled = vi.fn();
+    result.catch(settled);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(task).toHaveBeenCalledTimes(1);
+    controller.abort();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(settled).toHaveBeenCalledWith(expect.objectContaining({ message: 'The analysis was cancelled.' }));
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting for the per-minute budget as soon as the run is cancelled', async () => {
+    const queue = new WorkQueue({ concurrency: 5, requestsPerMinute: 1, maxRetries: 0 });
+    const controller = new AbortController();
+    const { llm, calls } = provider(1);
+    await queue.run(throttle => generateCheckedJson(llm, 'scoring', 'prompt', SCHEMA, { beforeCall: throttle }));
+    const result = queue.run(throttle => generateCheckedJson(llm, 'scoring', 'prompt', SCHEMA, { beforeCall: throttle }), { signal: controller.signal });
+    const settled = vi.fn();
+    result.catch(settled);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    controller.abort();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(settled).toHaveBeenCalledWith(expect.objectContaining({ message: 'The analysis was cancelled.' }));
+    expect(calls).toHaveLength(1);
+  });
+});
@@ -1,32 +1,528 @@
-export interface Job {
+export type JobSourceId = 'apify-linkedin' | 'greenhouse' | 'lever' | 'indeed' | 'rss';
+
+export interface JobSourceInfo {
+  id: JobSourceId;
+  label: string;
+  queryHint: string;
+}
+
+// Sub-scores (0-100) behind the overall match score
+export interface MatchBreakdown {
+  skills: number;
+  seniority: number;
+  domain: number;
+  location: number;
+}
+
+// What the scoring model returns for one job
+export interface JobMatch {
+  score: number;
+  verdict: string;
+  breakdown: MatchBreakdown;
+  matchedSkills: string[];
+  // Skills the job requires that the candidate does not show
+  missingSkills: string[];
+  // Hard blockers such as visa, clearance, language or on-site requirements the candidate can't meet
+  dealbreakers: string[];
+}
+
+export interface Job extends Partial<JobMatch> {
   jobId: string;
   companyName: string;
   companyLogo?: string;
   jobTitle: string;
+  location?: string;
   jobUrl: string;
   applyUrl?: string;
   description: string;
   scrapedAt: string;
-  score?: number;
-  verdict?: string;
+  source?: JobSourceId;
+  // Stable identity across runs (company, title, location and URL)
+  fingerprint?: string;
+  firstSeenAt?: string;
+  // True when the posting was not seen in any previous run
+  isNew?: boolean;
+  // Share (0-100) of CV skills found in the posting, computed by the pre-filter
+  lexicalScore?: number;
+  // Why the posting looks like it's trying to instruct the model, e.g. "Asks for a particular score"
+  suspiciousContent?: string[];
+}
+
+export interface DedupeStats {
+  received: number;
+  duplicates: number;
+  new: number;
+  changed: number;
+  unchanged: number;
+}
+
+// User-defined rules applied before any job is sent to the model
+export interface PrefilterRules {
+  includeKeywords: string[];
+  excludeKeywords: string[];
+  blockedCompanies: string[];
+  // Plain words match whole words; a leading or trailing * matches the rest of the word, e.g. "intern*"
+  excludeTitlePatterns: string[];
+  // ISO 639-1 codes, e.g. ['en', 'de']. Empty means any language.
+  languages: string[];
+  // Only the K best jobs by skill overlap are scored
+  topK?: number;
+}
+
+export type PrefilterRule = 'blocked-company' | 'title-pattern' | 'exclude-keyword' | 'include-keyword' | 'language' | 'top-k';
+
+export interface FilteredJob {
+  job: Job;
+  rule: PrefilterRule;
+  reason: string;
 }
 
-export interface AnalyzedResponse {
+export interface PrefilterReport {
+  received: number;
+  passed: number;
+  filtered: FilteredJob[];
+}
+
+export interface FailedJob {
+  job: Job;
+  reason: string;
+}
+
+// Candidate profile extracted from the CV
+export interface CvProfile {
   skills: string[];
   profileSummary: string;
   experienceHighlights: string[];
+}
+
+export interface ContactDetails {
+  name: string;
+  email?: string;
+  phone?: string;
+  location?: string;
+  linkedin?: string;
+  website?: string;
+}
+
+export interface WorkExperience {
+  title: string;
+  employer: string;
+  location?: string;
+  // YYYY-MM or YYYY
+  startDate?: string;
+  endDate?: string;
+  current?: boolean;
+  bullets: string[];
+}
+
+export interface Education {
+  institution: string;
+  degree?: string;
+  field?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface Certification {
+  name: string;
+  issuer?: string;
+  date?: string;
+}
+
+export interface LanguageSkill {
+  language: string;
+  proficiency?: string;
+}
+
+export type SeniorityLevel = 'intern' | 'junior' | 'mid' | 'senior' | 'lead' | 'principal' | 'executive';
+
+// Full structured profile parsed from the CV
+export interface CandidateProfile extends CvProfile {
+  contact: ContactDetails;
+  workHistory: WorkExperience[];
+  education: Education[];
+  certifications: Certification[];
+  languages: LanguageSkill[];
+  totalYearsExperience: number;
+  seniority: SeniorityLevel;
+}
+
+// A named, user-edited profile stored on the server, e.g. "Backend profile"
+export interface SavedProfile {
+  profileId: string;
+  userId?: string;
+  name: string;
+  profile: CandidateProfile;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// One line of a line-level diff between two texts
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// A CV rewritten for one job. Roles, dates, education and certifications are never changed;
+// only the summary, skill order and experience bullets are.
+export interface TailoredCv {
+  profile: CandidateProfile;
+  // Skills from the CV that the job asks for, most important first
+  emphasisedSkills: string[];
+  // Diff of the plain-text CV before and after tailoring
+  diff: DiffLine[];
+  // Model usage of the tailoring call
+  usage?: LlmUsage;
+}
+
+// Token counts and estimated spend for the model calls of one run
+export interface LlmUsage {
+  requests: number;
+  // Requests repeated after a rate limit, transient error or invalid JSON
+  retries: number;
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  estimatedCostUsd: number;
+}
+
+export interface AnalyzedResponse extends CandidateProfile {
+  // Set when the run used a saved profile instead of an uploaded CV
+  profileId?: string;
+  // Every successfully scored job, best first. Filtering by threshold happens client-side.
   jobs: Job[];
+  // Jobs the model could not score, with the error that stopped them
+  failedJobs: FailedJob[];
+  prefilter?: PrefilterReport;
+  dedupe?: DedupeStats;
+  // Score cache lookups for this run; hits cost no model call
+  scoreCache?: { hits: number; misses: number };
+  // Model usage of this run (CV parsing and scoring)
+  usage?: LlmUsage;
   coverLetterUrl?: string | null;
   coverLetterText?: string | null;
 }
 
+// What an analysis was run with, kept with its result in the history
+export interface AnalysisInputs {
+  source: JobSourceId;
+  searchUrl: string;
+  maxJobs: number;
+  // Score threshold the results were first viewed with
+  threshold?: number;
+  // Apify actor slug, for the LinkedIn source
+  actor?: string;
+  filters?: PrefilterRules;
+  profileId?: string;
+  profileName?: string;
+  // Short hash of the candidate profile the jobs were scored against; changes whenever the profile does
+  profileVersion?: string;
+  cvFileName?: string;
+  // Set when a saved search started the run
+  searchId?: string;
+}
+
+export interface AnalysisSummary {
+  // Same as the runId of the analysis
+  analysisId: string;
+  createdAt: string;
+  finishedAt: string;
+  status: 'done' | 'failed';
+  inputs: AnalysisInputs;
+  jobCount: number;
+  topScore?: number;
+  error?: string;
+}
+
+// What the history keeps of a run's result. The candidate profile is personal data and is left out.
+export type AnalysisResult = Pick<AnalyzedResponse, 'profileId' | 'jobs' | 'failedJobs' | 'prefilter' | 'dedupe' | 'scoreCache' | 'usage'>;
+
+export interface AnalysisRecord extends AnalysisSummary {
+  userId?: string;
+  result?: AnalysisResult;
+}
+
+export interface JobScoreChange {
+  job: Job;
+  previousScore: number;
+  score: number;
+}
+
+// A job scored in one run that the other run fetched but didn't score
+export interface UnscoredJob {
+  // As scored by the run that did score it
+  job: Job;
+  // The run that didn't score it
+  run: 'base' | 'target';
+  status: 'filtered' | 'failed';
+  reason: string;
+}
+
+// Differences between two runs of the same search; `base` is always the older run.
+export interface AnalysisComparison {
+  base: AnalysisSummary;
+  target: AnalysisSummary;
+  // Scored in the newer run, and not fetched by the older one
+  appeared: Job[];
+  // Scored in the older run, and not fetched by the newer one
+  disappeared: Job[];
+  // Scored in one run, pre-filtered or failed in the other
+  unscored: UnscoredJob[];
+  // In both runs with a different score, biggest moves first
+  changed: JobScoreChange[];
+  unchanged: number;
+  profileChanged: boolean;
+}
+
+export type ApiErrorCode = 'file_too_large' | 'unsupported_file_type' | 'empty_file' | 'invalid_upload';
+
+export interface UploadErrorDetails {
+  fileName?: string;
+  sizeBytes?: number;
+  maxBytes?: number;
+  // What the file's contents look like, regardless of its name or the browser's MIME type
+  detectedType?: string;
+  acceptedTypes?: string[];
+}
+
 export interface ApiError {
   error: string;
-  details?: string;
+  code?: ApiErrorCode;
+  details?: UploadErrorDetails;
 }
 
 export interface AnalysisRequest {
+  source: JobSourceId;
   searchUrl: string;
   maxJobs: number;
   scoreThreshold: number;
 }
+
+export type RunStage = 'queued' | 'extracting' | 'scraping' | 'scoring' | 'done' | 'failed';
+
+export interface RunProgress {
+  stage: RunStage;
+  message: string;
+  apifyStatus?: string;
+  scored?: number;
+  total?: number;
+}
+
+export interface AnalysisRun {
+  runId: string;
+  userId: string;
+  progress: RunProgress;
+  createdAt: string;
+  updatedAt: string;
+  profile?: CandidateProfile;
+  jobs: Job[];
+  result?: AnalyzedResponse;
+  error?: string;
+}
+
+// Server-Sent Events emitted on /api/runs/:runId/events. `snapshot` is always sent first.
+export type RunEvent =
+  | { type: 'snapshot'; run: AnalysisRun }
+  | { type: 'progress'; progress: RunProgress }
+  | { type: 'profile'; profile: CandidateProfile }
+  | { type: 'job'; job: Job }
+  | { type: 'done'; result: AnalyzedResponse }
+  | { type: 'failed'; error: string };
+
+export type CoverLetterTone = 'professional' | 'enthusiastic' | 'formal' | 'friendly' | 'direct';
+export type CoverLetterLength = 'short' | 'medium' | 'long';
+export type CoverLetterStructure = 'classic' | 'achievements' | 'story' | 'bullets';
+
+export interface CoverLetterOptions {
+  tone: CoverLetterTone;
+  length: CoverLetterLength;
+  structure: CoverLetterStructure;
+  // Language the letter is written in, e.g. "English"
+  language: string;
+}
+
+// Choices offered by GET /api/cover-letters/templates
+export interface CoverLetterTemplates {
+  tones: { id: CoverLetterTone; label: string; instruction: string }[];
+  lengths: { id: CoverLetterLength; label: string; words: number }[];
+  structures: { id: CoverLetterStructure; label: string; instruction: string }[];
+  languages: string[];
+}
+
+export type ExportFormat = 'pdf' | 'docx' | 'md' | 'txt';
+export type ExportThemeId = 'classic' | 'modern' | 'serif' | 'minimal';
+
+// Visual style for PDF and DOCX exports. Colours are hex without '#'.
+export interface ExportTheme {
+  id: ExportThemeId;
+  label: string;
+  // CSS font stack for HTML/PDF, single font name for DOCX
+  fontFamily: string;
+  docxFont: string;
+  textColor: string;
+  accentColor: string;
+  mutedColor: string;
+  headerRule: boolean;
+}
+
+// Choices offered by GET /api/cover-letters/export-options
+export interface ExportOptions {
+  formats: { id: ExportFormat; label: string }[];
+  themes: { id: ExportThemeId; label: string }[];
+}
+
+export type BatchItemStatus = 'pending' | 'drafting' | 'rendering' | 'done' | 'failed';
+
+export interface CoverLetterBatchItem {
+  jobId: string;
+  companyName: string;
+  jobTitle: string;
+  status: BatchItemStatus;
+  // Name of the file inside the zip
+  fileName?: string;
+  error?: string;
+}
+
+export interface CoverLetterBatch {
+  batchId: string;
+  userId: string;
+  status: 'running' | 'done' | 'failed';
+  items: CoverLetterBatchItem[];
+  createdAt: string;
+  updatedAt: string;
+  // Signed link to the zip, set when done
+  zipUrl?: string;
+  error?: string;
+}
+
+// Body of POST /api/cover-letters/batch
+export interface CoverLetterBatchRequest {
+  runId: string;
+  jobIds: string[];
+  // Defaults to the profile the run was scored with
+  profile?: CandidateProfile;
+  options?: Partial<CoverLetterOptions>;
+  format?: ExportFormat;
+  theme?: ExportThemeId;
+}
+
+// Server-Sent Events emitted on /api/cover-letters/batch/:batchId/events. `snapshot` is always sent first.
+export type BatchEvent =
+  | { type: 'snapshot'; batch: CoverLetterBatch }
+  | { type: 'item'; item: CoverLetterBatchItem }
+  | { type: 'done'; batch: CoverLetterBatch }
+  | { type: 'failed'; error: string };
+
+export type ApplicationStatus = 'saved' | 'applied' | 'interviewing' | 'offer' | 'rejected' | 'withdrawn';
+
+// A generated document linked to an application. Linked artifacts are kept until the
+// application is deleted.
+export interface ApplicationArtifact {
+  artifactId: string;
+  kind: 'coverLetter' | 'cv';
+  fileName: string;
+  createdAt: string;
+  // Fresh signed download link, added when the application is returned by the API
+  url?: string;
+}
+
+export interface TrackedApplication {
+  applicationId: string;
+  userId?: string;
+  job: Job;
+  status: ApplicationStatus;
+  notes: string;
+  // Every status change, oldest first
+  history: { status: ApplicationStatus; at: string }[];
+  artifacts: ApplicationArtifact[];
+  // Follow-up reminder; cleared by setting it to null
+  reminderAt?: string;
+  reminderNote?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Body of PATCH /api/applications/:applicationId
+export interface ApplicationUpdate {
+  status?: ApplicationStatus;
+  notes?: string;
+  reminderAt?: string | null;
+  reminderNote?: string;
+}
+
+// Where a saved search's digest is delivered. SMTP settings come from the environment; email
+// always goes to the owning account's address.
+export type NotifierConfig =
+  | { type: 'none' }
+  | { type: 'webhook'; url: string }
+  | { type: 'email'; to: string };
+
+// A search re-run on a schedule with a saved profile (uploaded CVs are not kept).
+export interface SavedSearch {
+  searchId: string;
+  userId?: string;
+  name: string;
+  source: JobSourceId;
+  searchUrl: string;
+  maxJobs: number;
+  // Saved Apify credential; the server's own token is used without one
+  credentialId?: string;
+  filters: PrefilterRules;
+  profileId: string;
+  // Only matches scoring at least this much go into the digest
+  threshold: number;
+  // Cron expression, e.g. "0 8 * * 1-5"; empty to run only on demand
+  schedule: string;
+  enabled: boolean;
+  notifier: NotifierConfig;
+  // Keys of every job scored in the last run, used to tell new matches from known ones
+  lastJobKeys: string[];
+  lastRunAt?: string;
+  nextRunAt?: string;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Body of POST/PUT /api/searches
+export type SavedSearchInput = Pick<SavedSearch, 'name' | 'source' | 'searchUrl' | 'maxJobs' | 'profileId' | 'threshold' | 'schedule' | 'enabled' | 'notifier'>
+  & Partial<Pick<SavedSearch, 'credentialId' | 'filters'>>;
+
+// New matches from one run of a saved search
+export interface SearchDigest {
+  digestId: string;
+  userId?: string;
+  searchId: string;
+  searchName: string;
+  runId: string;
+  threshold: number;
+  // Scored jobs that were not in the previous run and meet the threshold, best first
+  newMatches: Job[];
+  totalScored: number;
+  createdAt: string;
+  delivery?: { notifier: string; at: string; error?: string };
+}
+
+export interface User {
+  userId: string;
+  email: string;
+  name: string;
+  createdAt: string;
+}
+
+// An Apify token saved for reuse. The token itself never leaves the server; `tokenHint` is its
+// last four characters so the user can tell credentials apart.
+export interface ApifyCredential {
+  credentialId: string;
+  label: string;
+  actor: string;
+  tokenHint: string;
+  createdAt: string;
+}
+
+// Body of POST /api/credentials
+export interface ApifyCredentialInput {
+  label: string;
+  token: string;
+  actor?: string;
+}